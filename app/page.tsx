@@ -29,7 +29,7 @@ export default function Page() {
             className="text-center"
           >
             <h1 className="text-balance text-4xl font-semibold tracking-tight md:text-6xl">
-              {"Convert PNGs to WEBP Instantly ⚡"}
+              {"Convert Images to WEBP Instantly ⚡"}
             </h1>
             <p className="text-pretty mx-auto mt-4 max-w-2xl text-muted-foreground md:text-lg">
               {"Fast, free, and 100% browser-based. No uploads, no limits."}
@@ -42,7 +42,7 @@ export default function Page() {
               >
                 <span className="relative">
                   <span className="absolute inset-0 -z-10 rounded-full bg-primary/30 blur-sm transition-opacity group-hover:opacity-100" />
-                  {"Upload PNGs"}
+                  {"Upload Images"}
                 </span>
                 <span aria-hidden className="transition-transform group-hover:translate-x-0.5">
                   →
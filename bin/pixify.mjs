@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI directly. The tsconfig is pinned so "@/..." imports resolve from any working directory.
+import { fileURLToPath } from "node:url"
+
+process.env.TSX_TSCONFIG_PATH = fileURLToPath(new URL("../tsconfig.json", import.meta.url))
+const { tsImport } = await import("tsx/esm/api")
+await tsImport("../cli/pixify.ts", import.meta.url)
@@ -0,0 +1,72 @@
+import { mkdir, mkdtemp, rm, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { afterAll, beforeAll, describe, expect, it } from "vitest"
+import { expandInputs, globToRegExp, outputNames } from "@/cli/files"
+
+describe("globToRegExp", () => {
+  it("keeps * and ? inside one path segment", () => {
+    expect(globToRegExp("*.png").test("a.png")).toBe(true)
+    expect(globToRegExp("*.png").test("sub/a.png")).toBe(false)
+    expect(globToRegExp("img-?.jpg").test("img-1.jpg")).toBe(true)
+  })
+
+  it("lets **/ match any number of folders, including none", () => {
+    const re = globToRegExp("**/*.png")
+    expect(re.test("a.png")).toBe(true)
+    expect(re.test("x/y/a.png")).toBe(true)
+  })
+
+  it("supports braces and classes", () => {
+    expect(globToRegExp("*.{png,jpg}").test("a.jpg")).toBe(true)
+    expect(globToRegExp("[ab].png").test("c.png")).toBe(false)
+  })
+})
+
+describe("expandInputs", () => {
+  let dir: string
+
+  beforeAll(async () => {
+    dir = await mkdtemp(path.join(os.tmpdir(), "pixify-"))
+    await mkdir(path.join(dir, "sub"))
+    for (const f of ["a.png", "b.jpg", "notes.txt", "sub/c.webp"]) await writeFile(path.join(dir, f), "x")
+  })
+
+  afterAll(() => rm(dir, { recursive: true, force: true }))
+
+  it("lists only the top level of a folder unless recursive", async () => {
+    const flat = await expandInputs([dir], false)
+    expect(flat.map((f) => f.relative)).toEqual(["a.png", "b.jpg"])
+    const deep = await expandInputs([dir], true)
+    expect(deep.map((f) => f.relative)).toEqual(["a.png", "b.jpg", path.join("sub", "c.webp")])
+  })
+
+  it("expands globs relative to their fixed prefix and skips duplicates", async () => {
+    const files = await expandInputs([`${dir}/**/*.{png,webp}`, path.join(dir, "a.png")], false)
+    expect(files.map((f) => f.relative)).toEqual(["a.png", path.join("sub", "c.webp")])
+  })
+
+  it("fails on missing paths", async () => {
+    await expect(expandInputs([path.join(dir, "missing")], false)).rejects.toThrow("No such file")
+  })
+})
+
+describe("outputNames", () => {
+  const file = (relative: string) => ({ path: path.resolve(relative), relative })
+
+  it("swaps the extension and keeps the folder layout", () => {
+    expect(outputNames([file("a.png"), file(path.join("sub", "b.jpeg"))], "webp")).toEqual([
+      "a.webp",
+      path.join("sub", "b.webp"),
+    ])
+  })
+
+  it("numbers inputs that would overwrite each other, ignoring case", () => {
+    expect(outputNames([file("logo.png"), file("logo.jpg"), file("LOGO.gif"), file("logo (1).webp")], "webp")).toEqual([
+      "logo.webp",
+      "logo (1).webp",
+      "LOGO (2).webp",
+      "logo (1) (1).webp",
+    ])
+  })
+})
@@ -0,0 +1,144 @@
+import { readdir, stat } from "node:fs/promises"
+import path from "node:path"
+import { uniqueNames } from "@/lib/zip"
+
+export type InputFile = {
+  // absolute path on disk
+  path: string
+  // path relative to the input it came from, used to mirror the folder layout under --out
+  relative: string
+}
+
+const IMAGE_EXTENSIONS = new Set([
+  "png",
+  "apng",
+  "jpg",
+  "jpeg",
+  "jfif",
+  "gif",
+  "bmp",
+  "webp",
+  "avif",
+  "tif",
+  "tiff",
+  "svg",
+])
+
+export function isImagePath(p: string) {
+  return IMAGE_EXTENSIONS.has(path.extname(p).slice(1).toLowerCase())
+}
+
+export function hasGlob(pattern: string) {
+  return /[*?[{]/.test(pattern)
+}
+
+// Translate a glob (*, **, ?, [abc], {a,b}) into a RegExp matched against "/"-separated relative paths
+export function globToRegExp(glob: string) {
+  let re = ""
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i]
+    if (c === "*") {
+      if (glob[i + 1] === "*") {
+        // "**/" matches zero or more whole directories
+        const slash = glob[i + 2] === "/"
+        re += slash ? "(?:.*/)?" : ".*"
+        i += slash ? 2 : 1
+      } else {
+        re += "[^/]*"
+      }
+    } else if (c === "?") {
+      re += "[^/]"
+    } else if (c === "[") {
+      const end = glob.indexOf("]", i)
+      if (end < 0) re += "\\["
+      else {
+        re += `[${glob.slice(i + 1, end).replace(/^!/, "^")}]`
+        i = end
+      }
+    } else if (c === "{") {
+      const end = glob.indexOf("}", i)
+      if (end < 0) re += "\\{"
+      else {
+        re += `(?:${glob
+          .slice(i + 1, end)
+          .split(",")
+          .map((s) => s.replace(/[.+^$()|\\]/g, "\\$&"))
+          .join("|")})`
+        i = end
+      }
+    } else {
+      re += c.replace(/[.+^$()|\\]/g, "\\$&")
+    }
+  }
+  return new RegExp(`^${re}$`)
+}
+
+async function walk(dir: string, recursive: boolean): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true })
+  const out: string[] = []
+  for (const e of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (e.name.startsWith(".")) continue
+    const full = path.join(dir, e.name)
+    if (e.isDirectory()) {
+      if (recursive) out.push(...(await walk(full, true)))
+    } else if (e.isFile()) {
+      out.push(full)
+    }
+  }
+  return out
+}
+
+// The fixed directory part of a glob, e.g. "assets/img" for "assets/img/**/*.png"
+function globBase(pattern: string) {
+  const parts = pattern.split(/[\\/]/)
+  const fixed: string[] = []
+  for (const part of parts) {
+    if (hasGlob(part)) break
+    fixed.push(part)
+  }
+  return fixed.join("/") || "."
+}
+
+// Expand CLI inputs: plain files, directories (top level, or everything below with recursive)
+// and glob patterns. Only image files are returned, each once, in a stable order.
+export async function expandInputs(inputs: string[], recursive: boolean): Promise<InputFile[]> {
+  const seen = new Set<string>()
+  const files: InputFile[] = []
+  const add = (file: string, base: string) => {
+    const abs = path.resolve(file)
+    if (seen.has(abs) || !isImagePath(abs)) return
+    seen.add(abs)
+    files.push({ path: abs, relative: path.relative(base, abs) || path.basename(abs) })
+  }
+
+  for (const input of inputs) {
+    if (hasGlob(input)) {
+      const base = globBase(input)
+      const re = globToRegExp(path.relative(base, input).split(path.sep).join("/"))
+      // "**" needs to look below the base even without --recursive
+      const deep = recursive || input.includes("**") || input.includes("/", base.length + 1)
+      for (const file of await walk(base, deep)) {
+        if (re.test(path.relative(base, file).split(path.sep).join("/"))) add(file, base)
+      }
+      continue
+    }
+
+    const info = await stat(input).catch(() => null)
+    if (!info) throw new Error(`No such file or directory: ${input}`)
+    if (info.isDirectory()) {
+      for (const file of await walk(input, recursive)) add(file, input)
+    } else {
+      add(input, path.dirname(input))
+    }
+  }
+  return files
+}
+
+// Output paths under --out, relative to it: the input layout with the new extension. Inputs that would land on the
+// same file (logo.png and logo.jpg, or one path under two input folders) get numbered, ignoring case for
+// case-insensitive filesystems, so no output overwrites another.
+export function outputNames(files: InputFile[], extension: string) {
+  return uniqueNames(
+    files.map((f) => `${f.relative.slice(0, f.relative.length - path.extname(f.relative).length)}.${extension}`),
+  )
+}
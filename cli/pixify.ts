@@ -0,0 +1,411 @@
+import { readFileSync } from "node:fs"
+import { mkdir, readFile, writeFile } from "node:fs/promises"
+import os from "node:os"
+import path from "node:path"
+import { parseArgs } from "node:util"
+import { expandInputs, outputNames, type InputFile } from "@/cli/files"
+import { sharpBackend } from "@/cli/sharp-backend"
+import { DEFAULT_SETTINGS, convertBlob, type ConvertMode, type ConvertSettings, type SizeStrategy } from "@/lib/engine"
+import type { ColorProfilePolicy, MetadataPolicy } from "@/lib/metadata"
+import {
+  OUTPUT_FORMATS,
+  isLosslessCodec,
+  isLossy,
+  type AlphaPolicy,
+  type OutputFormat,
+  type WebpMode,
+} from "@/lib/output-formats"
+import { MAX_OVERLAY_IMAGE_BYTES, OVERLAY_ANCHORS, type OverlayAnchor } from "@/lib/overlay"
+import { RESAMPLE_FILTERS, type ResampleFilter } from "@/lib/resample"
+import { MAX_DIMENSION, type FitMode } from "@/lib/resize"
+import { base64 } from "@/lib/share"
+
+const USAGE = `Usage: pixify convert <files, folders or globs...> [options]
+
+Runs the same conversion modes as the web app over many files.
+
+Options:
+  -m, --mode <mode>        auto | quality | size | both | visual (default: size with --max-kb, else auto)
+  -f, --format <format>    webp | avif | jpeg | png (default: webp)
+  -q, --quality <1-100>    quality for "quality" and "both" modes (default: 90)
+  -k, --max-kb <n>         size cap in KB for "size" and "both" modes (default: 300)
+      --ssim <0-1>         minimum SSIM for "visual" mode (default: 0.98)
+      --max-edge <px>      cap the longest edge before searching
+      --width <px>         exact output width (with --height and --fit)
+      --height <px>        exact output height
+      --fit <fit>          contain | cover | stretch (default: cover)
+      --filter <f>         resampling filter: lanczos3 | mitchell | bilinear | nearest (default: lanczos3)
+      --sharpen <0-100>    sharpen resized output by this much (default: 0, off)
+      --upscale            let the size searches upscale to get close to the cap
+      --strategy <s>       "size" mode trade-off: quality-first | resolution | balanced | sharpness
+                           (default: quality-first; the others also try smaller sizes and keep the best-looking)
+      --webp <mode>        lossy | near-lossless | lossless WEBP encoding (default: lossy)
+      --fps <n>            highest frame rate kept when animated GIF/APNG becomes animated WEBP (default: all frames)
+      --alpha <policy>     keep | clean (zero hidden pixels) | flatten (default: keep)
+      --background <hex>   colour for --alpha flatten and for JPEG output (default: #ffffff)
+      --metadata <policy>  strip | copyright | all (default: strip); not written to AVIF
+      --color <policy>     srgb (convert) | keep (embed the source ICC profile) (default: srgb)
+      --watermark <file>   PNG, WEBP, JPEG, GIF or AVIF logo (under 512 KB) to burn into every image
+      --watermark-text <s> text to burn in instead of a logo
+      --watermark-color <hex>  text colour (default: #ffffff)
+      --watermark-position <p> top-left | top | top-right | left | center | right | bottom-left | bottom |
+                               bottom-right (default: bottom-right)
+      --watermark-scale <n>    width as % of the image width, 5-100 (default: 20)
+      --watermark-margin <n>   gap to the edges as % of the image width, 0-25 (default: 3)
+      --watermark-opacity <n>  0-100 (default: 70)
+      --watermark-tile         repeat the watermark across the whole image
+  -r, --recursive          include files in subfolders of folder inputs
+  -o, --out <dir>          output folder; the input folder layout is mirrored inside it
+                           (outputs that would clash, like logo.png and logo.jpg, are numbered: "logo (1).webp")
+  -n, --dry-run            convert in memory and report sizes without writing anything
+  -j, --concurrency <n>    files converted at once (default: number of CPU cores, up to 4)
+      --json               print the report as JSON
+  -h, --help               show this help
+
+Exits with 1 if any file failed or could not be brought under --max-kb, 2 on invalid arguments.`
+
+class UsageError extends Error {}
+
+type FileReport = {
+  source: string
+  output: string | null
+  originalBytes: number
+  outputBytes: number | null
+  qualityPct: number | null
+  scalePct: number | null
+  width: number | null
+  height: number | null
+  ssim: number | null
+  encodes: number | null
+  // animated WEBP output only
+  frames: number | null
+  // an animated source written as a still (output format other than WEBP)
+  firstFrameOnly: boolean
+  // flat-colour graphics encoded lossily, where lossless WEBP is usually the better choice
+  losslessRecommended: boolean
+  overCap: boolean
+  error: string | null
+}
+
+function oneOf<T extends string>(flag: string, value: string | undefined, allowed: readonly T[]): T | undefined {
+  if (value === undefined) return undefined
+  if (!allowed.includes(value as T)) throw new UsageError(`--${flag} must be one of ${allowed.join(", ")}`)
+  return value as T
+}
+
+function number(flag: string, value: string | undefined, min: number, max: number, integer = true) {
+  if (value === undefined) return undefined
+  const n = Number(value)
+  if (!Number.isFinite(n) || n < min || n > max || (integer && !Number.isInteger(n))) {
+    throw new UsageError(`--${flag} must be ${integer ? "a whole number" : "a number"} between ${min} and ${max}`)
+  }
+  return n
+}
+
+function hexColour(flag: string, value: string | undefined) {
+  if (value === undefined) return undefined
+  const hex = value.replace(/^#?/, "#").toLowerCase()
+  if (!/^#[0-9a-f]{6}$/.test(hex)) throw new UsageError(`--${flag} must be a hex colour like #ffffff`)
+  return hex
+}
+
+const WATERMARK_TYPES: Record<string, string> = {
+  ".png": "image/png",
+  ".webp": "image/webp",
+  ".jpg": "image/jpeg",
+  ".jpeg": "image/jpeg",
+  ".gif": "image/gif",
+  ".avif": "image/avif",
+}
+
+// The engine takes the watermark as a data URI, like the web app stores it in the settings
+function watermarkUri(file: string) {
+  const type = WATERMARK_TYPES[path.extname(file).toLowerCase()]
+  if (!type) throw new UsageError("--watermark must be a PNG, WEBP, JPEG, GIF or AVIF file")
+  let bytes: Buffer
+  try {
+    bytes = readFileSync(file)
+  } catch {
+    throw new UsageError(`Cannot read watermark ${file}`)
+  }
+  if (bytes.byteLength > MAX_OVERLAY_IMAGE_BYTES) {
+    throw new UsageError(`--watermark must be under ${MAX_OVERLAY_IMAGE_BYTES / 1024} KB`)
+  }
+  return `data:${type};base64,${base64(new Uint8Array(bytes))}`
+}
+
+function parse(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      mode: { type: "string", short: "m" },
+      format: { type: "string", short: "f" },
+      quality: { type: "string", short: "q" },
+      "max-kb": { type: "string", short: "k" },
+      ssim: { type: "string" },
+      "max-edge": { type: "string" },
+      width: { type: "string" },
+      height: { type: "string" },
+      fit: { type: "string" },
+      filter: { type: "string" },
+      sharpen: { type: "string" },
+      upscale: { type: "boolean", default: false },
+      strategy: { type: "string" },
+      webp: { type: "string" },
+      fps: { type: "string" },
+      alpha: { type: "string" },
+      background: { type: "string" },
+      metadata: { type: "string" },
+      color: { type: "string" },
+      watermark: { type: "string" },
+      "watermark-text": { type: "string" },
+      "watermark-color": { type: "string" },
+      "watermark-position": { type: "string" },
+      "watermark-scale": { type: "string" },
+      "watermark-margin": { type: "string" },
+      "watermark-opacity": { type: "string" },
+      "watermark-tile": { type: "boolean", default: false },
+      recursive: { type: "boolean", short: "r", default: false },
+      out: { type: "string", short: "o" },
+      "dry-run": { type: "boolean", short: "n", default: false },
+      concurrency: { type: "string", short: "j" },
+      json: { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+  if (values.help) return null
+
+  const [command, ...inputs] = positionals
+  if (command !== "convert") throw new UsageError(command ? `Unknown command: ${command}` : "Missing command")
+  if (!inputs.length) throw new UsageError("No input files, folders or globs given")
+  if (!values.out && !values["dry-run"]) throw new UsageError("Pass --out <dir>, or --dry-run to only report sizes")
+
+  const maxKB = number("max-kb", values["max-kb"], 1, 1024 * 1024)
+  const width = number("width", values.width, 0, MAX_DIMENSION)
+  const height = number("height", values.height, 0, MAX_DIMENSION)
+  const maxEdge = number("max-edge", values["max-edge"], 1, MAX_DIMENSION)
+  if (maxEdge && (width || height)) throw new UsageError("Use either --max-edge or --width/--height, not both")
+  const background = hexColour("background", values.background)
+  if (values.watermark && values["watermark-text"]) throw new UsageError("Use either --watermark or --watermark-text")
+
+  const settings: ConvertSettings = {
+    ...DEFAULT_SETTINGS,
+    mode:
+      oneOf<ConvertMode>("mode", values.mode, ["auto", "quality", "size", "both", "visual"]) ??
+      (maxKB ? "size" : "auto"),
+    format: oneOf("format", values.format, Object.keys(OUTPUT_FORMATS) as OutputFormat[]) ?? DEFAULT_SETTINGS.format,
+    qualityPct: number("quality", values.quality, 1, 100) ?? DEFAULT_SETTINGS.qualityPct,
+    maxSizeKB: maxKB ?? DEFAULT_SETTINGS.maxSizeKB,
+    targetSsim: number("ssim", values.ssim, 0.5, 1, false) ?? DEFAULT_SETTINGS.targetSsim,
+    allowUpscale: values.upscale,
+    sizeStrategy:
+      oneOf<SizeStrategy>("strategy", values.strategy, ["quality-first", "resolution", "balanced", "sharpness"]) ??
+      DEFAULT_SETTINGS.sizeStrategy,
+    noUpscale: !values.upscale,
+    resize: maxEdge ? "max-edge" : width || height ? "exact" : "none",
+    resizeMaxEdge: maxEdge ?? DEFAULT_SETTINGS.resizeMaxEdge,
+    resizeWidth: width ?? 0,
+    resizeHeight: height ?? 0,
+    resizeFit: oneOf<FitMode>("fit", values.fit, ["contain", "cover", "stretch"]) ?? DEFAULT_SETTINGS.resizeFit,
+    resampleFilter: oneOf<ResampleFilter>("filter", values.filter, RESAMPLE_FILTERS) ?? DEFAULT_SETTINGS.resampleFilter,
+    sharpen: number("sharpen", values.sharpen, 0, 100) ?? DEFAULT_SETTINGS.sharpen,
+    metadata:
+      oneOf<MetadataPolicy>("metadata", values.metadata, ["strip", "copyright", "all"]) ?? DEFAULT_SETTINGS.metadata,
+    colorProfile: oneOf<ColorProfilePolicy>("color", values.color, ["srgb", "keep"]) ?? DEFAULT_SETTINGS.colorProfile,
+    webpMode: oneOf<WebpMode>("webp", values.webp, ["lossy", "near-lossless", "lossless"]) ?? DEFAULT_SETTINGS.webpMode,
+    animationFps: number("fps", values.fps, 1, 60) ?? DEFAULT_SETTINGS.animationFps,
+    alpha: oneOf<AlphaPolicy>("alpha", values.alpha, ["keep", "clean", "flatten"]) ?? DEFAULT_SETTINGS.alpha,
+    background: background ?? DEFAULT_SETTINGS.background,
+    overlay: values.watermark ? "image" : values["watermark-text"] ? "text" : "none",
+    overlayImage: values.watermark ? watermarkUri(values.watermark) : "",
+    overlayText: values["watermark-text"] ?? "",
+    overlayColor: hexColour("watermark-color", values["watermark-color"]) ?? DEFAULT_SETTINGS.overlayColor,
+    overlayAnchor:
+      oneOf<OverlayAnchor>("watermark-position", values["watermark-position"], OVERLAY_ANCHORS) ??
+      DEFAULT_SETTINGS.overlayAnchor,
+    overlayScale: number("watermark-scale", values["watermark-scale"], 5, 100) ?? DEFAULT_SETTINGS.overlayScale,
+    overlayMargin: number("watermark-margin", values["watermark-margin"], 0, 25) ?? DEFAULT_SETTINGS.overlayMargin,
+    overlayOpacity: number("watermark-opacity", values["watermark-opacity"], 0, 100) ?? DEFAULT_SETTINGS.overlayOpacity,
+    overlayTile: values["watermark-tile"],
+  }
+
+  return {
+    inputs,
+    settings,
+    recursive: values.recursive,
+    out: values.out ? path.resolve(values.out) : null,
+    dryRun: values["dry-run"],
+    json: values.json,
+    concurrency:
+      number("concurrency", values.concurrency, 1, 64) ?? Math.max(1, Math.min(os.availableParallelism(), 4)),
+  }
+}
+
+async function convertFile(
+  file: InputFile,
+  // output path relative to `out`
+  output: string,
+  settings: ConvertSettings,
+  out: string | null,
+  dryRun: boolean,
+): Promise<FileReport> {
+  const report: FileReport = {
+    source: file.relative,
+    output: null,
+    originalBytes: 0,
+    outputBytes: null,
+    qualityPct: null,
+    scalePct: null,
+    width: null,
+    height: null,
+    ssim: null,
+    encodes: null,
+    frames: null,
+    firstFrameOnly: false,
+    losslessRecommended: false,
+    overCap: false,
+    error: null,
+  }
+  try {
+    // read inside the try: a file that vanished or can't be read is reported like any other failure
+    const bytes = await readFile(file.path)
+    report.originalBytes = bytes.byteLength
+    const res = await convertBlob(new Blob([new Uint8Array(bytes)]), settings, { backend: sharpBackend })
+    const capped = settings.mode === "size" || settings.mode === "both"
+    Object.assign(report, {
+      outputBytes: res.blob.size,
+      qualityPct: isLossy(settings.format, settings.webpMode) ? Math.round(res.q * 100) : null,
+      scalePct: Math.round(res.scale * 100),
+      width: res.width,
+      height: res.height,
+      ssim: res.ssim ?? null,
+      encodes: res.diagnostics.encodes,
+      frames: res.animation?.frames ?? null,
+      firstFrameOnly: !!res.firstFrameOnly,
+      losslessRecommended: res.analysis.graphics && !isLosslessCodec(settings.format, settings.webpMode),
+      overCap: capped && res.blob.size > settings.maxSizeKB * 1024,
+    })
+    if (out) {
+      const target = path.join(out, output)
+      report.output = output
+      if (!dryRun) {
+        await mkdir(path.dirname(target), { recursive: true })
+        await writeFile(target, new Uint8Array(await res.blob.arrayBuffer()))
+      }
+    }
+  } catch (err: any) {
+    report.error = err?.message || String(err)
+  }
+  return report
+}
+
+function kb(bytes: number) {
+  return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+function printReport(reports: FileReport[], settings: ConvertSettings, dryRun: boolean) {
+  const width = Math.min(48, Math.max(...reports.map((r) => r.source.length)))
+  for (const r of reports) {
+    const name = r.source.length > width ? `…${r.source.slice(-(width - 1))}` : r.source.padEnd(width)
+    if (r.error) {
+      console.log(`✗ ${name}  ${r.error}`)
+      continue
+    }
+    const saved = r.originalBytes ? Math.round((1 - r.outputBytes! / r.originalBytes) * 100) : 0
+    const details = [
+      r.qualityPct !== null ? `q${r.qualityPct}` : "lossless",
+      r.scalePct !== 100 ? `${r.scalePct}%` : null,
+      `${r.width}×${r.height}`,
+      r.frames !== null ? `${r.frames} frames` : r.firstFrameOnly ? "first frame only" : null,
+      r.ssim !== null ? `SSIM ${r.ssim.toFixed(3)}` : null,
+      `${saved >= 0 ? "−" : "+"}${Math.abs(saved)}%`,
+    ].filter(Boolean)
+    const mark = r.overCap ? "!" : "✓"
+    const note = r.overCap ? `  over the ${settings.maxSizeKB} KB cap` : ""
+    console.log(
+      `${mark} ${name}  ${kb(r.originalBytes).padStart(11)} → ${kb(r.outputBytes!).padStart(11)}  ${details.join("  ")}${note}`,
+    )
+  }
+
+  const ok = reports.filter((r) => !r.error)
+  const before = ok.reduce((n, r) => n + r.originalBytes, 0)
+  const after = ok.reduce((n, r) => n + r.outputBytes!, 0)
+  const overCap = reports.filter((r) => r.overCap).length
+  const failed = reports.filter((r) => r.error).length
+  const graphics = reports.filter((r) => r.losslessRecommended).length
+  const saved = before ? Math.round((1 - after / before) * 100) : 0
+  console.log(
+    [
+      `\n${reports.length} file${reports.length === 1 ? "" : "s"}`,
+      `${kb(before)} → ${kb(after)} (${saved >= 0 ? "−" : "+"}${Math.abs(saved)}%)`,
+      overCap ? `${overCap} over cap` : null,
+      failed ? `${failed} failed` : null,
+      graphics
+        ? `${graphics} ${graphics === 1 ? "looks" : "look"} like flat graphics (try --format webp --webp lossless)`
+        : null,
+      dryRun ? "dry run, nothing written" : null,
+    ]
+      .filter(Boolean)
+      .join(" • "),
+  )
+}
+
+async function main(argv: string[]): Promise<number> {
+  let options: ReturnType<typeof parse>
+  try {
+    options = parse(argv)
+  } catch (err: any) {
+    console.error(`pixify: ${err?.message || err}\n\n${USAGE}`)
+    return 2
+  }
+  if (!options) {
+    console.log(USAGE)
+    return 0
+  }
+
+  const { inputs, settings, recursive, out, dryRun, json, concurrency } = options
+  let files: InputFile[]
+  try {
+    files = await expandInputs(inputs, recursive)
+  } catch (err: any) {
+    console.error(`pixify: ${err?.message || err}`)
+    return 2
+  }
+  if (!files.length) {
+    console.error("pixify: no image files matched")
+    return 2
+  }
+
+  // planned up front: files converted side by side must never write to the same output
+  const outputs = outputNames(files, OUTPUT_FORMATS[settings.format].extension)
+
+  // a small worker loop keeps report order stable while converting several files at once
+  const reports: FileReport[] = new Array(files.length)
+  let next = 0
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, files.length) }, async () => {
+      while (next < files.length) {
+        const i = next++
+        reports[i] = await convertFile(files[i], outputs[i], settings, out, dryRun)
+        if (!json) process.stderr.write(`\r${reports.filter(Boolean).length}/${files.length} converted`)
+      }
+    }),
+  )
+  if (!json) process.stderr.write("\r\x1b[K")
+
+  if (json) console.log(JSON.stringify({ settings, dryRun, files: reports }, null, 2))
+  else printReport(reports, settings, dryRun)
+
+  return reports.some((r) => r.error || r.overCap) ? 1 : 0
+}
+
+main(process.argv.slice(2)).then(
+  (code) => {
+    process.exitCode = code
+  },
+  (err) => {
+    console.error(err)
+    process.exitCode = 1
+  },
+)
@@ -0,0 +1,106 @@
+import sharp from "sharp"
+import type { EncoderBackend, PixelData } from "@/lib/engine"
+import { OUTPUT_FORMATS } from "@/lib/output-formats"
+import { clearTransparentPixels } from "@/lib/pixels"
+import { resample, sharpen } from "@/lib/resample"
+
+// Decoded images stay as raw RGBA so the searches can resize and re-encode without decoding again
+export type RawImage = { width: number; height: number; data: Buffer }
+
+function pipeline(img: RawImage) {
+  return sharp(img.data, { raw: { width: img.width, height: img.height, channels: 4 } })
+}
+
+function escapeMarkup(text: string) {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+}
+
+async function toRaw(s: sharp.Sharp): Promise<RawImage> {
+  const { data, info } = await s.ensureAlpha().raw().toBuffer({ resolveWithObject: true })
+  return { width: info.width, height: info.height, data }
+}
+
+function pixelsOf(img: RawImage): PixelData {
+  return {
+    width: img.width,
+    height: img.height,
+    data: new Uint8ClampedArray(img.data.buffer, img.data.byteOffset, img.data.byteLength),
+  }
+}
+
+function rawOf({ width, height, data }: PixelData): RawImage {
+  return { width, height, data: Buffer.from(data.buffer, data.byteOffset, data.byteLength) }
+}
+
+// Server-side backend for lib/engine.ts, used by the CLI. Mirrors the browser backend: EXIF orientation is
+// applied on decode (as createImageBitmap does) and JPEG output is flattened onto the background colour.
+export const sharpBackend: EncoderBackend<RawImage> = {
+  async decode(blob, opts) {
+    const s = sharp(Buffer.from(await blob.arrayBuffer())).rotate()
+    // sharp converts to sRGB unless the input profile is kept, which leaves the pixel values untouched
+    return toRaw(opts?.keepColorSpace ? s.keepIccProfile() : s)
+  },
+
+  // the engine's own resampler rather than sharp's kernels, so the CLI scales exactly like the browser
+  async resize(img, width, height, opts) {
+    const resampled = resample(pixelsOf(img), width, height, opts?.filter, opts?.crop)
+    return rawOf(opts?.sharpen ? sharpen(resampled, opts.sharpen) : resampled)
+  },
+
+  async orient(img, { rotate, flipH, flipV }) {
+    // sharp mirrors before it rotates, and a quarter turn trades a horizontal mirror for a vertical one
+    const quarter = rotate === 90 || rotate === 270
+    return toRaw(
+      pipeline(img)
+        .rotate(rotate)
+        .flop(quarter ? flipV : flipH)
+        .flip(quarter ? flipH : flipV),
+    )
+  },
+
+  async renderText(text, fontPx, color) {
+    // Pango markup; at 72 dpi a point is a pixel
+    const markup = `<span foreground="${color}">${escapeMarkup(text)}</span>`
+    return toRaw(sharp({ text: { text: markup, font: `sans bold ${fontPx}`, dpi: 72, rgba: true } }))
+  },
+
+  async composite(img, layer, { width, height, positions }, opacity) {
+    const sized = await toRaw(pipeline(layer).resize(width, height, { fit: "fill", kernel: "lanczos3" }))
+    if (opacity < 1) for (let i = 3; i < sized.data.length; i += 4) sized.data[i] = Math.round(sized.data[i] * opacity)
+    const raw = { width: sized.width, height: sized.height, channels: 4 as const }
+    return toRaw(pipeline(img).composite(positions.map(({ x, y }) => ({ input: sized.data, raw, left: x, top: y }))))
+  },
+
+  async encode(img, format, q, opts) {
+    const quality = Math.min(100, Math.max(1, Math.round(q * 100)))
+    let src = img
+    if (opts.alpha === "clean") {
+      // the searches encode the same image many times, so clean a copy
+      const data = Buffer.from(img.data)
+      if (clearTransparentPixels(data)) src = { ...img, data }
+    }
+    let s = pipeline(src)
+    if (opts.alpha === "flatten" || !OUTPUT_FORMATS[format].alpha) s = s.flatten({ background: opts.background })
+    const buf =
+      format === "webp"
+        ? await s
+            .webp(
+              opts.webpMode === "lossless"
+                ? { lossless: true }
+                : opts.webpMode === "near-lossless"
+                  ? { nearLossless: true, quality } // quality is the near-lossless preprocessing level here
+                  : { quality },
+            )
+            .toBuffer()
+        : format === "avif"
+          ? await s.avif({ quality }).toBuffer()
+          : format === "jpeg"
+            ? await s.jpeg({ quality, progressive: true, mozjpeg: true }).toBuffer()
+            : await s.png({ compressionLevel: 9, adaptiveFiltering: true }).toBuffer()
+    return new Blob([new Uint8Array(buf)], { type: OUTPUT_FORMATS[format].mime })
+  },
+
+  pixels: async (img) => pixelsOf(img),
+
+  fromPixels: async (pixels) => rawOf(pixels),
+}
@@ -0,0 +1,296 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type PointerEvent, type WheelEvent } from "react"
+import { Columns2, Scan, SquareSplitHorizontal, ZoomIn, ZoomOut } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { cn } from "@/lib/utils"
+
+export type CompareOutput = {
+  url: string
+  bytes: number
+  label: string
+  width: number
+  height: number
+  qualityPct?: number
+  scalePct?: number
+  ssim?: number
+  lossless: boolean
+  // the output was cropped to a different aspect ratio (cover), so the original is cropped the same way
+  cropped: boolean
+}
+
+type Props = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  name: string
+  originalUrl: string
+  originalBytes: number
+  output: CompareOutput
+}
+
+type CompareMode = "split" | "side"
+
+// zoom is in screen pixels per output pixel, so 1 is "100%" and the top end shows individual pixels
+type View = { zoom: number; x: number; y: number }
+
+const MIN_ZOOM = 0.05
+const MAX_ZOOM = 32
+
+function clampZoom(z: number) {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, z))
+}
+
+function kb(bytes: number) {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+// Full-screen before/after view: both images share one pan/zoom state so they always show the same region
+export function CompareViewer({ open, onOpenChange, name, originalUrl, originalBytes, output }: Props) {
+  const [mode, setMode] = useState<CompareMode>("split")
+  const [view, setView] = useState<View>({ zoom: 1, x: 0, y: 0 })
+  const [split, setSplit] = useState(50)
+  const [originalSize, setOriginalSize] = useState<{ w: number; h: number } | null>(null)
+  const paneRef = useRef<HTMLDivElement>(null)
+  const drag = useRef<{ kind: "pan" | "split"; x: number; y: number } | null>(null)
+
+  const fit = useCallback(() => {
+    const pane = paneRef.current
+    if (!pane) return
+    const { width, height } = pane.getBoundingClientRect()
+    const zoom = clampZoom(Math.min(width / output.width, height / output.height, 1))
+    setView({ zoom, x: (width - output.width * zoom) / 2, y: (height - output.height * zoom) / 2 })
+  }, [output.width, output.height])
+
+  // zoom around a point in pane coordinates (defaults to the pane centre)
+  const zoomTo = useCallback((next: number | ((z: number) => number), at?: { x: number; y: number }) => {
+    const pane = paneRef.current
+    if (!pane) return
+    const rect = pane.getBoundingClientRect()
+    const cx = at?.x ?? rect.width / 2
+    const cy = at?.y ?? rect.height / 2
+    setView((v) => {
+      const zoom = clampZoom(typeof next === "function" ? next(v.zoom) : next)
+      const k = zoom / v.zoom
+      return { zoom, x: cx - (cx - v.x) * k, y: cy - (cy - v.y) * k }
+    })
+  }, [])
+
+  // the pane only has a size once the dialog content is mounted and laid out
+  useEffect(() => {
+    if (!open) return
+    const id = requestAnimationFrame(fit)
+    return () => cancelAnimationFrame(id)
+  }, [open, mode, fit])
+
+  useEffect(() => {
+    if (!open) return
+    const onKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return
+      if (e.key === "+" || e.key === "=") zoomTo((z) => z * 1.5)
+      else if (e.key === "-") zoomTo((z) => z / 1.5)
+      else if (e.key === "0") fit()
+      else if (e.key === "1") zoomTo(1)
+      else if (e.key === "s") setMode((m) => (m === "split" ? "side" : "split"))
+    }
+    window.addEventListener("keydown", onKey)
+    return () => window.removeEventListener("keydown", onKey)
+  }, [open, fit, zoomTo])
+
+  const onWheel = (e: WheelEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect()
+    zoomTo((z) => z * Math.exp(-e.deltaY * 0.0015), { x: e.clientX - rect.left, y: e.clientY - rect.top })
+  }
+
+  const onPointerDown = (e: PointerEvent<HTMLDivElement>, kind: "pan" | "split") => {
+    e.currentTarget.setPointerCapture(e.pointerId)
+    drag.current = { kind, x: e.clientX, y: e.clientY }
+  }
+
+  const onPointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const d = drag.current
+    if (d?.kind !== "pan") return
+    const dx = e.clientX - d.x
+    const dy = e.clientY - d.y
+    drag.current = { ...d, x: e.clientX, y: e.clientY }
+    setView((v) => ({ ...v, x: v.x + dx, y: v.y + dy }))
+  }
+
+  const onPointerUp = () => {
+    drag.current = null
+  }
+
+  // past 2× the browser's smoothing hides exactly the artifacts we want to inspect
+  const pixelated = view.zoom >= 2
+  const layer = (url: string, alt: string, original: boolean) => (
+    <img
+      src={url}
+      alt={alt}
+      draggable={false}
+      onLoad={
+        original
+          ? (e) => setOriginalSize({ w: e.currentTarget.naturalWidth, h: e.currentTarget.naturalHeight })
+          : undefined
+      }
+      className={cn(
+        "absolute left-0 top-0 max-w-none select-none",
+        original && output.cropped ? "object-cover" : "object-fill",
+      )}
+      style={{
+        width: output.width,
+        height: output.height,
+        transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+        transformOrigin: "0 0",
+        imageRendering: pixelated ? "pixelated" : "auto",
+      }}
+    />
+  )
+
+  const savedPct = originalBytes > 0 ? Math.round((1 - output.bytes / originalBytes) * 100) : 0
+  const originalStats = [kb(originalBytes), originalSize ? `${originalSize.w}×${originalSize.h}px` : null]
+  const outputStats = [
+    kb(output.bytes),
+    output.lossless ? "Lossless" : typeof output.qualityPct === "number" ? `Quality ${output.qualityPct}%` : null,
+    typeof output.ssim === "number" ? `SSIM ${output.ssim.toFixed(3)}` : null,
+    typeof output.scalePct === "number" && output.scalePct !== 100 ? `Scale ${output.scalePct}%` : null,
+    `${output.width}×${output.height}px`,
+    savedPct > 0 ? `−${savedPct}%` : savedPct < 0 ? `+${-savedPct}%` : null,
+  ]
+
+  const badge = (title: string, stats: (string | null)[], className?: string) => (
+    <div
+      className={cn(
+        "pointer-events-none absolute top-3 rounded-md bg-black/65 px-2 py-1 text-[11px] tabular-nums text-white backdrop-blur",
+        className,
+      )}
+    >
+      <span className="font-medium">{title}</span> {stats.filter(Boolean).join(" • ")}
+    </div>
+  )
+
+  const paneProps = {
+    onWheel,
+    onPointerDown: (e: PointerEvent<HTMLDivElement>) => onPointerDown(e, "pan"),
+    onPointerMove,
+    onPointerUp,
+    onPointerCancel: onPointerUp,
+    onDoubleClick: fit,
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex h-[calc(100dvh-2rem)] max-w-[calc(100vw-2rem)] flex-col gap-3 p-3 sm:max-w-[calc(100vw-2rem)]">
+        <div className="flex flex-wrap items-center gap-2 pr-8">
+          <div className="min-w-0 flex-1">
+            <DialogTitle className="truncate text-sm">{name}</DialogTitle>
+            <DialogDescription className="text-xs">
+              Scroll to zoom, drag to pan, double-click to fit. Keys: + − 0 1, S switches the layout.
+            </DialogDescription>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant={mode === "split" ? "secondary" : "ghost"}
+              aria-pressed={mode === "split"}
+              onClick={() => setMode("split")}
+              className="inline-flex items-center gap-2"
+            >
+              <SquareSplitHorizontal className="h-4 w-4" aria-hidden />
+              Slider
+            </Button>
+            <Button
+              size="sm"
+              variant={mode === "side" ? "secondary" : "ghost"}
+              aria-pressed={mode === "side"}
+              onClick={() => setMode("side")}
+              className="inline-flex items-center gap-2"
+            >
+              <Columns2 className="h-4 w-4" aria-hidden />
+              Side by side
+            </Button>
+          </div>
+          <div className="flex items-center gap-1">
+            <Button size="icon" variant="ghost" aria-label="Zoom out" onClick={() => zoomTo((z) => z / 1.5)}>
+              <ZoomOut className="h-4 w-4" aria-hidden />
+            </Button>
+            <span className="w-14 text-center text-xs tabular-nums text-muted-foreground">
+              {Math.round(view.zoom * 100)}%
+            </span>
+            <Button size="icon" variant="ghost" aria-label="Zoom in" onClick={() => zoomTo((z) => z * 1.5)}>
+              <ZoomIn className="h-4 w-4" aria-hidden />
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => zoomTo(1)}>
+              1:1
+            </Button>
+            <Button size="sm" variant="ghost" onClick={fit} className="inline-flex items-center gap-2">
+              <Scan className="h-4 w-4" aria-hidden />
+              Fit
+            </Button>
+          </div>
+        </div>
+
+        {mode === "split" ? (
+          <div
+            ref={paneRef}
+            className="relative min-h-0 flex-1 cursor-grab touch-none overflow-hidden rounded-md bg-muted/40 active:cursor-grabbing"
+            {...paneProps}
+          >
+            {layer(originalUrl, "Original", true)}
+            <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${split}%)` }}>
+              {layer(output.url, output.label, false)}
+            </div>
+            {badge("Original", originalStats, "left-3")}
+            {badge(output.label, outputStats, "right-3")}
+            <div
+              role="slider"
+              aria-label="Split position"
+              aria-valuemin={0}
+              aria-valuemax={100}
+              aria-valuenow={Math.round(split)}
+              tabIndex={0}
+              onKeyDown={(e) => {
+                if (e.key === "ArrowLeft") setSplit((s) => Math.max(0, s - 2))
+                if (e.key === "ArrowRight") setSplit((s) => Math.min(100, s + 2))
+              }}
+              onPointerDown={(e) => {
+                e.stopPropagation()
+                onPointerDown(e, "split")
+              }}
+              onPointerMove={(e) => {
+                e.stopPropagation()
+                const d = drag.current
+                if (d?.kind !== "split") return
+                const rect = paneRef.current?.getBoundingClientRect()
+                if (rect) setSplit(Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)))
+              }}
+              onPointerUp={onPointerUp}
+              onDoubleClick={(e) => e.stopPropagation()}
+              className="absolute inset-y-0 z-10 flex w-6 -translate-x-1/2 cursor-ew-resize justify-center focus:outline-none focus-visible:[&>span]:ring-2 focus-visible:[&>span]:ring-ring"
+              style={{ left: `${split}%` }}
+            >
+              <span className="h-full w-0.5 bg-white shadow-[0_0_0_1px_rgba(0,0,0,0.35)]" />
+            </div>
+          </div>
+        ) : (
+          <div className="grid min-h-0 flex-1 grid-cols-2 gap-2">
+            <div
+              ref={paneRef}
+              className="relative cursor-grab touch-none overflow-hidden rounded-md bg-muted/40 active:cursor-grabbing"
+              {...paneProps}
+            >
+              {layer(originalUrl, "Original", true)}
+              {badge("Original", originalStats, "left-3")}
+            </div>
+            <div
+              className="relative cursor-grab touch-none overflow-hidden rounded-md bg-muted/40 active:cursor-grabbing"
+              {...paneProps}
+            >
+              {layer(output.url, output.label, false)}
+              {badge(output.label, outputStats, "left-3")}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -4,55 +4,262 @@ import type React from "react"
 
 import { useCallback, useEffect, useMemo, useRef, useState } from "react"
 import { motion } from "framer-motion"
-import { Upload, Download, ImageIcon, CheckCircle2, Trash2, Settings } from "lucide-react"
+import {
+  Upload,
+  Download,
+  ImageIcon,
+  CheckCircle2,
+  Trash2,
+  Settings,
+  AlertTriangle,
+  X,
+  FileArchive,
+  Pause,
+  Play,
+  Square,
+  SlidersHorizontal,
+  RotateCcw,
+  GitCompare,
+  History,
+  Link2,
+  Crop,
+} from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
 import { cn } from "@/lib/utils"
+import {
+  INPUT_ACCEPT,
+  INPUT_FORMAT_LABEL,
+  baseName,
+  checkInputFile,
+  prepareSource,
+  type InputKind,
+} from "@/lib/image-input"
+import { OUTPUT_FORMATS, isLosslessCodec, isLossy, type OutputFormat } from "@/lib/output-formats"
+import {
+  DEFAULT_SETTINGS,
+  sameSettings,
+  type ConvertDiagnostics,
+  type ConvertProgress,
+  type ConvertSettings,
+  type SourceAnalysis,
+} from "@/lib/engine"
+import { ConverterPool, defaultPoolSize } from "@/lib/worker-pool"
+import { ConversionQueue, estimateRemainingMs, isAbortError, type QueueSnapshot } from "@/lib/conversion-queue"
+import { DEFAULT_RESPONSIVE, buildSnippet, variantName, type ResponsiveSettings, type Variant } from "@/lib/responsive"
+import { createZip, downloadBlob, uniqueNames, type ZipEntry } from "@/lib/zip"
+import {
+  droppedFiles,
+  fetchImage,
+  fromFileList,
+  parseImportUrl,
+  pastedFiles,
+  type SourceFile,
+} from "@/lib/input-sources"
+import { savedPct, targetMet, type ReportRow } from "@/lib/report"
+import { hasEdits, sameEdits, type ImageEdits } from "@/lib/edits"
+import type { AnimationInfo } from "@/lib/animation"
+import { addHistory, loadHistoryQuota, saveHistoryQuota, type HistoryEntry, type HistoryFile } from "@/lib/history"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Slider } from "@/components/ui/slider"
 import { Switch } from "@/components/ui/switch"
+import { Progress } from "@/components/ui/progress"
+import { SettingsFields } from "@/components/settings-fields"
+import { ResponsiveFields } from "@/components/responsive-fields"
+import { OverlayFields } from "@/components/overlay-fields"
+import { VariantList } from "@/components/variant-list"
+import { SearchDiagnostics } from "@/components/search-diagnostics"
+import { PresetBar } from "@/components/preset-bar"
+import { CompareViewer } from "@/components/compare-viewer"
+import { HistoryDrawer } from "@/components/history-drawer"
+import { SavingsReport } from "@/components/savings-report"
+import { OutputActions } from "@/components/output-actions"
+import { ImageEditor, editedPreview } from "@/components/image-editor"
 
 type Item = {
   id: string
   file: File
   name: string
   size: number
+  kind: InputKind
   previewUrl: string
-  webpUrl?: string
-  webpSize?: number
+  // rotate / flip / crop from the editor, and a rendering of it for the thumbnail and compare view
+  edits?: ImageEdits
+  editedUrl?: string
+  usedEdits?: ImageEdits
+  outputUrl?: string
+  outputBlob?: Blob
+  outputSize?: number
+  outputFormat?: OutputFormat
+  outputWidth?: number
+  outputHeight?: number
+  // settings that produced the current output (toolbar values merged with any overrides)
+  usedSettings?: ConvertSettings
+  // responsive set outputs (one per width × format) and the markup referencing them
+  variants?: Variant[]
+  snippet?: string
+  usedResponsive?: ResponsiveSettings
   usedQualityPct?: number
   usedScalePct?: number
-  status: "idle" | "converting" | "done" | "error"
+  // SSIM achieved in "visual" mode
+  usedSsim?: number
+  analysis?: SourceAnalysis
+  // animated WEBP output, or an animated source that the output format flattened to its first frame
+  animation?: AnimationInfo
+  firstFrameOnly?: boolean
+  // how the search for the current output went (single outputs only)
+  diagnostics?: ConvertDiagnostics
+  // per-item settings that take precedence over the toolbar
+  overrides?: Partial<ConvertSettings>
+  status: "idle" | "queued" | "converting" | "done" | "error"
+  progress?: ConvertProgress
+  // position in a multi-output job such as a responsive set
+  step?: { index: number; total: number }
   error?: string
 }
 
+type Rejected = {
+  name: string
+  reason: string
+}
+
+function formatDuration(ms: number) {
+  const total = Math.max(0, Math.round(ms / 1000))
+  const m = Math.floor(total / 60)
+  const sec = total % 60
+  return m ? `${m}m ${sec.toString().padStart(2, "0")}s` : `${sec}s`
+}
+
+function effectiveSettings(item: Item, global: ConvertSettings): ConvertSettings {
+  return item.overrides ? { ...global, ...item.overrides } : global
+}
+
+// Only the fields that differ from the toolbar, so later toolbar changes still apply to the rest
+function overridesFor(target: Partial<ConvertSettings>, global: ConvertSettings) {
+  const overrides = Object.fromEntries(
+    Object.entries(target).filter(([k, v]) => global[k as keyof ConvertSettings] !== v),
+  ) as Partial<ConvertSettings>
+  return Object.keys(overrides).length ? overrides : undefined
+}
+
+// one file in the Download All archive, with the details written to manifest.json
+type ZipFile = {
+  item: Item
+  name: string
+  blob: Blob
+  format: OutputFormat
+  width: number | null
+  height: number | null
+  qualityPct: number | null
+  scalePct: number | null
+  ssim: number | null
+}
+
+function revokeOutputs(item: Item) {
+  if (item.outputUrl) URL.revokeObjectURL(item.outputUrl)
+  item.variants?.forEach((v) => URL.revokeObjectURL(v.url))
+}
+
+function revokeItem(item: Item) {
+  URL.revokeObjectURL(item.previewUrl)
+  if (item.editedUrl) URL.revokeObjectURL(item.editedUrl)
+  revokeOutputs(item)
+}
+
+function outputName(item: Item) {
+  return `${baseName(item.name)}.${OUTPUT_FORMATS[item.outputFormat ?? "webp"].extension}`
+}
+
+// Name of the file shown on the card: a responsive set's main variant, or the single output
+function mainOutputName(item: Item) {
+  return item.variants?.find((v) => v.blob === item.outputBlob)?.name ?? outputName(item)
+}
+
+function reportRow(item: Item): ReportRow {
+  const format = item.outputFormat ?? "webp"
+  const outputBytes = item.outputBlob?.size ?? 0
+  const ssim = item.usedSsim ?? null
+  return {
+    source: item.name,
+    output: mainOutputName(item),
+    format,
+    originalBytes: item.size,
+    outputBytes,
+    width: item.outputWidth ?? null,
+    height: item.outputHeight ?? null,
+    qualityPct: isLossy(format, item.usedSettings?.webpMode) ? (item.usedQualityPct ?? null) : null,
+    scalePct: item.usedScalePct ?? null,
+    ssim,
+    // responsive sets resize every variant to a fixed width, so the size/SSIM target isn't the point there
+    targetMet: item.usedSettings && !item.variants ? targetMet(item.usedSettings, outputBytes, ssim) : null,
+    variants: item.variants?.length ?? 1,
+  }
+}
+
 export function Converter() {
   const inputRef = useRef<HTMLInputElement | null>(null)
+  const poolRef = useRef<ConverterPool | null>(null)
+  const [queue] = useState(() => new ConversionQueue(defaultPoolSize()))
+  const [queueState, setQueueState] = useState<QueueSnapshot>(() => queue.snapshot())
+  const [now, setNow] = useState(() => Date.now())
   const [items, setItems] = useState<Item[]>([])
   const [isDragging, setIsDragging] = useState(false)
+  const [importValue, setImportValue] = useState("")
+  const [importing, setImporting] = useState(false)
   const [quality, setQuality] = useState<number>(0.9)
-  const [selectedFormat, setSelectedFormat] = useState<string>("webp")
-  const [mode, setMode] = useState<"auto" | "quality" | "size" | "both">("auto")
-  const [qualityPct, setQualityPct] = useState<number>(90) // 0-100
-  const [maxSizeKB, setMaxSizeKB] = useState<number>(300)
-  const [allowUpscale, setAllowUpscale] = useState<boolean>(true) // default 'Aim near cap' ON
+  const [settings, setSettings] = useState<ConvertSettings>(DEFAULT_SETTINGS)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [croppingId, setCroppingId] = useState<string | null>(null)
+  const [comparingId, setComparingId] = useState<string | null>(null)
+  const [responsive, setResponsive] = useState<ResponsiveSettings>(DEFAULT_RESPONSIVE)
+  const [svgRenderSize, setSvgRenderSize] = useState<number>(1024) // longest edge in px for rasterised SVGs
+  const [rejected, setRejected] = useState<Rejected[]>([])
+  const [includeManifest, setIncludeManifest] = useState<boolean>(false)
+  const [isZipping, setIsZipping] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [historyQuota, setHistoryQuota] = useState(0)
+  const [historyRevision, setHistoryRevision] = useState(0)
 
+  const comparing = comparingId ? items.find((i) => i.id === comparingId) : undefined
+  const cropping = croppingId ? items.find((i) => i.id === croppingId) : undefined
   const totalConverted = useMemo(() => items.filter((i) => i.status === "done").length, [items])
+  const reportRows = useMemo(() => items.filter((i) => i.status === "done" && i.outputBlob).map(reportRow), [items])
+  const batchBusy = queueState.queued + queueState.running > 0
+  const batchFinished = queueState.completed + queueState.failed + queueState.cancelled
+  const etaMs = estimateRemainingMs(queueState, now)
+
+  useEffect(() => queue.subscribe(setQueueState), [queue])
+
+  // localStorage is only available after hydration
+  useEffect(() => setHistoryQuota(loadHistoryQuota()), [])
 
-  const onFiles = useCallback((files: FileList | null) => {
-    if (!files) return
+  // tick once a second while a batch runs so the ETA counts down smoothly
+  useEffect(() => {
+    if (!batchBusy) return
+    const t = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(t)
+  }, [batchBusy])
+
+  // Every input path (picker, drop, paste, URL) ends up here
+  const addSources = useCallback((sources: SourceFile[]) => {
     const list: Item[] = []
-    Array.from(files).forEach((f) => {
-      if (f.type !== "image/png") return
-      const id = `${f.name}-${f.size}-${crypto.randomUUID()}`
+    const skipped: Rejected[] = []
+    sources.forEach(({ file: f, name }) => {
+      const check = checkInputFile(f)
+      if (!check.ok) {
+        skipped.push({ name, reason: check.reason })
+        return
+      }
+      const id = `${name}-${f.size}-${crypto.randomUUID()}`
       const previewUrl = URL.createObjectURL(f)
       list.push({
         id,
         file: f,
-        name: f.name,
+        name,
         size: f.size,
+        kind: check.kind,
         previewUrl,
         status: "idle",
       })
@@ -60,336 +267,496 @@ export function Converter() {
     if (list.length) {
       setItems((prev) => [...prev, ...list])
     }
+    setRejected(skipped)
   }, [])
 
+  const onFiles = useCallback(
+    (files: FileList | null) => {
+      if (files) addSources(fromFileList(files))
+    },
+    [addSources],
+  )
+
   const onDrop = useCallback(
     (e: React.DragEvent<HTMLLabelElement>) => {
       e.preventDefault()
       setIsDragging(false)
-      onFiles(e.dataTransfer.files)
-    },
-    [onFiles],
-  )
-
-  const webpAtQuality = useCallback(
-    (canvas: HTMLCanvasElement, q: number) =>
-      new Promise<Blob | null>((resolve) => canvas.toBlob((b) => resolve(b), "image/webp", q)),
-    [],
-  )
-
-  // Binary search quality for a target size on a given canvas
-  const findQualityForTargetKB = useCallback(
-    async (
-      canvas: HTMLCanvasElement,
-      targetKB: number,
-      minQ = 0.01,
-      maxQ = 0.999,
-      iterations = 12,
-    ): Promise<{ blob: Blob; q: number } | null> => {
-      let low = minQ
-      let high = maxQ
-      let best: { blob: Blob; q: number } | null = null
-
-      for (let i = 0; i < iterations; i++) {
-        const mid = (low + high) / 2
-        const blob = await webpAtQuality(canvas, mid)
-        if (!blob) break
-        const kb = blob.size / 1024
-
-        if (kb <= targetKB) {
-          best = { blob, q: mid }
-          // try higher quality while staying under target
-          low = Math.min(0.999, mid + 0.02)
-        } else {
-          high = Math.max(minQ, mid - 0.02)
-        }
-
-        if (Math.abs(low - high) < 0.005) break
-      }
-      return best
-    },
-    [webpAtQuality],
-  )
-
-  // Helper to upscale while keeping a fixed quality and staying under a target size (maximize scale under cap)
-  const upscaleToTargetWithFixedQuality = useCallback(
-    async (
-      srcCanvas: HTMLCanvasElement,
-      targetKB: number,
-      fixedQ01: number,
-      maxScale = 6, // was 2.5; increase so we can approach the cap when enabled
-    ): Promise<{ blob: Blob; q: number; scale: number } | null> => {
-      const tolKB = 2
-      let low = 1
-      let high = maxScale
-      let best: { blob: Blob; q: number; scale: number } | null = null
-
-      for (let i = 0; i < 12; i++) {
-        // a few more iterations for precision
-        const mid = (low + high) / 2
-        const w = Math.max(1, Math.floor(srcCanvas.width * mid))
-        const h = Math.max(1, Math.floor(srcCanvas.height * mid))
-        const scaled = document.createElement("canvas")
-        scaled.width = w
-        scaled.height = h
-        const sctx = scaled.getContext("2d")
-        if (!sctx) break
-        sctx.imageSmoothingEnabled = true
-        sctx.imageSmoothingQuality = "high"
-        sctx.drawImage(srcCanvas, 0, 0, w, h)
-
-        const blob = await webpAtQuality(scaled, fixedQ01)
-        if (!blob) break
-        const kb = blob.size / 1024
-
-        if (kb <= targetKB) {
-          best = { blob, q: fixedQ01, scale: mid }
-          if (Math.abs(targetKB - kb) <= tolKB) break
-          low = Math.min(maxScale, mid + 0.05)
-        } else {
-          high = Math.max(1, mid - 0.05)
-        }
-        if (high - low < 0.02) break
-      }
-      return best
+      droppedFiles(e.dataTransfer)
+        .then(addSources)
+        .catch((err: any) => setRejected([{ name: "Dropped folder", reason: err?.message || "Could not be read" }]))
     },
-    [webpAtQuality],
+    [addSources],
   )
 
-  // Try to hit target size: first with quality, then progressively downscale if needed
-  const convertToTargetSize = useCallback(
-    async (
-      srcCanvas: HTMLCanvasElement,
-      targetKB: number,
-      allowUp: boolean,
-    ): Promise<{ blob: Blob; q: number; scale: number }> => {
-      const tolKB = 2
-      const direct = await findQualityForTargetKB(srcCanvas, targetKB)
-      if (direct) {
-        const underBy = targetKB - direct.blob.size / 1024
-        if (allowUp && underBy > tolKB && direct.q >= 0.95) {
-          const up = await upscaleToTargetWithFixedQuality(
-            srcCanvas,
-            targetKB,
-            Math.min(0.999, Math.max(0.95, direct.q)),
-          )
-          if (up) return up
-        }
-        return { blob: direct.blob, q: direct.q, scale: 1 }
-      }
-
-      // 2) Downscale loop if quality-only can't meet target
-      let bestOverall: { blob: Blob; q: number; scale: number } | null = null
-      const scales = [
-        0.95, 0.9, 0.85, 0.8, 0.75, 0.7, 0.65, 0.6, 0.55, 0.5, 0.45, 0.4, 0.35, 0.3, 0.25, 0.2, 0.15, 0.12, 0.1,
-      ]
-      for (const s of scales) {
-        const scaled = document.createElement("canvas")
-        const sw = Math.max(1, Math.floor(srcCanvas.width * s))
-        const sh = Math.max(1, Math.floor(srcCanvas.height * s))
-        scaled.width = sw
-        scaled.height = sh
-        const sctx = scaled.getContext("2d")
-        if (!sctx) continue
-        sctx.drawImage(srcCanvas, 0, 0, sw, sh)
-
-        // try to meet the cap at this scale using highest possible quality
-        const attempt = await findQualityForTargetKB(scaled, targetKB)
-        if (attempt) return { blob: attempt.blob, q: attempt.q, scale: s }
-
-        // track the smallest we can achieve as a graceful fallback
-        const fallbackQ = 0.35
-        const fbBlob = await webpAtQuality(scaled, fallbackQ)
-        if (fbBlob) {
-          if (!bestOverall || fbBlob.size < bestOverall.blob.size) {
-            bestOverall = { blob: fbBlob, q: fallbackQ, scale: s }
-          }
-        }
-      }
-
-      if (bestOverall) return bestOverall
-
-      // 3) Last resort: original canvas at a modest quality
-      const last = await webpAtQuality(srcCanvas, 0.35)
-      if (!last) throw new Error("Failed to create WEBP")
-      return { blob: last, q: 0.35, scale: 1 }
-    },
-    [findQualityForTargetKB, upscaleToTargetWithFixedQuality, webpAtQuality],
-  )
+  // Paste anywhere on the page, except into text fields where paste means text
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null
+      if (target?.closest("input, textarea, [contenteditable='true']") || !e.clipboardData) return
+      const sources = pastedFiles(e.clipboardData)
+      if (!sources.length) return
+      e.preventDefault()
+      addSources(sources)
+    }
+    window.addEventListener("paste", onPaste)
+    return () => window.removeEventListener("paste", onPaste)
+  }, [addSources])
 
-  // Helper: fit to size while keeping a fixed quality (scale only, binary search on scale)
-  const fitToSizeWithFixedQuality = useCallback(
-    async (
-      srcCanvas: HTMLCanvasElement,
-      targetKB: number,
-      fixedQ01: number,
-      allowUp: boolean,
-    ): Promise<{ blob: Blob; q: number; scale: number }> => {
-      const first = await webpAtQuality(srcCanvas, fixedQ01)
-      if (!first) throw new Error("Failed to create WEBP")
-
-      if (first.size / 1024 <= targetKB) {
-        if (allowUp) {
-          const up = await upscaleToTargetWithFixedQuality(srcCanvas, targetKB, fixedQ01)
-          if (up) return up
-        }
-        return { blob: first, q: fixedQ01, scale: 1 }
+  const importUrl = useCallback(
+    async (value: string) => {
+      const url = parseImportUrl(value)
+      if (!url) {
+        setRejected([{ name: value.trim() || "URL", reason: "Enter an http:// or https:// address" }])
+        return false
       }
-
-      // Binary search scale between [minScale, 1] to meet target size using fixed quality
-      let low = 0.1
-      let high = 1
-      let best: { blob: Blob; q: number; scale: number } | null = null
-      for (let i = 0; i < 8; i++) {
-        const mid = (low + high) / 2
-        const w = Math.max(1, Math.floor(srcCanvas.width * mid))
-        const h = Math.max(1, Math.floor(srcCanvas.height * mid))
-        const scaled = document.createElement("canvas")
-        scaled.width = w
-        scaled.height = h
-        const sctx = scaled.getContext("2d")
-        if (!sctx) break
-        sctx.drawImage(srcCanvas, 0, 0, w, h)
-        const blob = await webpAtQuality(scaled, fixedQ01)
-        if (!blob) break
-        const kb = blob.size / 1024
-        if (kb <= targetKB) {
-          best = { blob, q: fixedQ01, scale: mid }
-          // try larger (higher) scale while staying under cap
-          low = Math.min(0.999, mid + 0.05)
-        } else {
-          // need to scale down further
-          high = Math.max(0.1, mid - 0.05)
-        }
-        if (Math.abs(high - low) < 0.02) break
-      }
-
-      if (best) return best
-
-      // Fallback: smallest we can produce with this fixed quality using a coarse scale sweep
-      let fallback: { blob: Blob; q: number; scale: number } | null = null
-      for (const s of [0.25, 0.2, 0.15, 0.12, 0.1]) {
-        const w = Math.max(1, Math.floor(srcCanvas.width * s))
-        const h = Math.max(1, Math.floor(srcCanvas.height * s))
-        const scaled = document.createElement("canvas")
-        scaled.width = w
-        scaled.height = h
-        const sctx = scaled.getContext("2d")
-        if (!sctx) continue
-        sctx.drawImage(srcCanvas, 0, 0, w, h)
-        const blob = await webpAtQuality(scaled, fixedQ01)
-        if (blob && (!fallback || blob.size < fallback.blob.size)) {
-          fallback = { blob, q: fixedQ01, scale: s }
-        }
+      setImporting(true)
+      try {
+        addSources([await fetchImage(url)])
+        return true
+      } catch (err: any) {
+        setRejected([{ name: url.href, reason: err?.message || "Download failed" }])
+        return false
+      } finally {
+        setImporting(false)
       }
-      if (fallback) return fallback
-
-      // Last resort: return the original attempt (will exceed target)
-      return { blob: first, q: fixedQ01, scale: 1 }
     },
-    [webpAtQuality, upscaleToTargetWithFixedQuality],
+    [addSources],
   )
 
   const clearAll = useCallback(() => {
+    queue.cancelAll()
     setItems((prev) => {
-      prev.forEach((i) => {
-        URL.revokeObjectURL(i.previewUrl)
-        if (i.webpUrl) URL.revokeObjectURL(i.webpUrl)
-      })
+      prev.forEach(revokeItem)
       return []
     })
     if (inputRef.current) {
       inputRef.current.value = ""
     }
-  }, [setItems])
+  }, [queue, setItems])
 
-  const convertOne = useCallback(
-    async (item: Item) => {
+  const getPool = useCallback(() => {
+    if (!poolRef.current) poolRef.current = new ConverterPool()
+    return poolRef.current
+  }, [])
+
+  // Best effort: a full or unavailable IndexedDB must not turn a finished conversion into an error
+  const recordHistory = useCallback(
+    (
+      item: Item,
+      settings: ConvertSettings,
+      files: HistoryFile[],
+      stats: Pick<HistoryEntry, "qualityPct" | "scalePct" | "ssim">,
+    ) => {
+      if (historyQuota <= 0) return
+      const entry: HistoryEntry = {
+        id: crypto.randomUUID(),
+        createdAt: Date.now(),
+        sourceName: item.name,
+        source: item.file,
+        settings,
+        edits: item.edits,
+        files,
+        ...stats,
+      }
+      addHistory(entry, historyQuota).then(
+        () => setHistoryRevision((r) => r + 1),
+        () => {},
+      )
+    },
+    [historyQuota],
+  )
+
+  const runItem = useCallback(
+    async (item: Item, settings: ConvertSettings, responsive: ResponsiveSettings, signal: AbortSignal) => {
       try {
-        setItems((prev) => prev.map((p) => (p.id === item.id ? { ...p, status: "converting", error: undefined } : p)))
-        const img = await loadImage(item.previewUrl)
-        const canvas = document.createElement("canvas")
-        const ctx = canvas.getContext("2d")
-        if (!ctx) throw new Error("Unable to get canvas context")
-        canvas.width = img.naturalWidth
-        canvas.height = img.naturalHeight
-        ctx.drawImage(img, 0, 0)
-
-        let chosenQ = 0.9
-        let chosenScale = 1
-        let blob: Blob | null = null
-
-        if (mode === "auto") {
-          chosenQ = 0.9
-          blob = await webpAtQuality(canvas, chosenQ)
-        } else if (mode === "quality") {
-          chosenQ = Math.min(Math.max(qualityPct / 100, 0.01), 1)
-          blob = await webpAtQuality(canvas, chosenQ)
-        } else if (mode === "both") {
-          const target = Math.max(1, maxSizeKB)
-          chosenQ = Math.min(Math.max(qualityPct / 100, 0.01), 1)
-          const res = await fitToSizeWithFixedQuality(canvas, target, chosenQ, true /* force upscale to approach cap */)
-          blob = res.blob
-          chosenScale = res.scale
-        } else {
-          // mode === "size"
-          const target = Math.max(1, maxSizeKB)
-          const res = await convertToTargetSize(canvas, target, allowUpscale)
-          blob = res.blob
-          chosenQ = res.q
-          chosenScale = res.scale
+        setItems((prev) =>
+          prev.map((p) =>
+            p.id === item.id
+              ? { ...p, status: "converting", error: undefined, progress: undefined, step: undefined }
+              : p,
+          ),
+        )
+        const typeLabel = item.file.type ? item.file.type.replace("image/", "").toUpperCase() : "this file"
+        const onProgress = (progress: ConvertProgress) =>
+          setItems((prev) => prev.map((p) => (p.id === item.id ? { ...p, progress } : p)))
+
+        if (responsive.enabled) {
+          const base = baseName(item.name)
+          const variants: Variant[] = []
+          let analysis: SourceAnalysis | undefined
+          const total = responsive.formats.length * responsive.widths.length
+          let step = 0
+          try {
+            for (const format of responsive.formats) {
+              for (const width of responsive.widths) {
+                step++
+                setItems((prev) => prev.map((p) => (p.id === item.id ? { ...p, step: { index: step, total } } : p)))
+                const source = await prepareSource(item.file, item.kind, svgRenderSize)
+                const res = await getPool().run(
+                  {
+                    id: `${item.id}:${format}:${width}`,
+                    source,
+                    typeLabel,
+                    settings: {
+                      ...settings,
+                      format,
+                      resize: "exact",
+                      resizeWidth: width,
+                      resizeHeight: 0,
+                      resizeFit: "contain",
+                      noUpscale: true,
+                    },
+                    edits: item.edits,
+                  },
+                  onProgress,
+                  signal,
+                )
+                analysis ??= res.analysis
+                const name = variantName(base, res.width, format)
+                if (!variants.some((v) => v.name === name)) {
+                  variants.push({
+                    width: res.width,
+                    height: res.height,
+                    format,
+                    name,
+                    blob: res.blob,
+                    url: URL.createObjectURL(res.blob),
+                  })
+                }
+                // capped by the source width (not by the size search): larger widths would only repeat this one
+                if (res.width < width && res.scale >= 0.999) {
+                  step += responsive.widths.length - responsive.widths.indexOf(width) - 1
+                  break
+                }
+              }
+            }
+          } catch (err) {
+            variants.forEach((v) => URL.revokeObjectURL(v.url))
+            throw err
+          }
+
+          const snippet = buildSnippet(variants, {
+            sizes: responsive.sizes,
+            pathPrefix: responsive.pathPrefix,
+            alt: base,
+          })
+          // the card's main output is the largest variant of the first format
+          const main =
+            variants.filter((v) => v.format === responsive.formats[0]).at(-1) ?? variants[variants.length - 1]
+          setItems((prev) =>
+            prev.map((p) => {
+              if (p.id !== item.id) return p
+              revokeOutputs(p)
+              return {
+                ...p,
+                outputUrl: main.url,
+                outputBlob: main.blob,
+                outputSize: main.blob.size,
+                outputFormat: main.format,
+                outputWidth: main.width,
+                outputHeight: main.height,
+                usedSettings: settings,
+                usedEdits: item.edits,
+                usedQualityPct: undefined,
+                usedScalePct: undefined,
+                usedSsim: undefined,
+                analysis,
+                animation: undefined,
+                firstFrameOnly: undefined,
+                diagnostics: undefined,
+                variants,
+                snippet,
+                usedResponsive: responsive,
+                progress: undefined,
+                step: undefined,
+                status: "done",
+              }
+            }),
+          )
+          recordHistory(
+            item,
+            settings,
+            variants.map(({ name, format, width, height, blob }) => ({ name, format, width, height, blob })),
+            { qualityPct: null, scalePct: null, ssim: null },
+          )
+          return
         }
 
-        if (!blob) throw new Error("Failed to convert to WEBP")
+        const source = await prepareSource(item.file, item.kind, svgRenderSize)
+        const res = await getPool().run(
+          { id: item.id, source, typeLabel, settings, edits: item.edits },
+          onProgress,
+          signal,
+        )
 
-        const nextUrl = URL.createObjectURL(blob)
+        const nextUrl = URL.createObjectURL(res.blob)
         setItems((prev) =>
           prev.map((p) => {
             if (p.id !== item.id) return p
-            if (p.webpUrl && p.webpUrl !== nextUrl) URL.revokeObjectURL(p.webpUrl)
+            revokeOutputs(p)
             return {
               ...p,
-              webpUrl: nextUrl,
-              webpSize: blob!.size,
-              usedQualityPct: Math.round(chosenQ * 100),
-              usedScalePct: Math.round(chosenScale * 100),
+              outputUrl: nextUrl,
+              outputBlob: res.blob,
+              outputSize: res.blob.size,
+              outputFormat: settings.format,
+              usedSettings: settings,
+              usedEdits: item.edits,
+              usedQualityPct: Math.round(res.q * 100),
+              usedScalePct: Math.round(res.scale * 100),
+              usedSsim: res.ssim,
+              analysis: res.analysis,
+              animation: res.animation,
+              firstFrameOnly: res.firstFrameOnly,
+              diagnostics: res.diagnostics,
+              outputWidth: res.width,
+              outputHeight: res.height,
+              variants: undefined,
+              snippet: undefined,
+              usedResponsive: undefined,
+              progress: undefined,
               status: "done",
             }
           }),
         )
+        recordHistory(
+          item,
+          settings,
+          [
+            {
+              name: `${baseName(item.name)}.${OUTPUT_FORMATS[settings.format].extension}`,
+              format: settings.format,
+              width: res.width,
+              height: res.height,
+              blob: res.blob,
+            },
+          ],
+          {
+            qualityPct: isLossy(settings.format, settings.webpMode) ? Math.round(res.q * 100) : null,
+            scalePct: Math.round(res.scale * 100),
+            ssim: res.ssim ?? null,
+          },
+        )
       } catch (err: any) {
+        const cancelled = signal.aborted || isAbortError(err)
+        setItems((prev) =>
+          prev.map((p) =>
+            p.id !== item.id
+              ? p
+              : cancelled
+                ? { ...p, status: p.outputUrl ? "done" : "idle", progress: undefined, step: undefined }
+                : { ...p, status: "error", error: err?.message || "Error", progress: undefined, step: undefined },
+          ),
+        )
+        throw err
+      }
+    },
+    [svgRenderSize, getPool, recordHistory],
+  )
+
+  // Settings are captured when an item is queued, so changing them mid-batch only affects items queued later
+  const convertOne = useCallback(
+    (item: Item) => {
+      const itemSettings = effectiveSettings(item, settings)
+      setItems((prev) => prev.map((p) => (p.id === item.id ? { ...p, status: "queued", error: undefined } : p)))
+      queue.add(item.id, (signal) => runItem(item, itemSettings, responsive, signal))
+    },
+    [settings, responsive, queue, runItem],
+  )
+
+  const patchSettings = useCallback((patch: Partial<ConvertSettings>) => {
+    setSettings((prev) => ({ ...prev, ...patch }))
+  }, [])
+
+  const patchOverrides = useCallback(
+    (id: string, patch: Partial<ConvertSettings>) => {
+      setItems((prev) =>
+        prev.map((p) => (p.id === id ? { ...p, overrides: overridesFor({ ...p.overrides, ...patch }, settings) } : p)),
+      )
+    },
+    [settings],
+  )
+
+  const resetOverrides = useCallback((id: string) => {
+    setItems((prev) => prev.map((p) => (p.id === id ? { ...p, overrides: undefined } : p)))
+  }, [])
+
+  // Draw the edited image for the card thumbnail and the compare viewer; dropped if the edits changed meanwhile
+  const renderEdited = useCallback((id: string, src: string, edits: ImageEdits) => {
+    editedPreview(src, edits).then(
+      (blob) => {
+        const url = URL.createObjectURL(blob)
         setItems((prev) =>
-          prev.map((p) => (p.id === item.id ? { ...p, status: "error", error: err?.message || "Error" } : p)),
+          prev.map((p) => {
+            if (p.id !== id || p.edits !== edits) return p
+            if (p.editedUrl) URL.revokeObjectURL(p.editedUrl)
+            return { ...p, editedUrl: url }
+          }),
         )
+        // queued updaters run in order, so this one sees whether the preview was taken
+        setItems((prev) => {
+          if (!prev.some((p) => p.editedUrl === url)) URL.revokeObjectURL(url)
+          return prev
+        })
+      },
+      () => {},
+    )
+  }, [])
+
+  const setEdits = useCallback(
+    (item: Item, edits: ImageEdits | undefined) => {
+      setItems((prev) =>
+        prev.map((p) => {
+          if (p.id !== item.id) return p
+          if (p.editedUrl) URL.revokeObjectURL(p.editedUrl)
+          return { ...p, edits, editedUrl: undefined }
+        }),
+      )
+      if (edits) renderEdited(item.id, item.previewUrl, edits)
+    },
+    [renderEdited],
+  )
+
+  // Bring a history entry's original back as a new card, with the settings it was converted with as overrides
+  const reconvert = useCallback(
+    (entry: HistoryEntry) => {
+      // sourceName may carry a dropped folder's path; the File itself only gets the last segment
+      const file = new File([entry.source], entry.sourceName.split("/").pop()!, { type: entry.source.type })
+      const check = checkInputFile(file)
+      if (!check.ok) {
+        setRejected([{ name: entry.sourceName, reason: check.reason }])
+        return
       }
+      const item: Item = {
+        id: `${entry.sourceName}-${file.size}-${crypto.randomUUID()}`,
+        file,
+        name: entry.sourceName,
+        size: file.size,
+        kind: check.kind,
+        previewUrl: URL.createObjectURL(file),
+        overrides: overridesFor(entry.settings, settings),
+        edits: entry.edits,
+        status: "idle",
+      }
+      setItems((prev) => [...prev, item])
+      if (item.edits) renderEdited(item.id, item.previewUrl, item.edits)
+      convertOne(item)
+    },
+    [settings, convertOne, renderEdited],
+  )
+
+  const convertAll = useCallback(() => {
+    items
+      .filter((it) => {
+        if (it.status === "idle" || it.status === "error") return true
+        if (it.status !== "done" || !it.usedSettings) return false
+        const staleSet = responsive.enabled
+          ? JSON.stringify(it.usedResponsive) !== JSON.stringify(responsive)
+          : !!it.usedResponsive
+        return (
+          staleSet ||
+          !sameSettings(it.usedSettings, effectiveSettings(it, settings)) ||
+          !sameEdits(it.usedEdits, it.edits)
+        )
+      })
+      .forEach(convertOne)
+  }, [items, settings, responsive, convertOne])
+
+  const cancelAll = useCallback(() => {
+    queue.cancelAll()
+    setItems((prev) => prev.map((p) => (p.status === "queued" ? { ...p, status: p.outputUrl ? "done" : "idle" } : p)))
+  }, [queue])
+
+  const cancelOne = useCallback(
+    (id: string) => {
+      queue.cancel(id)
+      setItems((prev) =>
+        prev.map((p) => (p.id === id && p.status === "queued" ? { ...p, status: p.outputUrl ? "done" : "idle" } : p)),
+      )
     },
-    [mode, qualityPct, maxSizeKB, allowUpscale, webpAtQuality, convertToTargetSize, fitToSizeWithFixedQuality],
+    [queue],
   )
 
-  const convertAll = useCallback(async () => {
-    for (const it of items) {
-      if (it.status !== "done") {
-        // eslint-disable-next-line no-await-in-loop
-        await convertOne(it)
+  const downloadAll = useCallback(async () => {
+    const done = items.filter((i) => i.status === "done" && i.outputBlob)
+    if (!done.length) return
+    setIsZipping(true)
+    try {
+      // responsive items contribute every variant; the rest their single output
+      const files = done.flatMap<ZipFile>((it) =>
+        it.variants
+          ? it.variants.map((v) => ({
+              item: it,
+              name: v.name,
+              blob: v.blob,
+              format: v.format,
+              width: v.width,
+              height: v.height,
+              qualityPct: null,
+              scalePct: null,
+              ssim: null,
+            }))
+          : [
+              {
+                item: it,
+                name: outputName(it),
+                blob: it.outputBlob!,
+                format: it.outputFormat ?? "webp",
+                width: it.outputWidth ?? null,
+                height: it.outputHeight ?? null,
+                qualityPct: it.usedQualityPct ?? null,
+                scalePct: it.usedScalePct ?? 100,
+                ssim: it.usedSsim ?? null,
+              },
+            ],
+      )
+      const names = uniqueNames(files.map((f) => f.name))
+      const entries: ZipEntry[] = files.map((f, idx) => ({
+        name: names[idx],
+        data: f.blob,
+        lastModified: f.item.file.lastModified,
+      }))
+      if (includeManifest) {
+        const manifest = {
+          generatedAt: new Date().toISOString(),
+          files: files.map((f, idx) => ({
+            source: f.item.name,
+            output: names[idx],
+            format: f.format,
+            originalBytes: f.item.size,
+            outputBytes: f.blob.size,
+            qualityPct: f.qualityPct,
+            scalePct: f.scalePct,
+            ssim: f.ssim,
+            width: f.width,
+            height: f.height,
+          })),
+        }
+        entries.push({ name: "manifest.json", data: JSON.stringify(manifest, null, 2), lastModified: Date.now() })
       }
+      const zip = await createZip(entries)
+      downloadBlob(zip, `pixify-${new Date().toISOString().slice(0, 10)}.zip`)
+    } finally {
+      setIsZipping(false)
     }
-  }, [items, convertOne])
+  }, [items, includeManifest])
 
-  const removeItem = useCallback((id: string) => {
-    setItems((prev) => {
-      const it = prev.find((p) => p.id === id)
-      if (it?.previewUrl) URL.revokeObjectURL(it.previewUrl)
-      if (it?.webpUrl) URL.revokeObjectURL(it.webpUrl)
-      return prev.filter((p) => p.id !== id)
-    })
-  }, [])
+  const removeItem = useCallback(
+    (id: string) => {
+      queue.cancel(id)
+      setItems((prev) => {
+        const it = prev.find((p) => p.id === id)
+        if (it) revokeItem(it)
+        return prev.filter((p) => p.id !== id)
+      })
+    },
+    [queue],
+  )
 
   useEffect(() => {
     return () => {
-      items.forEach((i) => {
-        URL.revokeObjectURL(i.previewUrl)
-        if (i.webpUrl) URL.revokeObjectURL(i.webpUrl)
-      })
+      items.forEach(revokeItem)
+      poolRef.current?.terminate()
     }
     // we only want cleanup on unmount
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -415,14 +782,14 @@ export function Converter() {
           <input
             ref={inputRef}
             type="file"
-            accept="image/png"
+            accept={INPUT_ACCEPT}
             multiple
             className="hidden"
             onChange={(e) => onFiles(e.target.files)}
           />
           <Upload aria-hidden className="mb-3 h-8 w-8 text-muted-foreground" />
-          <p className="font-medium">Drag & drop your PNG files here</p>
-          <p className="mt-1 text-sm text-muted-foreground">{"or click to browse"}</p>
+          <p className="font-medium">Drag & drop your images or folders here</p>
+          <p className="mt-1 text-sm text-muted-foreground">{`${INPUT_FORMAT_LABEL} • click to browse or paste with Ctrl+V`}</p>
           <button
             type="button"
             onClick={() => {
@@ -432,250 +799,514 @@ export function Converter() {
             className="mt-4 inline-flex items-center gap-2 rounded-full bg-primary px-4 py-2 text-sm text-primary-foreground shadow ring-1 ring-primary/20 transition-colors hover:bg-primary/90 focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
           >
             <ImageIcon className="h-4 w-4" aria-hidden />
-            Choose PNGs
+            Choose images
           </button>
         </label>
 
+        <form
+          className="-mt-3 flex flex-wrap items-center gap-2"
+          onSubmit={async (e) => {
+            e.preventDefault()
+            if (await importUrl(importValue)) setImportValue("")
+          }}
+        >
+          <Label htmlFor="import-url" className="inline-flex items-center gap-2 text-xs text-muted-foreground">
+            <Link2 className="h-4 w-4" aria-hidden />
+            Import from URL
+          </Label>
+          <Input
+            id="import-url"
+            type="url"
+            inputMode="url"
+            placeholder="https://assets.example.com/banner.png"
+            className="h-8 min-w-56 flex-1"
+            value={importValue}
+            onChange={(e) => setImportValue(e.target.value)}
+          />
+          <Button type="submit" size="sm" variant="outline" disabled={importing || !importValue.trim()}>
+            {importing ? "Downloading…" : "Import"}
+          </Button>
+        </form>
+
+        {rejected.length > 0 && (
+          <Card className="border border-destructive/40 bg-destructive/5 p-4" role="alert">
+            <div className="flex items-start gap-3">
+              <AlertTriangle className="mt-0.5 h-4 w-4 shrink-0 text-destructive" aria-hidden />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium">
+                  {rejected.length} file{rejected.length > 1 ? "s were" : " was"} skipped
+                </p>
+                <ul className="mt-1 space-y-0.5 text-xs text-muted-foreground">
+                  {rejected.map((r, i) => (
+                    <li key={`${r.name}-${i}`} className="truncate">
+                      <span className="font-medium text-foreground">{r.name}</span> — {r.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <button
+                aria-label="Dismiss"
+                onClick={() => setRejected([])}
+                className="inline-flex h-6 w-6 items-center justify-center rounded-md text-muted-foreground hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+              >
+                <X className="h-4 w-4" aria-hidden />
+              </button>
+            </div>
+          </Card>
+        )}
+
         {/* Compression Settings Toolbar */}
         <Card className="border border-border/60 bg-card/70 p-4 backdrop-blur">
           <div className="flex flex-wrap items-center gap-4">
+            <PresetBar settings={settings} onApply={setSettings} />
+
             <div className="inline-flex items-center gap-2">
               <Settings className="h-4 w-4 text-muted-foreground" aria-hidden />
               <span className="text-sm font-medium">Compression Settings</span>
             </div>
 
-            <div className="flex items-center gap-2">
-              <Label htmlFor="mode" className="text-xs text-muted-foreground">
-                Mode
-              </Label>
-              <Select value={mode} onValueChange={(v) => setMode(v as typeof mode)}>
-                <SelectTrigger id="mode" className="h-8">
-                  <SelectValue placeholder="Select mode" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="auto">Auto</SelectItem>
-                  <SelectItem value="quality">By Quality</SelectItem>
-                  <SelectItem value="size">By Max Size</SelectItem>
-                  <SelectItem value="both">Quality + Max Size</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
+            <SettingsFields value={settings} onChange={patchSettings} />
 
-            {mode === "quality" && (
-              <div className="flex flex-1 items-center gap-3">
-                <Label className="text-xs text-muted-foreground">Quality</Label>
-                <div className="min-w-[160px] flex-1">
-                  <Slider value={[qualityPct]} min={1} max={100} onValueChange={(v) => setQualityPct(v[0] ?? 90)} />
-                </div>
-                <div className="flex items-center gap-1">
-                  {[40, 60, 80, 90].map((q) => (
-                    <Button key={q} size="sm" variant="outline" onClick={() => setQualityPct(q)}>
-                      {q}%
-                    </Button>
-                  ))}
-                </div>
-                <div className="text-xs tabular-nums text-muted-foreground">{qualityPct}%</div>
+            {items.some((i) => i.kind === "svg") && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="svg-size" className="text-xs text-muted-foreground">
+                  SVG render size
+                </Label>
+                <Input
+                  id="svg-size"
+                  className="h-8 w-24"
+                  inputMode="numeric"
+                  pattern="[0-9]*"
+                  value={svgRenderSize}
+                  onChange={(e) => {
+                    const n = Number.parseInt(e.target.value.replace(/[^0-9]/g, "") || "0", 10)
+                    setSvgRenderSize(Number.isFinite(n) ? Math.min(n, 8192) : 1024)
+                  }}
+                />
+                <span className="text-xs text-muted-foreground">px (longest edge)</span>
               </div>
             )}
 
-            {mode === "size" && (
-              <div className="flex items-center gap-4">
-                <div className="flex items-center gap-2">
-                  <Label htmlFor="maxkb" className="text-xs text-muted-foreground">
-                    Max Size
-                  </Label>
-                  <Input
-                    id="maxkb"
-                    className="h-8 w-28"
-                    inputMode="numeric"
-                    pattern="[0-9]*"
-                    value={maxSizeKB}
-                    onChange={(e) => {
-                      const n = Number.parseInt(e.target.value.replace(/[^0-9]/g, "") || "0", 10)
-                      setMaxSizeKB(Number.isFinite(n) ? n : 300)
-                    }}
-                  />
-                  <span className="text-xs text-muted-foreground">KB</span>
-                </div>
-                <div className="flex items-center gap-2">
-                  <Switch id="upscale-size" checked={allowUpscale} onCheckedChange={setAllowUpscale} />
-                  <Label htmlFor="upscale-size" className="text-xs text-muted-foreground">
-                    Aim near cap (can upscale)
-                  </Label>
-                </div>
-              </div>
-            )}
+            <OverlayFields value={settings} onChange={patchSettings} />
 
-            {mode === "both" && (
-              <div className="flex flex-1 flex-wrap items-center gap-4">
-                <div className="flex items-center gap-3">
-                  <Label className="text-xs text-muted-foreground">Quality</Label>
-                  <div className="min-w-[160px]">
-                    <Slider value={[qualityPct]} min={1} max={100} onValueChange={(v) => setQualityPct(v[0] ?? 90)} />
-                  </div>
-                  <div className="flex items-center gap-1">
-                    {[40, 60, 80, 90].map((q) => (
-                      <Button key={q} size="sm" variant="outline" onClick={() => setQualityPct(q)}>
-                        {q}%
-                      </Button>
-                    ))}
-                  </div>
-                  <div className="text-xs tabular-nums text-muted-foreground">{qualityPct}%</div>
-                </div>
+            <ResponsiveFields
+              value={responsive}
+              onChange={(patch) => setResponsive((prev) => ({ ...prev, ...patch }))}
+            />
+          </div>
+        </Card>
 
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <p className="text-sm text-muted-foreground">
+            {items.length > 0
+              ? `${items.length} file${items.length > 1 ? "s" : ""} selected • ${totalConverted} converted`
+              : null}
+          </p>
+          <div className="flex flex-wrap items-center gap-2">
+            {items.length > 0 && (
+              <>
                 <div className="flex items-center gap-2">
-                  <Label htmlFor="maxkb-both" className="text-xs text-muted-foreground">
-                    Max Size
+                  <Label htmlFor="concurrency" className="text-xs text-muted-foreground">
+                    Parallel
                   </Label>
-                  <Input
-                    id="maxkb-both"
-                    className="h-8 w-28"
-                    inputMode="numeric"
-                    pattern="[0-9]*"
-                    value={maxSizeKB}
-                    onChange={(e) => {
-                      const n = Number.parseInt(e.target.value.replace(/[^0-9]/g, "") || "0", 10)
-                      setMaxSizeKB(Number.isFinite(n) ? n : 300)
-                    }}
-                  />
-                  <span className="text-xs text-muted-foreground">KB</span>
+                  <Select value={String(queueState.concurrency)} onValueChange={(v) => queue.setConcurrency(Number(v))}>
+                    <SelectTrigger id="concurrency" className="h-8 w-16">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Array.from({ length: defaultPoolSize() }, (_, i) => i + 1).map((n) => (
+                        <SelectItem key={n} value={String(n)}>
+                          {n}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                 </div>
-
-                <div className="flex items-center gap-2">
-                  <Switch id="upscale-both" checked={allowUpscale} onCheckedChange={setAllowUpscale} />
-                  <Label htmlFor="upscale-both" className="text-xs text-muted-foreground">
-                    Aim near cap (can upscale)
+                <Button variant="secondary" onClick={convertAll}>
+                  Convert All
+                </Button>
+                {batchBusy && (
+                  <>
+                    <Button
+                      variant="outline"
+                      onClick={() => (queueState.paused ? queue.resume() : queue.pause())}
+                      className="inline-flex items-center gap-2"
+                    >
+                      {queueState.paused ? (
+                        <Play className="h-4 w-4" aria-hidden />
+                      ) : (
+                        <Pause className="h-4 w-4" aria-hidden />
+                      )}
+                      {queueState.paused ? "Resume" : "Pause"}
+                    </Button>
+                    <Button variant="outline" onClick={cancelAll} className="inline-flex items-center gap-2">
+                      <Square className="h-4 w-4" aria-hidden />
+                      Cancel All
+                    </Button>
+                  </>
+                )}
+                <div className="flex items-center gap-2 px-1">
+                  <Switch id="zip-manifest" checked={includeManifest} onCheckedChange={setIncludeManifest} />
+                  <Label htmlFor="zip-manifest" className="text-xs text-muted-foreground">
+                    Manifest
                   </Label>
                 </div>
-
-                <p className="text-xs text-muted-foreground">
-                  Keeps your selected quality and automatically resizes to stay close to the max size (never exceeding
-                  it).
-                </p>
-              </div>
+                <Button
+                  variant="secondary"
+                  onClick={downloadAll}
+                  disabled={totalConverted === 0 || isZipping}
+                  className="inline-flex items-center gap-2"
+                >
+                  <FileArchive className="h-4 w-4" aria-hidden />
+                  {isZipping ? "Zipping…" : "Download All"}
+                </Button>
+                <Button variant="outline" onClick={clearAll}>
+                  Clear All
+                </Button>
+              </>
             )}
+            <Button variant="ghost" onClick={() => setHistoryOpen(true)} className="inline-flex items-center gap-2">
+              <History className="h-4 w-4" aria-hidden />
+              History
+            </Button>
           </div>
-        </Card>
+        </div>
 
-        {items.length > 0 && (
-          <div className="flex items-center justify-between">
-            <p className="text-sm text-muted-foreground">
-              {items.length} file{items.length > 1 ? "s" : ""} selected • {totalConverted} converted
-            </p>
-            <div className="flex items-center gap-2">
-              <Button variant="secondary" onClick={convertAll}>
-                Convert All
-              </Button>
-              <Button variant="outline" onClick={clearAll}>
-                Clear All
-              </Button>
+        {batchBusy && (
+          <div className="grid gap-1.5" role="status" aria-live="polite">
+            <Progress value={queueState.total ? (batchFinished / queueState.total) * 100 : 0} />
+            <div className="flex items-center justify-between text-xs tabular-nums text-muted-foreground">
+              <span>
+                {batchFinished} / {queueState.total} processed • {queueState.running} running • {queueState.queued}{" "}
+                queued
+                {queueState.paused ? " • Paused" : null}
+              </span>
+              <span>{etaMs === null ? "Estimating…" : `~${formatDuration(etaMs)} left`}</span>
             </div>
           </div>
         )}
 
+        {reportRows.length > 0 && <SavingsReport rows={reportRows} />}
+
         <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-3">
-          {items.map((item) => (
-            <motion.li
-              key={item.id}
-              initial={{ opacity: 0, y: 10 }}
-              animate={{ opacity: 1, y: 0 }}
-              transition={{ duration: 0.35 }}
-            >
-              <Card className="relative overflow-hidden rounded-xl border border-border/60 bg-card/70 p-4 shadow-sm backdrop-blur">
-                <div className="flex items-center gap-3">
-                  <div className="relative h-16 w-16 overflow-hidden rounded-md ring-1 ring-border/60">
-                    <img
-                      src={item.previewUrl || "/placeholder.svg"}
-                      alt={item.name}
-                      className="h-full w-full object-cover"
-                    />
-                  </div>
-                  <div className="min-w-0">
-                    <p className="truncate text-sm font-medium">{item.name}</p>
-                    <p className="truncate text-xs text-muted-foreground">{(item.size / 1024).toFixed(1)} KB</p>
+          {items.map((item) => {
+            const itemSettings = effectiveSettings(item, settings)
+            // a finished item can be converted again once its effective settings changed
+            const stale =
+              item.status === "done" &&
+              !!item.usedSettings &&
+              (!sameSettings(item.usedSettings, itemSettings) || !sameEdits(item.usedEdits, item.edits))
+            const saved = Math.round(savedPct(item.size, item.outputSize ?? 0))
+            return (
+              <motion.li
+                key={item.id}
+                initial={{ opacity: 0, y: 10 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.35 }}
+              >
+                <Card
+                  className={cn(
+                    "relative overflow-hidden rounded-xl border border-border/60 bg-card/70 p-4 shadow-sm backdrop-blur",
+                    item.overrides && "border-primary/50 ring-1 ring-primary/20",
+                  )}
+                >
+                  <div className="flex items-center gap-3">
+                    <div className="relative h-16 w-16 overflow-hidden rounded-md ring-1 ring-border/60">
+                      <img
+                        src={
+                          (item.animation && item.outputUrl) || item.editedUrl || item.previewUrl || "/placeholder.svg"
+                        }
+                        alt={item.name}
+                        className="h-full w-full object-cover"
+                      />
+                    </div>
+                    <div className="min-w-0">
+                      <p className="truncate text-sm font-medium">{item.name}</p>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {(item.size / 1024).toFixed(1)} KB
+                        {item.overrides ? (
+                          <span className="ml-2 rounded-full bg-primary/15 px-1.5 py-0.5 text-[10px] font-medium text-primary">
+                            Custom settings
+                          </span>
+                        ) : null}
+                        {hasEdits(item.edits) ? (
+                          <span className="ml-2 rounded-full bg-primary/15 px-1.5 py-0.5 text-[10px] font-medium text-primary">
+                            Edited
+                          </span>
+                        ) : null}
+                      </p>
+                    </div>
+                    <button
+                      aria-label="Crop, rotate and flip"
+                      title="Crop, rotate and flip"
+                      onClick={() => setCroppingId(item.id)}
+                      className={cn(
+                        "ml-auto inline-flex h-8 w-8 items-center justify-center rounded-md text-muted-foreground hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                        hasEdits(item.edits) && "text-primary",
+                      )}
+                    >
+                      <Crop className="h-4 w-4" aria-hidden />
+                    </button>
+                    <button
+                      aria-label="Item settings"
+                      aria-pressed={editingId === item.id}
+                      onClick={() => setEditingId((cur) => (cur === item.id ? null : item.id))}
+                      className={cn(
+                        "inline-flex h-8 w-8 items-center justify-center rounded-md text-muted-foreground hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                        (editingId === item.id || item.overrides) && "text-primary",
+                      )}
+                    >
+                      <SlidersHorizontal className="h-4 w-4" aria-hidden />
+                    </button>
+                    <button
+                      aria-label="Remove"
+                      onClick={() => removeItem(item.id)}
+                      className="inline-flex h-8 w-8 items-center justify-center rounded-md text-muted-foreground hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                    >
+                      <Trash2 className="h-4 w-4" aria-hidden />
+                    </button>
                   </div>
-                  <button
-                    aria-label="Remove"
-                    onClick={() => removeItem(item.id)}
-                    className="ml-auto inline-flex h-8 w-8 items-center justify-center rounded-md text-muted-foreground hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
-                  >
-                    <Trash2 className="h-4 w-4" aria-hidden />
-                  </button>
-                </div>
 
-                <div className="mt-4 flex items-center gap-2">
-                  <Button
-                    size="sm"
-                    onClick={() => convertOne(item)}
-                    disabled={item.status === "converting" || item.status === "done"}
-                    className="relative"
-                  >
-                    {item.status === "converting" ? "Converting…" : "Convert to WEBP"}
-                  </Button>
-
-                  <Button
-                    size="sm"
-                    variant="secondary"
-                    disabled={!item.webpUrl}
-                    onClick={() => {
-                      if (!item.webpUrl) return
-                      const a = document.createElement("a")
-                      a.href = item.webpUrl
-                      a.download = item.name.replace(/\.png$/i, "") + ".webp"
-                      document.body.appendChild(a)
-                      a.click()
-                      a.remove()
-                    }}
-                    className="inline-flex items-center gap-2"
-                  >
-                    <Download className="h-4 w-4" aria-hidden />
-                    Download
-                  </Button>
+                  {editingId === item.id && (
+                    <div className="mt-4 rounded-lg border border-border/60 bg-background/60 p-3">
+                      <div className="flex flex-wrap items-center gap-3">
+                        <SettingsFields
+                          value={itemSettings}
+                          onChange={(patch) => patchOverrides(item.id, patch)}
+                          idPrefix={`${item.id}-`}
+                        />
+                      </div>
+                      <div className="mt-3 flex items-center justify-between gap-2">
+                        <p className="text-xs text-muted-foreground">
+                          {item.overrides ? "Overrides the toolbar for this file." : "Using the toolbar settings."}
+                        </p>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={!item.overrides}
+                          onClick={() => resetOverrides(item.id)}
+                          className="inline-flex items-center gap-2"
+                        >
+                          <RotateCcw className="h-4 w-4" aria-hidden />
+                          Reset to global
+                        </Button>
+                      </div>
+                    </div>
+                  )}
 
-                  {item.status === "done" && (
-                    <motion.div
-                      initial={{ scale: 0.8, opacity: 0 }}
-                      animate={{ scale: 1, opacity: 1 }}
-                      transition={{ type: "spring", stiffness: 300, damping: 18 }}
-                      className="ml-auto text-green-500"
-                      aria-label="Conversion complete"
-                      role="status"
+                  <div className="mt-4 flex flex-wrap items-center gap-2">
+                    <Button
+                      size="sm"
+                      onClick={() => convertOne(item)}
+                      disabled={
+                        item.status === "queued" || item.status === "converting" || (item.status === "done" && !stale)
+                      }
+                      className="relative"
                     >
-                      <CheckCircle2 className="h-5 w-5" aria-hidden />
-                    </motion.div>
+                      {item.status === "converting"
+                        ? item.step
+                          ? `Converting… (${item.step.index}/${item.step.total})`
+                          : item.progress
+                            ? `Converting… (${item.progress.encodes} encodes)`
+                            : "Converting…"
+                        : item.status === "queued"
+                          ? "Queued"
+                          : `Convert to ${OUTPUT_FORMATS[itemSettings.format].label}`}
+                    </Button>
+
+                    {(item.status === "queued" || item.status === "converting") && (
+                      <Button size="sm" variant="outline" onClick={() => cancelOne(item.id)}>
+                        Cancel
+                      </Button>
+                    )}
+
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      disabled={!item.outputUrl}
+                      onClick={() => {
+                        if (!item.outputUrl) return
+                        const a = document.createElement("a")
+                        a.href = item.outputUrl
+                        a.download = mainOutputName(item)
+                        document.body.appendChild(a)
+                        a.click()
+                        a.remove()
+                      }}
+                      className="inline-flex items-center gap-2"
+                    >
+                      <Download className="h-4 w-4" aria-hidden />
+                      Download
+                    </Button>
+
+                    {item.outputBlob && <OutputActions blob={item.outputBlob} name={mainOutputName(item)} />}
+
+                    {item.outputUrl && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setComparingId(item.id)}
+                        className="inline-flex items-center gap-2"
+                      >
+                        <GitCompare className="h-4 w-4" aria-hidden />
+                        Compare
+                      </Button>
+                    )}
+
+                    {item.status === "done" && (
+                      <motion.div
+                        initial={{ scale: 0.8, opacity: 0 }}
+                        animate={{ scale: 1, opacity: 1 }}
+                        transition={{ type: "spring", stiffness: 300, damping: 18 }}
+                        className="ml-auto text-green-500"
+                        aria-label="Conversion complete"
+                        role="status"
+                      >
+                        <CheckCircle2 className="h-5 w-5" aria-hidden />
+                      </motion.div>
+                    )}
+                  </div>
+
+                  {/* Show result info: size + used quality (+ scale if applied) */}
+                  {item.status === "done" && (
+                    <p className="mt-2 text-xs text-muted-foreground">
+                      {OUTPUT_FORMATS[item.outputFormat ?? "webp"].label} size:{" "}
+                      {((item.outputSize || 0) / 1024).toFixed(1)} KB
+                      {` (${saved >= 0 ? "−" : "+"}${Math.abs(saved)}%)`}
+                      {!isLossy(item.outputFormat ?? "webp", item.usedSettings?.webpMode)
+                        ? " • Lossless"
+                        : typeof item.usedQualityPct === "number"
+                          ? ` • Quality: ${item.usedQualityPct}%`
+                          : null}
+                      {typeof item.usedSsim === "number" ? ` • SSIM: ${item.usedSsim.toFixed(3)}` : null}
+                      {typeof item.usedScalePct === "number" && item.usedScalePct !== 100
+                        ? ` • Scale: ${item.usedScalePct}%`
+                        : null}
+                      {item.outputWidth && item.outputHeight ? ` • ${item.outputWidth}×${item.outputHeight}px` : null}
+                      {item.animation
+                        ? ` • Animated: ${item.animation.frames} frames, ${(item.animation.durationMs / 1000).toFixed(1)}s`
+                        : null}
+                      {item.analysis?.transparent &&
+                      (!OUTPUT_FORMATS[item.outputFormat ?? "webp"].alpha || item.usedSettings?.alpha === "flatten")
+                        ? " • Transparency flattened"
+                        : null}
+                      {item.usedSettings &&
+                      (item.usedSettings.mode === "size" || item.usedSettings.mode === "both") &&
+                      item.outputSize &&
+                      item.outputSize / 1024 > item.usedSettings.maxSizeKB
+                        ? " • Note: could not reach target size; returned smallest possible."
+                        : null}
+                      {item.usedSettings?.mode === "visual" &&
+                      typeof item.usedSsim === "number" &&
+                      item.usedSsim < item.usedSettings.targetSsim
+                        ? " • Note: target SSIM not reachable; returned highest quality."
+                        : null}
+                    </p>
                   )}
-                </div>
 
-                {/* Show result info: size + used quality (+ scale if applied) */}
-                {item.status === "done" && (
-                  <p className="mt-2 text-xs text-muted-foreground">
-                    WEBP size: {((item.webpSize || 0) / 1024).toFixed(1)} KB
-                    {typeof item.usedQualityPct === "number" ? ` • Quality: ${item.usedQualityPct}%` : null}
-                    {typeof item.usedScalePct === "number" && item.usedScalePct !== 100
-                      ? ` • Scale: ${item.usedScalePct}%`
-                      : null}
-                    {(mode === "size" || mode === "both") && item.webpSize && item.webpSize / 1024 > maxSizeKB
-                      ? " • Note: could not reach target size; returned smallest possible."
-                      : null}
-                  </p>
-                )}
+                  {item.status === "done" &&
+                    item.analysis?.graphics &&
+                    item.usedSettings &&
+                    !item.variants &&
+                    !isLosslessCodec(item.usedSettings.format, item.usedSettings.webpMode) && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2 rounded-md bg-primary/10 px-2 py-1.5 text-xs">
+                        <span className="text-muted-foreground">
+                          Looks like flat-colour graphics: lossless WEBP keeps edges crisp and is often smaller.
+                        </span>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          className="h-6 px-2 text-xs"
+                          onClick={() => patchOverrides(item.id, { format: "webp", webpMode: "lossless" })}
+                        >
+                          Use lossless
+                        </Button>
+                      </div>
+                    )}
+
+                  {item.status === "done" && item.firstFrameOnly && item.usedSettings && !item.variants && (
+                    <div className="mt-2 flex flex-wrap items-center gap-2 rounded-md bg-primary/10 px-2 py-1.5 text-xs">
+                      <span className="text-muted-foreground">
+                        Animated source: {OUTPUT_FORMATS[item.usedSettings.format].label} keeps only the first frame.
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        className="h-6 px-2 text-xs"
+                        onClick={() => patchOverrides(item.id, { format: "webp" })}
+                      >
+                        Keep animation (WEBP)
+                      </Button>
+                    </div>
+                  )}
+
+                  {item.status === "done" && item.diagnostics && !item.variants && (
+                    <SearchDiagnostics
+                      diagnostics={item.diagnostics}
+                      capKB={
+                        item.usedSettings?.mode === "size" || item.usedSettings?.mode === "both"
+                          ? item.usedSettings.maxSizeKB
+                          : undefined
+                      }
+                    />
+                  )}
 
-                {item.error && <p className="mt-2 text-sm text-destructive">{item.error}</p>}
-              </Card>
-            </motion.li>
-          ))}
+                  {item.status === "done" && item.variants && item.snippet && (
+                    <VariantList variants={item.variants} snippet={item.snippet} />
+                  )}
+
+                  {item.error && <p className="mt-2 text-sm text-destructive">{item.error}</p>}
+                </Card>
+              </motion.li>
+            )
+          })}
         </ul>
+
+        {comparing?.outputUrl && comparing.outputBlob && (
+          <CompareViewer
+            open
+            onOpenChange={(open) => !open && setComparingId(null)}
+            name={comparing.name}
+            originalUrl={(hasEdits(comparing.usedEdits) && comparing.editedUrl) || comparing.previewUrl}
+            originalBytes={comparing.size}
+            output={{
+              url: comparing.outputUrl,
+              bytes: comparing.outputBlob.size,
+              label: OUTPUT_FORMATS[comparing.outputFormat ?? "webp"].label,
+              width: comparing.outputWidth ?? 1,
+              height: comparing.outputHeight ?? 1,
+              qualityPct: comparing.usedQualityPct,
+              scalePct: comparing.usedScalePct,
+              ssim: comparing.usedSsim,
+              lossless: !isLossy(comparing.outputFormat ?? "webp", comparing.usedSettings?.webpMode),
+              cropped: comparing.usedSettings?.resize === "exact" && comparing.usedSettings.resizeFit === "cover",
+            }}
+          />
+        )}
+
+        {cropping && (
+          <ImageEditor
+            open
+            onOpenChange={(open) => !open && setCroppingId(null)}
+            name={cropping.name}
+            src={cropping.previewUrl}
+            edits={cropping.edits}
+            onApply={(edits) => setEdits(cropping, edits)}
+          />
+        )}
+
+        <HistoryDrawer
+          open={historyOpen}
+          onOpenChange={setHistoryOpen}
+          quota={historyQuota}
+          onQuotaChange={(bytes) => {
+            setHistoryQuota(bytes)
+            saveHistoryQuota(bytes)
+          }}
+          revision={historyRevision}
+          onReconvert={reconvert}
+        />
       </div>
     </section>
   )
 }
-
-function loadImage(src: string): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.crossOrigin = "anonymous" // avoid CORS issues on canvas
-    img.onload = () => resolve(img)
-    img.onerror = () => reject(new Error("Failed to load image"))
-    img.src = src
-  })
-}
@@ -4,7 +4,7 @@ import { motion } from "framer-motion"
 import { Card } from "@/components/ui/card"
 
 const features = [
-  { title: "🚀 Instant Conversion", desc: "Lightning-fast PNG to WEBP using your browser." },
+  { title: "🚀 Instant Conversion", desc: "Lightning-fast PNG, JPEG, GIF, SVG and more to WEBP in your browser." },
   { title: "💾 100% Private", desc: "No uploads. Files never leave your device." },
   { title: "🎨 High Quality WEBP", desc: "Great results with adjustable quality under the hood." },
   { title: "📱 Works on All Devices", desc: "Responsive and smooth on phones, tablets, and desktops." },
@@ -0,0 +1,227 @@
+"use client"
+
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { Download, History, RefreshCw, Search, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  HISTORY_QUOTA_OPTIONS,
+  clearHistory,
+  deleteHistory,
+  entryBytes,
+  listHistory,
+  matchesHistory,
+  trimHistory,
+  type HistoryEntry,
+} from "@/lib/history"
+import { OUTPUT_FORMATS } from "@/lib/output-formats"
+import { createZip, downloadBlob } from "@/lib/zip"
+
+type Props = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  quota: number
+  onQuotaChange: (bytes: number) => void
+  // bumped by the converter whenever it stores an entry, so an open drawer refreshes
+  revision: number
+  onReconvert: (entry: HistoryEntry) => void
+}
+
+function size(bytes: number) {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+async function downloadEntry(entry: HistoryEntry) {
+  if (entry.files.length === 1) {
+    downloadBlob(entry.files[0].blob, entry.files[0].name)
+    return
+  }
+  const zip = await createZip(entry.files.map((f) => ({ name: f.name, data: f.blob, lastModified: entry.createdAt })))
+  downloadBlob(zip, `${entry.sourceName.replace(/\.[^.]+$/, "")}-set.zip`)
+}
+
+// Side panel listing past conversions stored in IndexedDB, newest first
+export function HistoryDrawer({ open, onOpenChange, quota, onQuotaChange, revision, onReconvert }: Props) {
+  const [entries, setEntries] = useState<HistoryEntry[]>([])
+  const [query, setQuery] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [confirmPurge, setConfirmPurge] = useState(false)
+
+  const refresh = useCallback(async () => {
+    try {
+      setEntries(await listHistory())
+      setError(null)
+    } catch (err: any) {
+      setError(err?.message || "History is unavailable in this browser")
+    }
+  }, [])
+
+  useEffect(() => {
+    if (open) refresh()
+    else {
+      setEntries([])
+      setConfirmPurge(false)
+    }
+  }, [open, revision, refresh])
+
+  const visible = useMemo(() => entries.filter((e) => matchesHistory(e, query)), [entries, query])
+  const used = useMemo(() => entries.reduce((n, e) => n + entryBytes(e), 0), [entries])
+
+  // one thumbnail per entry; revoked when the list changes or the drawer closes
+  const thumbs = useMemo(() => new Map(entries.map((e) => [e.id, URL.createObjectURL(e.files[0].blob)])), [entries])
+  useEffect(() => () => thumbs.forEach((url) => URL.revokeObjectURL(url)), [thumbs])
+
+  const run = async (action: () => Promise<void>) => {
+    try {
+      await action()
+    } catch (err: any) {
+      setError(err?.message || "History update failed")
+    }
+    await refresh()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="top-0 right-0 left-auto flex h-dvh max-w-full translate-x-0 translate-y-0 flex-col gap-3 rounded-none border-y-0 border-r-0 p-4 sm:max-w-md">
+        <div className="flex items-center gap-2 pr-8">
+          <History className="h-4 w-4 text-muted-foreground" aria-hidden />
+          <DialogTitle className="text-base">History</DialogTitle>
+        </div>
+        <DialogDescription className="text-xs">
+          Past conversions stay in this browser (IndexedDB) until the storage limit is reached; the oldest are removed
+          first.
+        </DialogDescription>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Label htmlFor="history-quota" className="text-xs text-muted-foreground">
+            Keep up to
+          </Label>
+          <Select
+            value={String(quota)}
+            onValueChange={(v) => {
+              const bytes = Number(v)
+              onQuotaChange(bytes)
+              run(() => (bytes > 0 ? trimHistory(bytes) : clearHistory()))
+            }}
+          >
+            <SelectTrigger id="history-quota" className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {HISTORY_QUOTA_OPTIONS.map((o) => (
+                <SelectItem key={o.bytes} value={String(o.bytes)}>
+                  {o.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <span className="text-xs tabular-nums text-muted-foreground">
+            {size(used)} used{quota > 0 ? ` of ${size(quota)}` : null}
+          </span>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute top-2 left-2 h-4 w-4 text-muted-foreground" aria-hidden />
+            <Input
+              aria-label="Search history"
+              placeholder="Search by name or format"
+              className="h-8 pl-8"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
+          </div>
+          <Button
+            size="sm"
+            variant={confirmPurge ? "destructive" : "outline"}
+            disabled={entries.length === 0}
+            onClick={() => {
+              if (!confirmPurge) {
+                setConfirmPurge(true)
+                return
+              }
+              setConfirmPurge(false)
+              run(clearHistory)
+            }}
+            onBlur={() => setConfirmPurge(false)}
+          >
+            {confirmPurge ? "Delete everything?" : "Purge"}
+          </Button>
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        <ul className="-mx-1 flex-1 space-y-2 overflow-y-auto px-1">
+          {visible.map((entry) => {
+            const outBytes = entry.files.reduce((n, f) => n + f.blob.size, 0)
+            const saved = entry.source.size ? Math.round((1 - outBytes / entry.source.size) * 100) : 0
+            const main = entry.files[0]
+            return (
+              <li key={entry.id} className="flex items-center gap-3 rounded-lg border border-border/60 p-2">
+                <img
+                  src={thumbs.get(entry.id)}
+                  alt=""
+                  className="h-12 w-12 shrink-0 rounded object-cover ring-1 ring-border/60"
+                />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm font-medium" title={entry.sourceName}>
+                    {entry.sourceName}
+                  </p>
+                  <p className="truncate text-xs tabular-nums text-muted-foreground">
+                    {OUTPUT_FORMATS[main.format].label}
+                    {entry.files.length > 1 ? ` • ${entry.files.length} files` : null} • {size(entry.source.size)} →{" "}
+                    {size(outBytes)} ({saved >= 0 ? "−" : "+"}
+                    {Math.abs(saved)}%)
+                  </p>
+                  <p className="text-[11px] text-muted-foreground">
+                    {new Date(entry.createdAt).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" })}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label="Download"
+                    title={entry.files.length > 1 ? "Download as ZIP" : "Download"}
+                    onClick={() => downloadEntry(entry)}
+                  >
+                    <Download className="h-4 w-4" aria-hidden />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label="Convert again"
+                    title="Add the original back with these settings"
+                    onClick={() => {
+                      onReconvert(entry)
+                      onOpenChange(false)
+                    }}
+                  >
+                    <RefreshCw className="h-4 w-4" aria-hidden />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    aria-label="Delete from history"
+                    title="Delete"
+                    onClick={() => run(() => deleteHistory(entry.id))}
+                  >
+                    <Trash2 className="h-4 w-4" aria-hidden />
+                  </Button>
+                </div>
+              </li>
+            )
+          })}
+          {visible.length === 0 && (
+            <li className="py-8 text-center text-sm text-muted-foreground">
+              {entries.length ? "No conversions match your search" : "Converted files will show up here"}
+            </li>
+          )}
+        </ul>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,335 @@
+"use client"
+
+import { useCallback, useEffect, useRef, useState, type PointerEvent } from "react"
+import { Crop, FlipHorizontal2, FlipVertical2, RotateCcw, RotateCw, ScanLine, Undo2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import {
+  ASPECT_PRESETS,
+  NO_EDITS,
+  cropPixels,
+  fitAspect,
+  flip,
+  hasEdits,
+  normalizeCrop,
+  orientedSize,
+  rotateBy,
+  type ImageEdits,
+  type NormalizedCrop,
+  type Orientation,
+} from "@/lib/edits"
+import { trimBounds } from "@/lib/pixels"
+
+type Props = {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  name: string
+  src: string
+  edits?: ImageEdits
+  // undefined when everything was reset
+  onApply: (edits: ImageEdits | undefined) => void
+}
+
+type Handle = "move" | "nw" | "ne" | "sw" | "se"
+
+// larger sources are scaled down for the on-screen canvas, auto-trim and the edited preview
+const VIEW_EDGE = 1024
+const WORK_EDGE = 4096
+const MIN_CROP = 0.02
+const FULL: NormalizedCrop = { x: 0, y: 0, w: 1, h: 1 }
+
+function loadImage(src: string) {
+  return new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image()
+    // SVGs without width/height have no natural size to edit against
+    img.onload = () => (img.naturalWidth && img.naturalHeight ? resolve(img) : reject(new Error("Image has no size")))
+    img.onerror = () => reject(new Error("Failed to load image"))
+    img.src = src
+  })
+}
+
+// Same geometry as the conversion backends: rotate clockwise, then mirror, then crop
+function drawEdited(img: HTMLImageElement, o: Orientation, crop: NormalizedCrop | null, maxEdge: number) {
+  const oriented = orientedSize(img.naturalWidth, img.naturalHeight, o.rotate)
+  const rect = cropPixels(crop, oriented.width, oriented.height)
+  const k = Math.min(1, maxEdge / Math.max(rect.sw, rect.sh))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(rect.sw * k))
+  canvas.height = Math.max(1, Math.round(rect.sh * k))
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Unable to get canvas context")
+  ctx.imageSmoothingQuality = "high"
+  ctx.scale(k, k)
+  ctx.translate(oriented.width / 2 - rect.sx, oriented.height / 2 - rect.sy)
+  ctx.scale(o.flipH ? -1 : 1, o.flipV ? -1 : 1)
+  ctx.rotate((o.rotate * Math.PI) / 180)
+  ctx.drawImage(img, -img.naturalWidth / 2, -img.naturalHeight / 2)
+  return canvas
+}
+
+// Rendered result of the edits, used as the card thumbnail and the "before" side of the compare viewer
+export async function editedPreview(src: string, edits: ImageEdits): Promise<Blob> {
+  const canvas = drawEdited(await loadImage(src), edits, edits.crop, WORK_EDGE)
+  return new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("Preview failed"))), "image/png"),
+  )
+}
+
+function clamp(v: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, v))
+}
+
+// Rotate / flip / crop dialog for one item. Edits are kept as a draft until applied.
+export function ImageEditor({ open, onOpenChange, name, src, edits, onApply }: Props) {
+  const [draft, setDraft] = useState<ImageEdits>(edits ?? NO_EDITS)
+  const [aspect, setAspect] = useState("Free")
+  const [image, setImage] = useState<HTMLImageElement | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const stageRef = useRef<HTMLDivElement>(null)
+  const drag = useRef<{ handle: Handle; x: number; y: number; crop: NormalizedCrop } | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setDraft(edits ?? NO_EDITS)
+    setAspect("Free")
+    setMessage(null)
+    setImage(null)
+    let cancelled = false
+    loadImage(src).then(
+      (img) => !cancelled && setImage(img),
+      () => !cancelled && setMessage("This image can't be edited in this browser"),
+    )
+    return () => {
+      cancelled = true
+    }
+  }, [open, src, edits])
+
+  const size = image ? orientedSize(image.naturalWidth, image.naturalHeight, draft.rotate) : null
+  const ratio = ASPECT_PRESETS.find((p) => p.label === aspect)?.ratio ?? null
+  // "Original" keeps the oriented image's own proportions
+  const pixelRatio = ratio === 0 && size ? size.width / size.height : ratio
+  const crop = draft.crop ?? FULL
+
+  // the canvas shows the whole oriented image; the crop box is an overlay on top of it
+  useEffect(() => {
+    const target = canvasRef.current
+    if (!image || !target) return
+    const drawn = drawEdited(image, { rotate: draft.rotate, flipH: draft.flipH, flipV: draft.flipV }, null, VIEW_EDGE)
+    target.width = drawn.width
+    target.height = drawn.height
+    target.getContext("2d")?.drawImage(drawn, 0, 0)
+  }, [image, draft.rotate, draft.flipH, draft.flipV])
+
+  const setCrop = (next: NormalizedCrop | null) => setDraft((d) => ({ ...d, crop: next }))
+
+  const chooseAspect = (label: string) => {
+    setAspect(label)
+    const r = ASPECT_PRESETS.find((p) => p.label === label)?.ratio ?? null
+    if (r === null || !size) return
+    setCrop(fitAspect(crop, r === 0 ? size.width / size.height : r, size.width, size.height))
+  }
+
+  const autoTrim = useCallback(() => {
+    if (!image) return
+    const canvas = drawEdited(image, draft, null, WORK_EDGE)
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+    const bounds = trimBounds(ctx.getImageData(0, 0, canvas.width, canvas.height).data, canvas.width, canvas.height)
+    if (!bounds) {
+      setMessage("No uniform or transparent border to trim")
+      return
+    }
+    setAspect("Free")
+    setMessage(null)
+    setCrop(normalizeCrop(bounds, canvas.width, canvas.height))
+  }, [image, draft])
+
+  const onPointerDown = (e: PointerEvent<HTMLElement>, handle: Handle) => {
+    e.stopPropagation()
+    e.currentTarget.setPointerCapture(e.pointerId)
+    drag.current = { handle, x: e.clientX, y: e.clientY, crop }
+  }
+
+  const onPointerMove = (e: PointerEvent<HTMLElement>) => {
+    const d = drag.current
+    const stage = stageRef.current
+    if (!d || !stage || !size) return
+    const rect = stage.getBoundingClientRect()
+    const dx = (e.clientX - d.x) / rect.width
+    const dy = (e.clientY - d.y) / rect.height
+    const c = d.crop
+    if (d.handle === "move") {
+      setCrop({ ...c, x: clamp(c.x + dx, 0, 1 - c.w), y: clamp(c.y + dy, 0, 1 - c.h) })
+      return
+    }
+    // resize against the opposite corner, which stays put
+    const ax = d.handle.includes("w") ? c.x + c.w : c.x
+    const ay = d.handle.includes("n") ? c.y + c.h : c.y
+    const px = clamp((d.handle.includes("w") ? c.x : c.x + c.w) + dx, 0, 1)
+    const py = clamp((d.handle.includes("n") ? c.y : c.y + c.h) + dy, 0, 1)
+    let w = Math.max(MIN_CROP, Math.abs(px - ax))
+    let h = Math.max(MIN_CROP, Math.abs(py - ay))
+    const maxW = px >= ax ? 1 - ax : ax
+    const maxH = py >= ay ? 1 - ay : ay
+    if (pixelRatio) {
+      // the ratio is in pixels; in 0-1 units it depends on the image's proportions
+      const r = (pixelRatio * size.height) / size.width
+      if (w / h > r) h = w / r
+      else w = h * r
+      if (w > maxW) {
+        w = maxW
+        h = w / r
+      }
+      if (h > maxH) {
+        h = maxH
+        w = h * r
+      }
+    }
+    w = Math.min(w, maxW)
+    h = Math.min(h, maxH)
+    setCrop({ x: px >= ax ? ax : ax - w, y: py >= ay ? ay : ay - h, w, h })
+  }
+
+  const onPointerUp = () => {
+    drag.current = null
+  }
+
+  const cropPx = size ? cropPixels(crop, size.width, size.height) : null
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="flex max-h-[95dvh] flex-col gap-3 p-4 sm:max-w-3xl">
+        <div className="flex items-center gap-2 pr-8">
+          <Crop className="h-4 w-4 text-muted-foreground" aria-hidden />
+          <DialogTitle className="truncate text-base">Edit {name}</DialogTitle>
+        </div>
+        <DialogDescription className="text-xs">
+          Rotation, mirroring and the crop are applied before resizing and every size search.
+        </DialogDescription>
+
+        <div className="flex flex-wrap items-center gap-1">
+          <Button size="icon" variant="ghost" aria-label="Rotate left" onClick={() => setDraft((d) => rotateBy(d, -1))}>
+            <RotateCcw className="h-4 w-4" aria-hidden />
+          </Button>
+          <Button size="icon" variant="ghost" aria-label="Rotate right" onClick={() => setDraft((d) => rotateBy(d, 1))}>
+            <RotateCw className="h-4 w-4" aria-hidden />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label="Flip horizontally"
+            aria-pressed={draft.flipH}
+            onClick={() => setDraft((d) => flip(d, "h"))}
+          >
+            <FlipHorizontal2 className="h-4 w-4" aria-hidden />
+          </Button>
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label="Flip vertically"
+            aria-pressed={draft.flipV}
+            onClick={() => setDraft((d) => flip(d, "v"))}
+          >
+            <FlipVertical2 className="h-4 w-4" aria-hidden />
+          </Button>
+          <Label htmlFor="crop-aspect" className="ml-2 text-xs text-muted-foreground">
+            Aspect
+          </Label>
+          <Select value={aspect} onValueChange={chooseAspect}>
+            <SelectTrigger id="crop-aspect" className="h-8 w-28">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ASPECT_PRESETS.map((p) => (
+                <SelectItem key={p.label} value={p.label}>
+                  {p.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" variant="ghost" className="inline-flex items-center gap-2" onClick={autoTrim}>
+            <ScanLine className="h-4 w-4" aria-hidden />
+            Auto-trim
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="inline-flex items-center gap-2"
+            disabled={!hasEdits(draft)}
+            onClick={() => {
+              setDraft(NO_EDITS)
+              setAspect("Free")
+              setMessage(null)
+            }}
+          >
+            <Undo2 className="h-4 w-4" aria-hidden />
+            Reset
+          </Button>
+        </div>
+
+        <div className="flex min-h-0 flex-1 items-center justify-center overflow-hidden rounded-lg bg-muted/40 p-2">
+          <div ref={stageRef} className="relative max-h-full touch-none overflow-hidden">
+            <canvas ref={canvasRef} className="block max-h-[60dvh] max-w-full" />
+            {image && (
+              <div
+                className="absolute cursor-move border border-white shadow-[0_0_0_9999px_rgba(0,0,0,0.5)]"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.w * 100}%`,
+                  height: `${crop.h * 100}%`,
+                }}
+                onPointerDown={(e) => onPointerDown(e, "move")}
+                onPointerMove={onPointerMove}
+                onPointerUp={onPointerUp}
+              >
+                {(["nw", "ne", "sw", "se"] as const).map((h) => (
+                  <span
+                    key={h}
+                    aria-hidden
+                    onPointerDown={(e) => onPointerDown(e, h)}
+                    onPointerMove={onPointerMove}
+                    onPointerUp={onPointerUp}
+                    className="absolute h-3 w-3 rounded-sm border border-black/40 bg-white"
+                    style={{
+                      left: h.includes("w") ? -6 : undefined,
+                      right: h.includes("e") ? -6 : undefined,
+                      top: h.includes("n") ? -6 : undefined,
+                      bottom: h.includes("s") ? -6 : undefined,
+                      cursor: h === "nw" || h === "se" ? "nwse-resize" : "nesw-resize",
+                    }}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <p className="text-xs tabular-nums text-muted-foreground">
+            {cropPx ? `${cropPx.sw} × ${cropPx.sh} px` : "Loading…"}
+            {message ? ` • ${message}` : null}
+          </p>
+          <div className="ml-auto flex items-center gap-2">
+            <Button size="sm" variant="ghost" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              disabled={!image}
+              onClick={() => {
+                onApply(hasEdits(draft) ? draft : undefined)
+                onOpenChange(false)
+              }}
+            >
+              Apply
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
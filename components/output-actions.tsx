@@ -0,0 +1,131 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Binary, Check, ClipboardCopy, FileCode2, Share2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { DATA_URI_WARN_BYTES, canShareFile, copyImage, dataUri, shareFile } from "@/lib/share"
+import { cn } from "@/lib/utils"
+
+type Props = {
+  blob: Blob
+  // file name used for sharing; folder paths are dropped
+  name: string
+}
+
+type Action = "image" | "share" | "uri" | "base64"
+
+type Status = { action: Action; message: string; error?: boolean }
+
+function size(bytes: number) {
+  return `${(bytes / 1024).toFixed(1)} KB`
+}
+
+// Copy / share buttons for a converted output, next to Download on each card
+export function OutputActions({ blob, name }: Props) {
+  const [file, setFile] = useState<File | null>(null)
+  const [shareable, setShareable] = useState(false)
+  const [status, setStatus] = useState<Status | null>(null)
+
+  // navigator.canShare only exists in the browser, so check after hydration
+  useEffect(() => {
+    const f = new File([blob], name.split("/").pop() || name, { type: blob.type })
+    setFile(f)
+    setShareable(canShareFile(f))
+    setStatus(null)
+  }, [blob, name])
+
+  useEffect(() => {
+    if (!status || status.error) return
+    const t = setTimeout(() => setStatus(null), 2500)
+    return () => clearTimeout(t)
+  }, [status])
+
+  const run = async (action: Action, work: () => Promise<string | null>) => {
+    try {
+      const message = await work()
+      setStatus(message ? { action, message } : null)
+    } catch (err: any) {
+      setStatus({ action, message: err?.message || "Not allowed by the browser", error: true })
+    }
+  }
+
+  const icon = (action: Action, Icon: typeof Share2) =>
+    status?.action === action && !status.error ? (
+      <Check className="h-4 w-4" aria-hidden />
+    ) : (
+      <Icon className="h-4 w-4" aria-hidden />
+    )
+
+  return (
+    <>
+      <div className="inline-flex items-center">
+        <Button
+          size="icon"
+          variant="ghost"
+          aria-label="Copy image"
+          title="Copy image to the clipboard"
+          onClick={() =>
+            run("image", async () => {
+              const type = await copyImage(blob)
+              return type === blob.type ? "Image copied" : "Copied as PNG (the clipboard doesn't take this format)"
+            })
+          }
+        >
+          {icon("image", ClipboardCopy)}
+        </Button>
+        {shareable && file && (
+          <Button
+            size="icon"
+            variant="ghost"
+            aria-label="Share"
+            title="Share…"
+            onClick={() => run("share", async () => ((await shareFile(file)) ? "Shared" : null))}
+          >
+            {icon("share", Share2)}
+          </Button>
+        )}
+        <Button
+          size="icon"
+          variant="ghost"
+          aria-label="Copy as data URI"
+          title="Copy as data URI (for CSS/HTML)"
+          onClick={() =>
+            run("uri", async () => {
+              const uri = await dataUri(blob)
+              await navigator.clipboard.writeText(uri)
+              return `Data URI copied (${size(uri.length)})`
+            })
+          }
+        >
+          {icon("uri", FileCode2)}
+        </Button>
+        <Button
+          size="icon"
+          variant="ghost"
+          aria-label="Copy as base64"
+          title="Copy as plain base64"
+          onClick={() =>
+            run("base64", async () => {
+              const text = (await dataUri(blob)).split(",")[1]
+              await navigator.clipboard.writeText(text)
+              return `Base64 copied (${size(text.length)})`
+            })
+          }
+        >
+          {icon("base64", Binary)}
+        </Button>
+      </div>
+      {status && (
+        <p
+          role="status"
+          className={cn("order-last w-full text-xs", status.error ? "text-destructive" : "text-muted-foreground")}
+        >
+          {status.message}
+          {!status.error && (status.action === "uri" || status.action === "base64") && blob.size > DATA_URI_WARN_BYTES
+            ? " — large for inlining; a separate file is usually better above 8 KB"
+            : null}
+        </p>
+      )}
+    </>
+  )
+}
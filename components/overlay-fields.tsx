@@ -0,0 +1,216 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Stamp, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import type { ConvertSettings } from "@/lib/engine"
+import {
+  MAX_OVERLAY_IMAGE_BYTES,
+  MIN_OVERLAY_SCALE,
+  OVERLAY_ANCHORS,
+  type OverlayAnchor,
+  type OverlayKind,
+} from "@/lib/overlay"
+import { cn } from "@/lib/utils"
+
+type Props = {
+  value: ConvertSettings
+  onChange: (patch: Partial<ConvertSettings>) => void
+}
+
+// createImageBitmap in the workers can't decode SVG, so only raster watermarks
+const WATERMARK_ACCEPT = "image/png,image/webp,image/jpeg,image/gif,image/avif"
+
+function readDataUri(file: File) {
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error ?? new Error("Could not read the file"))
+    reader.readAsDataURL(file)
+  })
+}
+
+// Watermark / caption controls for the toolbar. The overlay is part of the settings, so presets save it too.
+export function OverlayFields({ value, onChange }: Props) {
+  const fileRef = useRef<HTMLInputElement>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const upload = async (file: File | undefined) => {
+    if (!file) return
+    if (!file.type.startsWith("image/") || file.type === "image/svg+xml") {
+      setError("Use a PNG, WEBP, JPEG, GIF or AVIF watermark")
+      return
+    }
+    if (file.size > MAX_OVERLAY_IMAGE_BYTES) {
+      setError(`Watermark images are limited to ${MAX_OVERLAY_IMAGE_BYTES / 1024} KB`)
+      return
+    }
+    try {
+      onChange({ overlay: "image", overlayImage: await readDataUri(file) })
+      setError(null)
+    } catch (err: any) {
+      setError(err?.message || "Could not read the file")
+    }
+  }
+
+  return (
+    <div className="flex w-full flex-wrap items-center gap-4 border-t border-border/60 pt-3">
+      <div className="flex items-center gap-2">
+        <Stamp className="h-4 w-4 text-muted-foreground" aria-hidden />
+        <Label htmlFor="overlay" className="text-xs text-muted-foreground">
+          Watermark
+        </Label>
+        <Select value={value.overlay} onValueChange={(v) => onChange({ overlay: v as OverlayKind })}>
+          <SelectTrigger id="overlay" className="h-8 w-28">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">None</SelectItem>
+            <SelectItem value="image">Image</SelectItem>
+            <SelectItem value="text">Text</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {value.overlay === "image" && (
+        <div className="flex items-center gap-2">
+          {value.overlayImage && (
+            <img
+              src={value.overlayImage}
+              alt="Watermark"
+              className="h-8 w-8 rounded bg-[repeating-conic-gradient(#8884_0_25%,transparent_0_50%)] bg-[length:8px_8px] object-contain ring-1 ring-border/60"
+            />
+          )}
+          <input
+            ref={fileRef}
+            type="file"
+            accept={WATERMARK_ACCEPT}
+            className="hidden"
+            onChange={(e) => {
+              upload(e.target.files?.[0])
+              e.target.value = ""
+            }}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            className="inline-flex items-center gap-2"
+            onClick={() => fileRef.current?.click()}
+          >
+            <Upload className="h-4 w-4" aria-hidden />
+            {value.overlayImage ? "Replace logo" : "Upload logo"}
+          </Button>
+        </div>
+      )}
+
+      {value.overlay === "text" && (
+        <div className="flex items-center gap-2">
+          <Input
+            aria-label="Watermark text"
+            placeholder="© 2026 Your Company"
+            className="h-8 w-56"
+            maxLength={200}
+            value={value.overlayText}
+            onChange={(e) => onChange({ overlayText: e.target.value })}
+          />
+          <input
+            aria-label="Text colour"
+            type="color"
+            value={value.overlayColor}
+            onChange={(e) => onChange({ overlayColor: e.target.value })}
+            className="h-8 w-10 cursor-pointer rounded-md border border-input bg-transparent p-1"
+          />
+        </div>
+      )}
+
+      {value.overlay !== "none" && (
+        <>
+          <div className="flex items-center gap-2">
+            <span className="text-xs text-muted-foreground">Position</span>
+            <div
+              role="radiogroup"
+              aria-label="Watermark position"
+              className={cn("grid grid-cols-3 gap-0.5", value.overlayTile && "pointer-events-none opacity-40")}
+            >
+              {OVERLAY_ANCHORS.map((a) => (
+                <button
+                  key={a}
+                  type="button"
+                  role="radio"
+                  aria-checked={value.overlayAnchor === a}
+                  aria-label={a.replace("-", " ")}
+                  title={a.replace("-", " ")}
+                  onClick={() => onChange({ overlayAnchor: a as OverlayAnchor })}
+                  className={cn(
+                    "h-3 w-3 rounded-[2px] border border-border transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                    value.overlayAnchor === a ? "bg-primary" : "bg-muted hover:bg-muted-foreground/30",
+                  )}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Switch
+              id="overlay-tile"
+              checked={value.overlayTile}
+              onCheckedChange={(v) => onChange({ overlayTile: v })}
+            />
+            <Label htmlFor="overlay-tile" className="text-xs text-muted-foreground">
+              Tile
+            </Label>
+          </div>
+
+          <div className="flex min-w-[200px] flex-1 items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Size</Label>
+            <Slider
+              className="flex-1"
+              value={[value.overlayScale]}
+              min={MIN_OVERLAY_SCALE}
+              max={100}
+              onValueChange={(v) => onChange({ overlayScale: v[0] ?? 20 })}
+            />
+            <span className="w-20 text-xs tabular-nums text-muted-foreground">{value.overlayScale}% of width</span>
+          </div>
+
+          <div className="flex min-w-[160px] flex-1 items-center gap-2">
+            <Label className="text-xs text-muted-foreground">Opacity</Label>
+            <Slider
+              className="flex-1"
+              value={[value.overlayOpacity]}
+              min={0}
+              max={100}
+              onValueChange={(v) => onChange({ overlayOpacity: v[0] ?? 70 })}
+            />
+            <span className="w-9 text-xs tabular-nums text-muted-foreground">{value.overlayOpacity}%</span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="overlay-margin" className="text-xs text-muted-foreground">
+              Margin
+            </Label>
+            <Input
+              id="overlay-margin"
+              className="h-8 w-16"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              value={value.overlayMargin}
+              onChange={(e) => {
+                const n = Number.parseInt(e.target.value.replace(/[^0-9]/g, "") || "0", 10)
+                onChange({ overlayMargin: Math.min(25, n) })
+              }}
+            />
+            <span className="text-xs text-muted-foreground">%</span>
+          </div>
+        </>
+      )}
+
+      {error && <p className="w-full text-xs text-destructive">{error}</p>}
+    </div>
+  )
+}
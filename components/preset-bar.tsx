@@ -0,0 +1,227 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Bookmark, Check, Download, Pencil, Trash2, Upload, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { sameSettings, type ConvertSettings } from "@/lib/engine"
+import {
+  BUILT_IN_PRESETS,
+  exportPresets,
+  loadPresets,
+  mergePresets,
+  parsePresetsJson,
+  savePresets,
+  type Preset,
+} from "@/lib/presets"
+import { downloadBlob } from "@/lib/zip"
+
+type Props = {
+  settings: ConvertSettings
+  onApply: (settings: ConvertSettings) => void
+}
+
+export function PresetBar({ settings, onApply }: Props) {
+  const importRef = useRef<HTMLInputElement | null>(null)
+  const [presets, setPresets] = useState<Preset[]>([])
+  const [loaded, setLoaded] = useState(false)
+  const [selectedId, setSelectedId] = useState<string>("")
+  const [naming, setNaming] = useState<null | "new" | "rename">(null)
+  const [draftName, setDraftName] = useState("")
+  const [message, setMessage] = useState<string | null>(null)
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setPresets(loadPresets())
+    setLoaded(true)
+  }, [])
+
+  useEffect(() => {
+    if (loaded) savePresets(presets)
+  }, [presets, loaded])
+
+  const all = useMemo(() => [...BUILT_IN_PRESETS, ...presets], [presets])
+  const selected = all.find((p) => p.id === selectedId)
+  // the dropdown shows the preset only while the toolbar still matches it
+  const active = selected && sameSettings(selected.settings, settings) ? selected : undefined
+  const modified = !!selected && !active
+
+  const startNaming = (kind: "new" | "rename") => {
+    setNaming(kind)
+    setDraftName(kind === "rename" && selected ? selected.name : "")
+    setMessage(null)
+  }
+
+  const commitName = () => {
+    const name = draftName.trim().slice(0, 60)
+    if (!name) return
+    if (naming === "rename" && selected && !selected.builtIn) {
+      // renaming also stores the current toolbar values, which is how a preset is edited
+      setPresets((prev) => prev.map((p) => (p.id === selected.id ? { ...p, name, settings } : p)))
+    } else {
+      const existing = presets.find((p) => p.name.toLowerCase() === name.toLowerCase())
+      const id = existing?.id ?? crypto.randomUUID()
+      setPresets((prev) =>
+        existing ? prev.map((p) => (p.id === id ? { ...p, settings } : p)) : [...prev, { id, name, settings }],
+      )
+      setSelectedId(id)
+    }
+    setNaming(null)
+  }
+
+  const deleteSelected = () => {
+    if (!selected || selected.builtIn) return
+    setPresets((prev) => prev.filter((p) => p.id !== selected.id))
+    setSelectedId("")
+  }
+
+  const onImport = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      const incoming = parsePresetsJson(await file.text())
+      setPresets((prev) => mergePresets(prev, incoming))
+      setMessage(`Imported ${incoming.length} preset${incoming.length > 1 ? "s" : ""}`)
+    } catch (err: any) {
+      setMessage(err?.message || "Import failed")
+    }
+  }
+
+  return (
+    <div className="flex w-full flex-wrap items-center gap-2 border-b border-border/60 pb-3">
+      <Bookmark className="h-4 w-4 text-muted-foreground" aria-hidden />
+      <Label htmlFor="preset" className="text-xs text-muted-foreground">
+        Preset
+      </Label>
+
+      {naming ? (
+        <form
+          className="flex items-center gap-1"
+          onSubmit={(e) => {
+            e.preventDefault()
+            commitName()
+          }}
+        >
+          <Input
+            autoFocus
+            aria-label="Preset name"
+            placeholder="Preset name"
+            className="h-8 w-48"
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            onKeyDown={(e) => e.key === "Escape" && setNaming(null)}
+          />
+          <Button type="submit" size="sm" variant="outline" aria-label="Save preset" disabled={!draftName.trim()}>
+            <Check className="h-4 w-4" aria-hidden />
+          </Button>
+          <Button type="button" size="sm" variant="ghost" aria-label="Cancel" onClick={() => setNaming(null)}>
+            <X className="h-4 w-4" aria-hidden />
+          </Button>
+        </form>
+      ) : (
+        <Select
+          value={active ? active.id : ""}
+          onValueChange={(id) => {
+            const p = all.find((x) => x.id === id)
+            if (!p) return
+            setSelectedId(id)
+            setMessage(null)
+            onApply(p.settings)
+          }}
+        >
+          <SelectTrigger id="preset" className="h-8 min-w-40">
+            <SelectValue placeholder={modified ? `${selected!.name} (modified)` : "Custom"} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectGroup>
+              <SelectLabel>Built-in</SelectLabel>
+              {BUILT_IN_PRESETS.map((p) => (
+                <SelectItem key={p.id} value={p.id}>
+                  {p.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+            {presets.length > 0 && (
+              <SelectGroup>
+                <SelectLabel>Saved</SelectLabel>
+                {presets.map((p) => (
+                  <SelectItem key={p.id} value={p.id}>
+                    {p.name}
+                  </SelectItem>
+                ))}
+              </SelectGroup>
+            )}
+          </SelectContent>
+        </Select>
+      )}
+
+      {!naming && (
+        <>
+          <Button size="sm" variant="outline" onClick={() => startNaming("new")}>
+            Save as…
+          </Button>
+          {selected && !selected.builtIn && (
+            <>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => startNaming("rename")}
+                aria-label="Rename preset and update it with the current settings"
+                title="Rename / update with current settings"
+              >
+                <Pencil className="h-4 w-4" aria-hidden />
+              </Button>
+              <Button size="sm" variant="ghost" onClick={deleteSelected} aria-label="Delete preset" title="Delete">
+                <Trash2 className="h-4 w-4" aria-hidden />
+              </Button>
+            </>
+          )}
+        </>
+      )}
+
+      <div className="ml-auto flex items-center gap-1">
+        {message && <span className="mr-2 text-xs text-muted-foreground">{message}</span>}
+        <Button
+          size="sm"
+          variant="ghost"
+          disabled={presets.length === 0}
+          onClick={() =>
+            downloadBlob(new Blob([exportPresets(presets)], { type: "application/json" }), "pixify-presets.json")
+          }
+          className="inline-flex items-center gap-2"
+        >
+          <Download className="h-4 w-4" aria-hidden />
+          Export
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => {
+            if (importRef.current) importRef.current.value = ""
+            importRef.current?.click()
+          }}
+          className="inline-flex items-center gap-2"
+        >
+          <Upload className="h-4 w-4" aria-hidden />
+          Import
+        </Button>
+        <input
+          ref={importRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => onImport(e.target.files?.[0])}
+        />
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,109 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { cn } from "@/lib/utils"
+import { OUTPUT_FORMAT_OPTIONS } from "@/lib/output-formats"
+import { parseWidths, type ResponsiveSettings } from "@/lib/responsive"
+
+type Props = {
+  value: ResponsiveSettings
+  onChange: (patch: Partial<ResponsiveSettings>) => void
+}
+
+export function ResponsiveFields({ value, onChange }: Props) {
+  // keep the raw text while typing so "480, 9" isn't normalised away mid-edit
+  const [widthsText, setWidthsText] = useState(value.widths.join(", "))
+
+  useEffect(() => {
+    setWidthsText((cur) => (parseWidths(cur).join() === value.widths.join() ? cur : value.widths.join(", ")))
+  }, [value.widths])
+
+  return (
+    <div className="flex w-full flex-wrap items-center gap-4 border-t border-border/60 pt-3">
+      <div className="flex items-center gap-2">
+        <Switch id="responsive" checked={value.enabled} onCheckedChange={(v) => onChange({ enabled: v })} />
+        <Label htmlFor="responsive" className="text-xs text-muted-foreground">
+          Responsive set (srcset)
+        </Label>
+      </div>
+
+      {value.enabled && (
+        <>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="responsive-widths" className="text-xs text-muted-foreground">
+              Widths
+            </Label>
+            <Input
+              id="responsive-widths"
+              className="h-8 w-48"
+              value={widthsText}
+              onChange={(e) => {
+                setWidthsText(e.target.value)
+                const widths = parseWidths(e.target.value)
+                if (widths.length) onChange({ widths })
+              }}
+            />
+            <span className="text-xs text-muted-foreground">px</span>
+          </div>
+
+          <div className="flex items-center gap-1" role="group" aria-label="Formats">
+            {OUTPUT_FORMAT_OPTIONS.map((f) => {
+              const on = value.formats.includes(f.value)
+              return (
+                <button
+                  key={f.value}
+                  type="button"
+                  aria-pressed={on}
+                  title={f.hint}
+                  onClick={() => {
+                    const formats = on ? value.formats.filter((x) => x !== f.value) : [...value.formats, f.value]
+                    if (formats.length) onChange({ formats })
+                  }}
+                  className={cn(
+                    "rounded-md border px-2 py-1 text-xs transition-colors focus:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                    on ? "border-primary bg-primary/15 text-primary" : "border-border/60 text-muted-foreground",
+                  )}
+                >
+                  {f.label}
+                </button>
+              )
+            })}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="responsive-sizes" className="text-xs text-muted-foreground">
+              sizes
+            </Label>
+            <Input
+              id="responsive-sizes"
+              className="h-8 w-56 font-mono text-xs"
+              value={value.sizes}
+              onChange={(e) => onChange({ sizes: e.target.value })}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Label htmlFor="responsive-prefix" className="text-xs text-muted-foreground">
+              Path
+            </Label>
+            <Input
+              id="responsive-prefix"
+              placeholder="/images/"
+              className="h-8 w-32 font-mono text-xs"
+              value={value.pathPrefix}
+              onChange={(e) => onChange({ pathPrefix: e.target.value })}
+            />
+          </div>
+
+          <p className="w-full text-xs text-muted-foreground">
+            Each image is produced at every width and format using the settings above; widths larger than the source are
+            skipped.
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,153 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { Bar, BarChart, CartesianGrid, Cell, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts"
+import { BarChart3, ChevronDown, FileJson, FileSpreadsheet } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card } from "@/components/ui/card"
+import { OUTPUT_FORMATS } from "@/lib/output-formats"
+import { reportCsv, reportJson, reportTotals, savedPct, savingsDistribution, type ReportRow } from "@/lib/report"
+import { cn } from "@/lib/utils"
+import { downloadBlob } from "@/lib/zip"
+
+type Props = {
+  rows: ReportRow[]
+}
+
+function size(bytes: number) {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(2)} MB` : `${(bytes / 1024).toFixed(1)} KB`
+}
+
+function pct(value: number) {
+  return `${value >= 0 ? "−" : "+"}${Math.abs(value).toFixed(1)}%`
+}
+
+// Batch summary for the converted files: totals, a savings histogram and a per-file table with CSV/JSON export
+export function SavingsReport({ rows }: Props) {
+  const [open, setOpen] = useState(false)
+  const totals = useMemo(() => reportTotals(rows), [rows])
+  const distribution = useMemo(() => savingsDistribution(rows), [rows])
+  const stamp = new Date().toISOString().slice(0, 10)
+
+  return (
+    <Card className="border border-border/60 bg-card/70 p-4 backdrop-blur">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+        <button
+          type="button"
+          aria-expanded={open}
+          onClick={() => setOpen((v) => !v)}
+          className="inline-flex items-center gap-2 rounded-md text-sm font-medium focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+        >
+          <BarChart3 className="h-4 w-4 text-muted-foreground" aria-hidden />
+          Savings report
+          <ChevronDown className={cn("h-4 w-4 transition-transform", open && "rotate-180")} aria-hidden />
+        </button>
+        <p className="text-sm tabular-nums text-muted-foreground">
+          {totals.files} file{totals.files === 1 ? "" : "s"} • {size(totals.originalBytes)} → {size(totals.outputBytes)}{" "}
+          •{" "}
+          <span className={cn("font-medium", totals.savedBytes >= 0 ? "text-green-600" : "text-destructive")}>
+            {totals.savedBytes >= 0 ? "saved" : "grew by"} {size(Math.abs(totals.savedBytes))} ({pct(totals.savedPct)})
+          </span>
+          {totals.missed ? ` • ${totals.missed} missed target` : null}
+        </p>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              downloadBlob(new Blob([reportCsv(rows)], { type: "text/csv" }), `pixify-report-${stamp}.csv`)
+            }
+            className="inline-flex items-center gap-2"
+          >
+            <FileSpreadsheet className="h-4 w-4" aria-hidden />
+            CSV
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              downloadBlob(new Blob([reportJson(rows)], { type: "application/json" }), `pixify-report-${stamp}.json`)
+            }
+            className="inline-flex items-center gap-2"
+          >
+            <FileJson className="h-4 w-4" aria-hidden />
+            JSON
+          </Button>
+        </div>
+      </div>
+
+      {open && (
+        <div className="mt-4 grid gap-4">
+          <div className="h-48 w-full" aria-label="Files by percentage saved" role="img">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={distribution} margin={{ top: 4, right: 8, bottom: 0, left: -24 }}>
+                <CartesianGrid vertical={false} strokeDasharray="3 3" className="stroke-border" />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} fontSize={11} />
+                <YAxis allowDecimals={false} tickLine={false} axisLine={false} fontSize={11} />
+                <Tooltip
+                  cursor={{ fillOpacity: 0.1 }}
+                  formatter={(value) => [value, "Files"]}
+                  contentStyle={{ fontSize: 12, borderRadius: 8 }}
+                />
+                <Bar dataKey="files" radius={[4, 4, 0, 0]}>
+                  {distribution.map((d, i) => (
+                    <Cell key={d.label} fill={i === 0 ? "var(--destructive)" : "var(--chart-2)"} />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="max-h-80 overflow-auto rounded-md border border-border/60">
+            <table className="w-full text-xs tabular-nums">
+              <thead className="sticky top-0 bg-muted/80 text-left text-muted-foreground backdrop-blur">
+                <tr>
+                  <th className="px-2 py-1.5 font-medium">File</th>
+                  <th className="px-2 py-1.5 font-medium">Output</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Original</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Output size</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Saved</th>
+                  <th className="px-2 py-1.5 font-medium">Dimensions</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Quality</th>
+                  <th className="px-2 py-1.5 text-right font-medium">Scale</th>
+                  <th className="px-2 py-1.5 font-medium">Target</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r, i) => {
+                  const saved = savedPct(r.originalBytes, r.outputBytes)
+                  return (
+                    <tr key={`${r.source}-${i}`} className="border-t border-border/40">
+                      <td className="max-w-40 truncate px-2 py-1.5" title={r.source}>
+                        {r.source}
+                      </td>
+                      <td className="px-2 py-1.5 text-muted-foreground">
+                        {OUTPUT_FORMATS[r.format].label}
+                        {r.variants > 1 ? ` (+${r.variants - 1})` : null}
+                      </td>
+                      <td className="px-2 py-1.5 text-right">{size(r.originalBytes)}</td>
+                      <td className="px-2 py-1.5 text-right">{size(r.outputBytes)}</td>
+                      <td className={cn("px-2 py-1.5 text-right", saved < 0 && "text-destructive")}>{pct(saved)}</td>
+                      <td className="px-2 py-1.5">{r.width && r.height ? `${r.width}×${r.height}` : "—"}</td>
+                      <td className="px-2 py-1.5 text-right">{r.qualityPct !== null ? `${r.qualityPct}%` : "—"}</td>
+                      <td className="px-2 py-1.5 text-right">{r.scalePct !== null ? `${r.scalePct}%` : "—"}</td>
+                      <td
+                        className={cn(
+                          "px-2 py-1.5",
+                          r.targetMet === true && "text-green-600",
+                          r.targetMet === false && "text-destructive",
+                        )}
+                      >
+                        {r.targetMet === null ? "—" : r.targetMet ? "Met" : "Missed"}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </Card>
+  )
+}
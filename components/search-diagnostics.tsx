@@ -0,0 +1,59 @@
+"use client"
+
+import { useState } from "react"
+import { Activity, ChevronDown } from "lucide-react"
+import type { ConvertDiagnostics } from "@/lib/engine"
+import { cn } from "@/lib/utils"
+
+type Props = {
+  diagnostics: ConvertDiagnostics
+  // size cap of the search, to mark which probes fit
+  capKB?: number
+}
+
+// How the search got to the output: encode count, time and every probe in the order it was tried
+export function SearchDiagnostics({ diagnostics, capKB }: Props) {
+  const [open, setOpen] = useState(false)
+  const { encodes, cacheHits, elapsedMs, probes } = diagnostics
+  const proxies = probes.filter((p) => p.proxy).length
+
+  return (
+    <div className="mt-2 text-xs text-muted-foreground">
+      <button
+        type="button"
+        aria-expanded={open}
+        onClick={() => setOpen((v) => !v)}
+        className="inline-flex items-center gap-1.5 rounded-md tabular-nums focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+      >
+        <Activity className="h-3.5 w-3.5" aria-hidden />
+        {encodes} encode{encodes === 1 ? "" : "s"}
+        {proxies ? ` (${proxies} on a preview)` : null}
+        {cacheHits ? ` • ${cacheHits} reused` : null} •{" "}
+        {elapsedMs < 1000 ? `${elapsedMs} ms` : `${(elapsedMs / 1000).toFixed(1)} s`}
+        <ChevronDown className={cn("h-3.5 w-3.5 transition-transform", open && "rotate-180")} aria-hidden />
+      </button>
+      {open && (
+        <ol className="mt-1 grid max-h-40 gap-0.5 overflow-auto rounded-md bg-muted/60 p-2 text-[11px] tabular-nums">
+          {probes.map((p, i) => {
+            const kb = p.bytes / 1024
+            const fits = capKB === undefined || p.proxy ? null : kb <= capKB
+            return (
+              <li key={i} className="flex gap-3">
+                <span className="w-5 text-right">{i + 1}.</span>
+                <span className="w-16">q {Math.round(p.q * 100)}%</span>
+                <span className="w-20">scale {Math.round(p.scale * 100)}%</span>
+                <span className="w-20">{kb.toFixed(1)} KB</span>
+                {typeof p.ssim === "number" && <span className="w-20">SSIM {p.ssim.toFixed(3)}</span>}
+                {p.proxy ? (
+                  <span>preview</span>
+                ) : fits === null ? null : (
+                  <span className={fits ? "text-green-600" : "text-destructive"}>{fits ? "fits" : "over cap"}</span>
+                )}
+              </li>
+            )
+          })}
+        </ol>
+      )}
+    </div>
+  )
+}
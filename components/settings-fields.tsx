@@ -0,0 +1,467 @@
+"use client"
+
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import type { ConvertMode, ConvertSettings, SizeStrategy } from "@/lib/engine"
+import type { ColorProfilePolicy, MetadataPolicy } from "@/lib/metadata"
+import {
+  OUTPUT_FORMATS,
+  OUTPUT_FORMAT_OPTIONS,
+  isLossy,
+  type AlphaPolicy,
+  type OutputFormat,
+  type WebpMode,
+} from "@/lib/output-formats"
+import { RESAMPLE_FILTERS, type ResampleFilter } from "@/lib/resample"
+import { MAX_DIMENSION, type FitMode, type ResizeMode } from "@/lib/resize"
+
+type Props = {
+  value: ConvertSettings
+  onChange: (patch: Partial<ConvertSettings>) => void
+  // keeps element ids unique when several editors are on the page (toolbar + per-item cards)
+  idPrefix?: string
+}
+
+function parseKB(raw: string) {
+  const n = Number.parseInt(raw.replace(/[^0-9]/g, "") || "0", 10)
+  return Number.isFinite(n) ? n : 300
+}
+
+function parsePx(raw: string) {
+  const n = Number.parseInt(raw.replace(/[^0-9]/g, "") || "0", 10)
+  return Number.isFinite(n) ? Math.min(n, MAX_DIMENSION) : 0
+}
+
+// frame-rate caps for animated sources; dropping frames is the biggest saving on long animations
+const ANIMATION_FPS = [0, 30, 24, 15, 10, 5]
+
+const SIZE_STRATEGIES: { value: SizeStrategy; label: string; hint: string }[] = [
+  { value: "quality-first", label: "Full size first", hint: "Fastest: shrinks only when no quality fits the cap" },
+  { value: "resolution", label: "Prefer resolution", hint: "Tries smaller sizes too; keeps as many pixels as it can" },
+  {
+    value: "balanced",
+    label: "Balanced",
+    hint: "Tries smaller sizes too; weighs pixels against compression artefacts",
+  },
+  {
+    value: "sharpness",
+    label: "Prefer sharpness",
+    hint: "Tries smaller sizes too; avoids compression artefacts first",
+  },
+]
+
+const FILTER_LABELS: Record<ResampleFilter, string> = {
+  lanczos3: "Lanczos3 (sharp)",
+  mitchell: "Mitchell (smooth)",
+  bilinear: "Bilinear",
+  nearest: "Nearest (pixel art)",
+}
+
+const SSIM_PRESETS = [
+  { label: "Good", value: 0.95 },
+  { label: "High", value: 0.98 },
+  { label: "Near-lossless", value: 0.99 },
+]
+
+// Format, mode and the mode-specific controls. Rendered as a fragment so it flows into the parent's flex row.
+export function SettingsFields({ value, onChange, idPrefix = "" }: Props) {
+  const { format, mode, qualityPct, maxSizeKB, allowUpscale, resize } = value
+
+  const qualityControl = (
+    <>
+      <Label className="text-xs text-muted-foreground">Quality</Label>
+      <div className="min-w-[160px] flex-1">
+        <Slider value={[qualityPct]} min={1} max={100} onValueChange={(v) => onChange({ qualityPct: v[0] ?? 90 })} />
+      </div>
+      <div className="flex items-center gap-1">
+        {[40, 60, 80, 90].map((q) => (
+          <Button key={q} size="sm" variant="outline" onClick={() => onChange({ qualityPct: q })}>
+            {q}%
+          </Button>
+        ))}
+      </div>
+      <div className="text-xs tabular-nums text-muted-foreground">{qualityPct}%</div>
+    </>
+  )
+
+  const ssimControl = (
+    <>
+      <Label className="text-xs text-muted-foreground">Min SSIM</Label>
+      <div className="min-w-[160px] flex-1">
+        <Slider
+          value={[value.targetSsim]}
+          min={0.85}
+          max={0.995}
+          step={0.005}
+          onValueChange={(v) => onChange({ targetSsim: v[0] ?? 0.98 })}
+        />
+      </div>
+      <div className="flex items-center gap-1">
+        {SSIM_PRESETS.map((p) => (
+          <Button key={p.value} size="sm" variant="outline" onClick={() => onChange({ targetSsim: p.value })}>
+            {p.label}
+          </Button>
+        ))}
+      </div>
+      <div className="text-xs tabular-nums text-muted-foreground">{value.targetSsim.toFixed(3)}</div>
+    </>
+  )
+
+  const sizeControl = (id: string) => (
+    <div className="flex items-center gap-2">
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        Max Size
+      </Label>
+      <Input
+        id={id}
+        className="h-8 w-28"
+        inputMode="numeric"
+        pattern="[0-9]*"
+        value={maxSizeKB}
+        onChange={(e) => onChange({ maxSizeKB: parseKB(e.target.value) })}
+      />
+      <span className="text-xs text-muted-foreground">KB</span>
+    </div>
+  )
+
+  const upscaleControl = (id: string) => (
+    <div className="flex items-center gap-2">
+      <Switch id={id} checked={allowUpscale} onCheckedChange={(v) => onChange({ allowUpscale: v })} />
+      <Label htmlFor={id} className="text-xs text-muted-foreground">
+        Aim near cap (can upscale)
+      </Label>
+    </div>
+  )
+
+  return (
+    <>
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`${idPrefix}format`} className="text-xs text-muted-foreground">
+          Format
+        </Label>
+        <Select value={format} onValueChange={(v) => onChange({ format: v as OutputFormat })}>
+          <SelectTrigger id={`${idPrefix}format`} className="h-8">
+            <SelectValue placeholder="Select format" />
+          </SelectTrigger>
+          <SelectContent>
+            {OUTPUT_FORMAT_OPTIONS.map((f) => (
+              <SelectItem key={f.value} value={f.value} title={f.hint}>
+                {f.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {format === "webp" && (
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}webp-mode`} className="text-xs text-muted-foreground">
+            Encoding
+          </Label>
+          <Select value={value.webpMode} onValueChange={(v) => onChange({ webpMode: v as WebpMode })}>
+            <SelectTrigger id={`${idPrefix}webp-mode`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="lossy">Lossy</SelectItem>
+              <SelectItem value="near-lossless" title="Lossless bitstream; quality sets how much pixels may shift">
+                Near-lossless
+              </SelectItem>
+              <SelectItem value="lossless" title="Exact pixels: best for logos, UI screenshots and line art">
+                Lossless
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <Label htmlFor={`${idPrefix}animation-fps`} className="text-xs text-muted-foreground">
+            Animation
+          </Label>
+          <Select value={String(value.animationFps)} onValueChange={(v) => onChange({ animationFps: Number(v) })}>
+            <SelectTrigger
+              id={`${idPrefix}animation-fps`}
+              className="h-8"
+              title="Frame rate for animated GIF / APNG sources"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANIMATION_FPS.map((fps) => (
+                <SelectItem key={fps} value={String(fps)}>
+                  {fps ? `Up to ${fps} fps` : "All frames"}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Label htmlFor={`${idPrefix}mode`} className="text-xs text-muted-foreground">
+          Mode
+        </Label>
+        <Select value={mode} onValueChange={(v) => onChange({ mode: v as ConvertMode })}>
+          <SelectTrigger id={`${idPrefix}mode`} className="h-8">
+            <SelectValue placeholder="Select mode" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="auto">Auto</SelectItem>
+            <SelectItem value="quality">By Quality</SelectItem>
+            <SelectItem value="size">By Max Size</SelectItem>
+            <SelectItem value="both">Quality + Max Size</SelectItem>
+            <SelectItem value="visual">Target Visual Quality</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {mode === "quality" && <div className="flex flex-1 items-center gap-3">{qualityControl}</div>}
+
+      {mode === "size" && (
+        <div className="flex flex-wrap items-center gap-4">
+          {sizeControl(`${idPrefix}maxkb`)}
+          {upscaleControl(`${idPrefix}upscale-size`)}
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}size-strategy`} className="text-xs text-muted-foreground">
+              Trade-off
+            </Label>
+            <Select value={value.sizeStrategy} onValueChange={(v) => onChange({ sizeStrategy: v as SizeStrategy })}>
+              <SelectTrigger id={`${idPrefix}size-strategy`} className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SIZE_STRATEGIES.map((s) => (
+                  <SelectItem key={s.value} value={s.value} title={s.hint}>
+                    {s.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+
+      {mode === "both" && (
+        <div className="flex flex-1 flex-wrap items-center gap-4">
+          <div className="flex flex-1 items-center gap-3">{qualityControl}</div>
+          {sizeControl(`${idPrefix}maxkb-both`)}
+          {upscaleControl(`${idPrefix}upscale-both`)}
+
+          <p className="text-xs text-muted-foreground">
+            Keeps your selected quality and automatically resizes to stay close to the max size (never exceeding it).
+          </p>
+        </div>
+      )}
+
+      {mode === "visual" && (
+        <div className="flex flex-1 flex-wrap items-center gap-3">
+          {ssimControl}
+          <p className="w-full text-xs text-muted-foreground">
+            Finds the smallest file that still looks this close to the original, measured per image.
+          </p>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}resize`} className="text-xs text-muted-foreground">
+            Resize
+          </Label>
+          <Select value={resize} onValueChange={(v) => onChange({ resize: v as ResizeMode })}>
+            <SelectTrigger id={`${idPrefix}resize`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">Original size</SelectItem>
+              <SelectItem value="max-edge">Longest edge</SelectItem>
+              <SelectItem value="exact">Exact size</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {resize === "max-edge" && (
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Longest edge"
+              className="h-8 w-20"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              value={value.resizeMaxEdge}
+              onChange={(e) => onChange({ resizeMaxEdge: Math.max(1, parsePx(e.target.value)) })}
+            />
+            <span className="text-xs text-muted-foreground">px</span>
+          </div>
+        )}
+
+        {resize === "exact" && (
+          <div className="flex items-center gap-2">
+            <Input
+              aria-label="Width"
+              placeholder="auto"
+              className="h-8 w-20"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              value={value.resizeWidth || ""}
+              onChange={(e) => onChange({ resizeWidth: parsePx(e.target.value) })}
+            />
+            <span className="text-xs text-muted-foreground">×</span>
+            <Input
+              aria-label="Height"
+              placeholder="auto"
+              className="h-8 w-20"
+              inputMode="numeric"
+              pattern="[0-9]*"
+              value={value.resizeHeight || ""}
+              onChange={(e) => onChange({ resizeHeight: parsePx(e.target.value) })}
+            />
+            <span className="text-xs text-muted-foreground">px</span>
+            <Select value={value.resizeFit} onValueChange={(v) => onChange({ resizeFit: v as FitMode })}>
+              <SelectTrigger aria-label="Fit" className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="contain">Contain</SelectItem>
+                <SelectItem value="cover">Cover (crop)</SelectItem>
+                <SelectItem value="stretch">Stretch</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {resize !== "none" && (
+          <div className="flex items-center gap-2">
+            <Switch
+              id={`${idPrefix}no-upscale`}
+              checked={value.noUpscale}
+              onCheckedChange={(v) => onChange({ noUpscale: v })}
+            />
+            <Label htmlFor={`${idPrefix}no-upscale`} className="text-xs text-muted-foreground">
+              Never upscale
+            </Label>
+          </div>
+        )}
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}filter`} className="text-xs text-muted-foreground">
+            Filter
+          </Label>
+          <Select value={value.resampleFilter} onValueChange={(v) => onChange({ resampleFilter: v as ResampleFilter })}>
+            <SelectTrigger id={`${idPrefix}filter`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESAMPLE_FILTERS.map((f) => (
+                <SelectItem key={f} value={f}>
+                  {FILTER_LABELS[f]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label className="text-xs text-muted-foreground">Sharpen</Label>
+          <div className="w-24">
+            <Slider
+              value={[value.sharpen]}
+              min={0}
+              max={100}
+              step={5}
+              onValueChange={(v) => onChange({ sharpen: v[0] ?? 0 })}
+            />
+          </div>
+          <div className="text-xs tabular-nums text-muted-foreground">
+            {value.sharpen ? `${value.sharpen}%` : "Off"}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}metadata`} className="text-xs text-muted-foreground">
+            Metadata
+          </Label>
+          <Select value={value.metadata} onValueChange={(v) => onChange({ metadata: v as MetadataPolicy })}>
+            <SelectTrigger id={`${idPrefix}metadata`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="strip">Strip all</SelectItem>
+              <SelectItem value="copyright">Keep copyright &amp; author</SelectItem>
+              <SelectItem value="all">Keep all</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Label htmlFor={`${idPrefix}color`} className="text-xs text-muted-foreground">
+            Colour
+          </Label>
+          <Select value={value.colorProfile} onValueChange={(v) => onChange({ colorProfile: v as ColorProfilePolicy })}>
+            <SelectTrigger id={`${idPrefix}color`} className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="srgb">Convert to sRGB</SelectItem>
+              <SelectItem value="keep" title="Keeps wide-gamut sources such as Display P3 wide">
+                Keep source profile
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {format === "avif" && (value.metadata !== "strip" || value.colorProfile === "keep") && (
+          <p className="text-xs text-muted-foreground">
+            AVIF output carries no metadata or colour profile, so it is always converted to sRGB.
+          </p>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3">
+        {OUTPUT_FORMATS[format].alpha ? (
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}alpha`} className="text-xs text-muted-foreground">
+              Transparency
+            </Label>
+            <Select value={value.alpha} onValueChange={(v) => onChange({ alpha: v as AlphaPolicy })}>
+              <SelectTrigger id={`${idPrefix}alpha`} className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="keep">Keep</SelectItem>
+                <SelectItem value="clean" title="Zero the colour of invisible pixels so they compress better">
+                  Keep, clean hidden pixels
+                </SelectItem>
+                <SelectItem value="flatten">Flatten onto colour</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">{OUTPUT_FORMATS[format].label} has no transparency:</span>
+        )}
+        {(value.alpha === "flatten" || !OUTPUT_FORMATS[format].alpha) && (
+          <div className="flex items-center gap-2">
+            <Label htmlFor={`${idPrefix}background`} className="text-xs text-muted-foreground">
+              Background
+            </Label>
+            <input
+              id={`${idPrefix}background`}
+              type="color"
+              value={value.background}
+              onChange={(e) => onChange({ background: e.target.value })}
+              className="h-8 w-10 cursor-pointer rounded-md border border-input bg-transparent p-1"
+            />
+          </div>
+        )}
+      </div>
+
+      {!isLossy(format, value.webpMode) && (mode === "quality" || mode === "both") && (
+        <p className="w-full text-xs text-muted-foreground">
+          {format === "webp" ? "Lossless WEBP" : OUTPUT_FORMATS[format].label} is lossless, so quality has no effect;
+          only the scale changes the size.
+        </p>
+      )}
+    </>
+  )
+}
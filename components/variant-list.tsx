@@ -0,0 +1,53 @@
+"use client"
+
+import { useState } from "react"
+import { Check, Code2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { OUTPUT_FORMATS } from "@/lib/output-formats"
+import type { Variant } from "@/lib/responsive"
+import { downloadBlob } from "@/lib/zip"
+
+type Props = {
+  variants: Variant[]
+  snippet: string
+}
+
+// Per-width outputs of a responsive set, plus the markup that references them
+export function VariantList({ variants, snippet }: Props) {
+  const [copied, setCopied] = useState(false)
+
+  return (
+    <div className="mt-3 grid gap-2">
+      <ul className="flex flex-wrap gap-1">
+        {variants.map((v) => (
+          <li key={v.name}>
+            <button
+              type="button"
+              title={`Download ${v.name}`}
+              onClick={() => downloadBlob(v.blob, v.name)}
+              className="rounded-md border border-border/60 px-2 py-0.5 text-[11px] tabular-nums text-muted-foreground transition-colors hover:bg-muted hover:text-foreground"
+            >
+              {v.width}w {OUTPUT_FORMATS[v.format].label} • {(v.blob.size / 1024).toFixed(1)} KB
+            </button>
+          </li>
+        ))}
+      </ul>
+      <pre className="max-h-40 overflow-auto rounded-md bg-muted/60 p-2 text-[11px] leading-snug">
+        <code>{snippet}</code>
+      </pre>
+      <Button
+        size="sm"
+        variant="outline"
+        className="inline-flex w-fit items-center gap-2"
+        onClick={async () => {
+          await navigator.clipboard.writeText(snippet)
+          setCopied(true)
+          setTimeout(() => setCopied(false), 1500)
+        }}
+      >
+        {copied ? <Check className="h-4 w-4" aria-hidden /> : <Code2 className="h-4 w-4" aria-hidden />}
+        {copied ? "Copied" : "Copy HTML"}
+      </Button>
+    </div>
+  )
+}
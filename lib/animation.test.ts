@@ -0,0 +1,265 @@
+import { describe, expect, it } from "vitest"
+import { decodeAnimation, muxAnimatedWebp, parseApng, parseGif } from "@/lib/animation"
+import { DEFAULT_SETTINGS, convertBlob, type EncoderBackend } from "@/lib/engine"
+import { concat, latin1, pngChunk, riffChunk, u32leBytes, webpChunks } from "@/lib/metadata"
+
+// frames cover the whole canvas unless they give their own size
+type GifTestFrame = {
+  indices: number[]
+  delayCs: number
+  transparent?: number
+  dispose?: number
+  width?: number
+  height?: number
+}
+
+// Black, red, green, blue
+const PALETTE = [0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255]
+
+// 3-bit LZW codes with a clear code before every pair of pixels, so the code table never grows past 3 bits
+function lzw(indices: number[]) {
+  const codes: number[] = []
+  for (let i = 0; i < indices.length; i += 2) codes.push(4, ...indices.slice(i, i + 2))
+  codes.push(5)
+  const out: number[] = []
+  let acc = 0
+  let bits = 0
+  for (const code of codes) {
+    acc |= code << bits
+    bits += 3
+    while (bits >= 8) {
+      out.push(acc & 0xff)
+      acc >>= 8
+      bits -= 8
+    }
+  }
+  if (bits) out.push(acc)
+  return out
+}
+
+function gif(width: number, height: number, frames: GifTestFrame[], repeats?: number) {
+  const u16 = (n: number) => [n & 0xff, n >> 8]
+  const bytes = [...latin1("GIF89a"), ...u16(width), ...u16(height), 0x81, 0, 0, ...PALETTE]
+  if (repeats !== undefined) bytes.push(0x21, 0xff, 11, ...latin1("NETSCAPE2.0"), 3, 1, repeats, 0, 0)
+  for (const f of frames) {
+    const flags = ((f.dispose ?? 0) << 2) | (f.transparent !== undefined ? 1 : 0)
+    bytes.push(0x21, 0xf9, 4, flags, f.delayCs, 0, f.transparent ?? 0, 0)
+    const data = lzw(f.indices)
+    bytes.push(0x2c, 0, 0, 0, 0, ...u16(f.width ?? width), ...u16(f.height ?? height), 0, 2)
+    for (let i = 0; i < data.length; i += 255) bytes.push(Math.min(255, data.length - i), ...data.slice(i, i + 255))
+    bytes.push(0)
+  }
+  bytes.push(0x3b)
+  return new Uint8Array(bytes)
+}
+
+// Still WEBP as a lossless encoder would write it, with the VP8L alpha bit set
+function stillWebp(payloadBytes: number) {
+  const vp8l = new Uint8Array(Math.max(5, payloadBytes))
+  vp8l[0] = 0x2f
+  vp8l[4] = 0x10
+  return concat([latin1("RIFF"), u32leBytes(vp8l.length + 12), latin1("WEBP"), riffChunk("VP8L", vp8l)])
+}
+
+type FakeImage = { width: number; height: number; data?: Uint8ClampedArray }
+
+// Keeps frame pixels; encodes to WEBP-shaped files whose size grows with pixel count and quality
+function fakeBackend(): EncoderBackend<FakeImage> {
+  return {
+    async decode() {
+      throw new Error("not used")
+    },
+    async resize(img, width, height) {
+      return { width, height }
+    },
+    async orient(img) {
+      return img
+    },
+    async renderText() {
+      return { width: 1, height: 1 }
+    },
+    async composite(img) {
+      return img
+    },
+    async encode(img, format, q) {
+      return new Blob([stillWebp(Math.ceil(img.width * img.height * q))], { type: "image/webp" })
+    },
+    async pixels(img) {
+      return {
+        width: img.width,
+        height: img.height,
+        data: img.data ?? new Uint8ClampedArray(img.width * img.height * 4),
+      }
+    },
+    async fromPixels(pixels) {
+      return pixels
+    },
+  }
+}
+
+const rgbaOf = (img: FakeImage) => Array.from(img.data!)
+
+describe("parseGif", () => {
+  it("reads frames, delays and the loop count", () => {
+    const source = parseGif(
+      gif(
+        2,
+        1,
+        [
+          { indices: [1, 2], delayCs: 5 },
+          { indices: [3, 3], delayCs: 0 },
+        ],
+        2,
+      ),
+    )!
+    expect(source.loopCount).toBe(3)
+    expect(source.frames.map((f) => f.delayMs)).toEqual([50, 100])
+    expect(Array.from(source.frames[0].pixels())).toEqual([255, 0, 0, 255, 0, 255, 0, 255])
+  })
+
+  it("plays once without a NETSCAPE block and ignores other files", () => {
+    expect(parseGif(gif(1, 1, [{ indices: [1], delayCs: 10 }]))!.loopCount).toBe(1)
+    expect(parseGif(latin1("\x89PNG\r\n\x1a\n"))).toBeNull()
+  })
+})
+
+describe("decodeAnimation", () => {
+  it("composites transparent pixels and disposal onto the canvas", async () => {
+    const bytes = gif(2, 1, [
+      { indices: [1, 2], delayCs: 10 },
+      // keeps the left pixel from the frame before, then clears to transparent
+      { indices: [0, 3], delayCs: 10, transparent: 0, dispose: 2 },
+      { indices: [0, 1], delayCs: 10, transparent: 0 },
+    ])
+    const a = (await decodeAnimation(new Blob([bytes]), fakeBackend()))!
+    expect(a.frames.map(rgbaOf)).toEqual([
+      [255, 0, 0, 255, 0, 255, 0, 255],
+      [255, 0, 0, 255, 0, 0, 255, 255],
+      [0, 0, 0, 0, 255, 0, 0, 255],
+    ])
+    expect(a.delays).toEqual([100, 100, 100])
+  })
+
+  it("merges repeated frames and drops frames above the frame-rate cap", async () => {
+    const frames = [1, 1, 2, 3, 2, 1].map((c) => ({ indices: [c], delayCs: 10 }))
+    const merged = (await decodeAnimation(new Blob([gif(1, 1, frames)]), fakeBackend()))!
+    expect(merged.delays).toEqual([200, 100, 100, 100, 100])
+
+    const capped = (await decodeAnimation(new Blob([gif(1, 1, frames)]), fakeBackend(), { maxFps: 4 }))!
+    // 250 ms slots: frames at 0, 300 and 500 ms are kept, the total stays 600 ms
+    expect(capped.delays).toEqual([300, 200, 100])
+  })
+
+  it("returns null for still images", async () => {
+    expect(await decodeAnimation(new Blob([gif(1, 1, [{ indices: [1], delayCs: 10 }])]), fakeBackend())).toBeNull()
+  })
+})
+
+describe("parseApng", () => {
+  const u32be = (n: number) => [(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff]
+  const fctl = (seq: number, w: number, h: number, x: number, y: number, blend: number) =>
+    pngChunk(
+      "fcTL",
+      new Uint8Array([...u32be(seq), ...u32be(w), ...u32be(h), ...u32be(x), ...u32be(y), 0, 1, 0, 20, 0, blend]),
+    )
+
+  it("splits frames into standalone PNGs and skips the default image", () => {
+    const ihdr = new Uint8Array([...u32be(4), ...u32be(3), 8, 6, 0, 0, 0])
+    const apng = concat([
+      latin1("\x89PNG\r\n\x1a\n"),
+      pngChunk("IHDR", ihdr),
+      pngChunk("acTL", new Uint8Array([...u32be(2), ...u32be(0)])),
+      pngChunk("gAMA", new Uint8Array(u32be(45455))),
+      pngChunk("IDAT", latin1("fallback")),
+      fctl(0, 4, 3, 0, 0, 0),
+      pngChunk("fdAT", concat([new Uint8Array(u32be(1)), latin1("one")])),
+      fctl(2, 2, 1, 1, 2, 1),
+      pngChunk("fdAT", concat([new Uint8Array(u32be(3)), latin1("two")])),
+      pngChunk("IEND", new Uint8Array()),
+    ])
+    const source = parseApng(apng)!
+    expect(source).toMatchObject({ width: 4, height: 3, loopCount: 0 })
+    expect(source.frames.map(({ png, ...control }) => control)).toEqual([
+      { width: 4, height: 3, x: 0, y: 0, delayMs: 50, dispose: "none", blend: "source" },
+      { width: 2, height: 1, x: 1, y: 2, delayMs: 50, dispose: "none", blend: "over" },
+    ])
+    const second = source.frames[1].png
+    const text = String.fromCharCode(...second)
+    expect(text).toContain("gAMA")
+    expect(text).toContain("IDATtwo")
+    expect(text).not.toContain("fallback")
+    // IHDR carries the frame size
+    expect(Array.from(second.subarray(16, 24))).toEqual([...u32be(2), ...u32be(1)])
+  })
+
+  it("treats a PNG without acTL as still", () => {
+    const png = concat([
+      latin1("\x89PNG\r\n\x1a\n"),
+      pngChunk("IHDR", new Uint8Array(13)),
+      pngChunk("IEND", new Uint8Array()),
+    ])
+    expect(parseApng(png)).toBeNull()
+  })
+})
+
+describe("animated WEBP", () => {
+  it("muxes frames with their durations and the loop count", () => {
+    const bytes = muxAnimatedWebp(
+      [
+        { webp: stillWebp(8), delayMs: 120 },
+        { webp: stillWebp(9), delayMs: 80 },
+      ],
+      300,
+      200,
+      2,
+    )
+    const chunks = webpChunks(bytes)
+    expect(chunks.map((c) => c.fourcc)).toEqual(["VP8X", "ANIM", "ANMF", "ANMF"])
+    // animation + alpha flags, canvas size minus one
+    expect(Array.from(chunks[0].data)).toEqual([0x12, 0, 0, 0, 43, 1, 0, 199, 0, 0])
+    expect(chunks[1].data[4]).toBe(2)
+    const anmf = chunks[2].data
+    expect(anmf[12] | (anmf[13] << 8)).toBe(120)
+    expect(String.fromCharCode(...anmf.subarray(16, 20))).toBe("VP8L")
+    // odd-sized chunks are padded, and the RIFF size covers the whole file
+    expect(bytes[4] | (bytes[5] << 8) | (bytes[6] << 16)).toBe(bytes.length - 8)
+  })
+
+  it("fits a whole animation under the size cap", async () => {
+    const frames = [1, 2, 3].map((c) => ({ indices: Array(64 * 64).fill(c), delayCs: 10 }))
+    const bytes = gif(64, 64, frames)
+    const res = await convertBlob(
+      new Blob([bytes]),
+      { ...DEFAULT_SETTINGS, mode: "size", maxSizeKB: 6 },
+      {
+        backend: fakeBackend(),
+      },
+    )
+    expect(res.animation).toEqual({ frames: 3, durationMs: 300, loopCount: 1 })
+    expect(res.blob.size).toBeLessThanOrEqual(6 * 1024)
+    expect(webpChunks(new Uint8Array(await res.blob.arrayBuffer())).filter((c) => c.fourcc === "ANMF")).toHaveLength(3)
+  })
+
+  it("keeps only the first frame for formats that can't animate", async () => {
+    const bytes = gif(
+      2,
+      2,
+      [1, 2].map((c) => ({ indices: [c, c, c, c], delayCs: 10 })),
+    )
+    const res = await convertBlob(new Blob([bytes]), { ...DEFAULT_SETTINGS, format: "png" }, { backend: fakeBackend() })
+    expect(res.firstFrameOnly).toBe(true)
+    expect(res.animation).toBeUndefined()
+  })
+
+  it("converts only the first frame of an animation too large to animate", async () => {
+    // 8 MP canvas × 13 frames is over MAX_ANIMATION_PIXELS; small frames keep the file tiny
+    const frames = Array.from({ length: 13 }, (_, i) => ({ indices: [1 + (i % 3)], delayCs: 10, width: 1, height: 1 }))
+    const bytes = gif(4000, 2000, frames)
+    const settings = { ...DEFAULT_SETTINGS, format: "jpeg" as const, mode: "quality" as const }
+    const res = await convertBlob(new Blob([bytes]), settings, { backend: fakeBackend() })
+    expect(res.firstFrameOnly).toBe(true)
+    expect([res.width, res.height]).toEqual([4000, 2000])
+
+    await expect(decodeAnimation(new Blob([bytes]), fakeBackend())).rejects.toThrow("too large")
+  })
+})
@@ -0,0 +1,529 @@
+import type { DecodeOptions, EncoderBackend, PixelData, Raster } from "@/lib/engine"
+import { concat, latin1, pngChunk, pngChunks, riffChunk, u32leBytes, webpChunks } from "@/lib/metadata"
+
+// Animated GIF and APNG input. Browsers (and createImageBitmap) only hand out the first frame, so the frames are
+// read here: GIF is decoded in full, APNG frames are split into standalone PNGs for the backend to decode.
+// Frames are composited onto a full canvas, then written as an animated WEBP of full-size frames muxed from the
+// backend's still WEBP encodes.
+
+export type FrameDisposal = "none" | "background" | "previous"
+
+// How a frame is drawn onto the canvas and what happens to its area before the next frame
+export type FrameControl = {
+  x: number
+  y: number
+  width: number
+  height: number
+  delayMs: number
+  dispose: FrameDisposal
+  // "source" replaces the area including alpha, "over" alpha-composites onto it
+  blend: "source" | "over"
+}
+
+export type GifFrame = FrameControl & { pixels(): Uint8ClampedArray }
+
+export type ApngFrame = FrameControl & { png: Uint8Array<ArrayBuffer> }
+
+export type AnimatedSource<F> = {
+  width: number
+  height: number
+  // number of plays, 0 = forever (as in WEBP and APNG)
+  loopCount: number
+  frames: F[]
+}
+
+// Decoded frames, each the full canvas size. Behaves as one image towards the engine (see animatedBackend).
+export type Animation<I extends Raster> = Raster & {
+  frames: I[]
+  delays: number[]
+  loopCount: number
+}
+
+export type AnimationInfo = { frames: number; durationMs: number; loopCount: number }
+
+export type AnimationOptions = DecodeOptions & {
+  // drop frames so the animation runs at no more than this rate; 0 keeps every frame
+  maxFps?: number
+  // stop decoding once this many frames are kept (1 for outputs that can't animate); 0 decodes them all
+  maxFrames?: number
+}
+
+// Raw RGBA of the whole canvas for every kept frame is held in memory while converting
+export const MAX_ANIMATION_PIXELS = 100_000_000
+
+const u16le = (b: Uint8Array, o: number) => b[o] | (b[o + 1] << 8)
+const u16be = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1]
+const u32be = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0
+
+function u24leBytes(n: number) {
+  return [n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff]
+}
+
+function startsWith(bytes: Uint8Array, prefix: string) {
+  return bytes.length >= prefix.length && [...prefix].every((c, i) => bytes[i] === c.charCodeAt(0))
+}
+
+// ---- GIF ----
+
+function lzwDecode(minCodeSize: number, data: Uint8Array, pixelCount: number) {
+  const out = new Uint8Array(pixelCount)
+  const clear = 1 << minCodeSize
+  const eoi = clear + 1
+  const prefix = new Uint16Array(4096)
+  const suffix = new Uint8Array(4096)
+  const stack = new Uint8Array(4097)
+  let codeSize = minCodeSize + 1
+  let next = clear + 2
+  let prev = -1
+  let first = 0
+  let acc = 0
+  let bits = 0
+  let op = 0
+
+  for (let p = 0; p < data.length && op < pixelCount; p++) {
+    acc |= data[p] << bits
+    bits += 8
+    while (bits >= codeSize && op < pixelCount) {
+      const code = acc & ((1 << codeSize) - 1)
+      acc >>>= codeSize
+      bits -= codeSize
+      if (code === clear) {
+        codeSize = minCodeSize + 1
+        next = clear + 2
+        prev = -1
+        continue
+      }
+      if (code === eoi) return out
+      if (prev === -1) {
+        out[op++] = first = code
+        prev = code
+        continue
+      }
+      // a code not in the table yet can only be the previous string plus its own first byte
+      let sp = 0
+      let c = code
+      if (code >= next) {
+        stack[sp++] = first
+        c = prev
+      }
+      while (c > eoi) {
+        stack[sp++] = suffix[c]
+        c = prefix[c]
+      }
+      first = c
+      stack[sp++] = c
+      while (sp && op < pixelCount) out[op++] = stack[--sp]
+      if (next < 4096) {
+        prefix[next] = prev
+        suffix[next] = first
+        next++
+        if (next === 1 << codeSize && codeSize < 12) codeSize++
+      }
+      prev = code
+    }
+  }
+  return out
+}
+
+// Rows of an interlaced image arrive in four passes
+function interlacedRows(height: number) {
+  const rows: number[] = []
+  for (const [start, step] of [
+    [0, 8],
+    [4, 8],
+    [2, 4],
+    [1, 2],
+  ]) {
+    for (let y = start; y < height; y += step) rows.push(y)
+  }
+  return rows
+}
+
+// The frames of a GIF, or null when the bytes aren't one. Pixels are decoded when asked for.
+export function parseGif(bytes: Uint8Array): AnimatedSource<GifFrame> | null {
+  if (!startsWith(bytes, "GIF87a") && !startsWith(bytes, "GIF89a")) return null
+  const width = u16le(bytes, 6)
+  const height = u16le(bytes, 8)
+  const packed = bytes[10]
+  let p = 13
+  let globalPalette: Uint8Array | null = null
+  if (packed & 0x80) {
+    const size = 3 << ((packed & 7) + 1)
+    globalPalette = bytes.subarray(p, p + size)
+    p += size
+  }
+
+  // without a NETSCAPE2.0 block a GIF plays once; with one, the count is of repeats after the first play
+  let loopCount = 1
+  const noControl = { delayMs: 100, dispose: "none" as FrameDisposal, transparent: -1 }
+  let control = noControl
+  const frames: GifFrame[] = []
+
+  const subBlocks = () => {
+    const parts: Uint8Array[] = []
+    while (p < bytes.length && bytes[p] !== 0) {
+      parts.push(bytes.subarray(p + 1, p + 1 + bytes[p]))
+      p += 1 + bytes[p]
+    }
+    p++
+    return parts
+  }
+
+  while (p < bytes.length) {
+    const block = bytes[p++]
+    if (block === 0x3b) break
+    if (block === 0x21) {
+      const label = bytes[p++]
+      const parts = subBlocks()
+      if (label === 0xf9 && parts[0]?.length >= 4) {
+        const [flags] = parts[0]
+        const disposal = (flags >> 2) & 7
+        const delay = u16le(parts[0], 1) * 10
+        control = {
+          // browsers play very short delays at 10 fps, and so should the output
+          delayMs: delay <= 10 ? 100 : delay,
+          dispose: disposal === 2 ? "background" : disposal === 3 ? "previous" : "none",
+          transparent: flags & 1 ? parts[0][3] : -1,
+        }
+      } else if (label === 0xff && parts[0] && startsWith(parts[0], "NETSCAPE2.0") && parts[1]?.[0] === 1) {
+        const repeats = u16le(parts[1], 1)
+        loopCount = repeats === 0 ? 0 : Math.min(0xffff, repeats + 1)
+      }
+      continue
+    }
+    if (block !== 0x2c) break
+
+    const x = u16le(bytes, p)
+    const y = u16le(bytes, p + 2)
+    const w = u16le(bytes, p + 4)
+    const h = u16le(bytes, p + 6)
+    const flags = bytes[p + 8]
+    p += 9
+    let palette = globalPalette
+    if (flags & 0x80) {
+      const size = 3 << ((flags & 7) + 1)
+      palette = bytes.subarray(p, p + size)
+      p += size
+    }
+    const minCodeSize = bytes[p++]
+    const data = concat(subBlocks())
+    const { transparent } = control
+    const interlaced = (flags & 0x40) !== 0
+    frames.push({
+      x,
+      y,
+      width: w,
+      height: h,
+      delayMs: control.delayMs,
+      dispose: control.dispose,
+      // transparent pixels leave the canvas alone, everything else is opaque
+      blend: "over",
+      pixels() {
+        const indices = lzwDecode(minCodeSize, data, w * h)
+        const rgba = new Uint8ClampedArray(w * h * 4)
+        const rows = interlaced ? interlacedRows(h) : null
+        for (let row = 0; row < h; row++) {
+          const dst = (rows ? rows[row] : row) * w
+          for (let col = 0; col < w; col++) {
+            const index = indices[row * w + col]
+            if (index === transparent || !palette || index * 3 + 2 >= palette.length) continue
+            const o = (dst + col) * 4
+            rgba[o] = palette[index * 3]
+            rgba[o + 1] = palette[index * 3 + 1]
+            rgba[o + 2] = palette[index * 3 + 2]
+            rgba[o + 3] = 255
+          }
+        }
+        return rgba
+      },
+    })
+    // a graphic control extension only applies to the image right after it
+    control = noControl
+  }
+
+  return { width, height, loopCount, frames }
+}
+
+// ---- APNG ----
+
+// Chunks the frames can't do without (palette, transparency, colour space); orientation is left out on purpose
+const SHARED_PNG_CHUNKS = new Set(["PLTE", "tRNS", "gAMA", "cHRM", "sRGB", "iCCP", "sBIT"])
+
+// The frames of an APNG as standalone PNG files, or null for a still PNG (or not a PNG at all)
+export function parseApng(bytes: Uint8Array): AnimatedSource<ApngFrame> | null {
+  if (!startsWith(bytes, "\x89PNG")) return null
+  const chunks = pngChunks(bytes)
+  const ihdr = chunks.find((c) => c.type === "IHDR")?.data
+  const actl = chunks.find((c) => c.type === "acTL")?.data
+  if (!ihdr || !actl || actl.length < 8) return null
+
+  const shared = chunks.filter((c) => SHARED_PNG_CHUNKS.has(c.type))
+  const frames: ApngFrame[] = []
+  let control: FrameControl | null = null
+  let data: Uint8Array[] = []
+
+  const finish = () => {
+    if (!control || !data.length) return
+    const header = ihdr.slice()
+    const size = new DataView(header.buffer, header.byteOffset)
+    size.setUint32(0, control.width)
+    size.setUint32(4, control.height)
+    const png = concat([
+      bytes.subarray(0, 8),
+      pngChunk("IHDR", header),
+      ...shared.map((c) => pngChunk(c.type, c.data)),
+      ...data.map((d) => pngChunk("IDAT", d)),
+      pngChunk("IEND", new Uint8Array()),
+    ])
+    frames.push({ ...control, png })
+  }
+
+  for (const { type, data: chunk } of chunks) {
+    if (type === "fcTL" && chunk.length >= 26) {
+      finish()
+      const num = u16be(chunk, 20)
+      const den = u16be(chunk, 22) || 100
+      control = {
+        width: u32be(chunk, 4),
+        height: u32be(chunk, 8),
+        x: u32be(chunk, 12),
+        y: u32be(chunk, 16),
+        delayMs: (num * 1000) / den,
+        dispose: chunk[24] === 1 ? "background" : chunk[24] === 2 ? "previous" : "none",
+        blend: chunk[25] === 1 ? "over" : "source",
+      }
+      data = []
+    } else if (type === "IDAT" && control) {
+      // without an fcTL before it, the IDAT image is a fallback for viewers that can't animate
+      data.push(chunk)
+    } else if (type === "fdAT") {
+      data.push(chunk.subarray(4))
+    }
+  }
+  finish()
+  if (frames.length < 2) return null
+
+  return { width: u32be(ihdr, 0), height: u32be(ihdr, 4), loopCount: Math.min(0xffff, u32be(actl, 4)), frames }
+}
+
+// ---- compositing ----
+
+// Applies frames to a canvas the way viewers play them, handing back a copy of the canvas after each one
+export class Compositor {
+  private canvas: Uint8ClampedArray
+  private pending: { frame: FrameControl; saved: Uint8ClampedArray | null } | null = null
+
+  constructor(
+    private width: number,
+    private height: number,
+  ) {
+    this.canvas = new Uint8ClampedArray(width * height * 4)
+  }
+
+  draw(frame: FrameControl, rgba: Uint8ClampedArray) {
+    this.dispose()
+    const saved = frame.dispose === "previous" ? this.canvas.slice() : null
+    const { canvas, width } = this
+    const x1 = Math.min(this.width, frame.x + frame.width)
+    const y1 = Math.min(this.height, frame.y + frame.height)
+    for (let y = frame.y; y < y1; y++) {
+      for (let x = frame.x; x < x1; x++) {
+        const s = ((y - frame.y) * frame.width + (x - frame.x)) * 4
+        const d = (y * width + x) * 4
+        const sa = rgba[s + 3]
+        if (frame.blend === "source" || sa === 255) {
+          canvas.set(rgba.subarray(s, s + 4), d)
+        } else if (sa > 0) {
+          const da = (canvas[d + 3] * (255 - sa)) / 255
+          const a = sa + da
+          for (let c = 0; c < 3; c++) canvas[d + c] = (rgba[s + c] * sa + canvas[d + c] * da) / a
+          canvas[d + 3] = a
+        }
+      }
+    }
+    this.pending = { frame, saved }
+    return canvas.slice()
+  }
+
+  private dispose() {
+    if (!this.pending) return
+    const { frame, saved } = this.pending
+    if (frame.dispose === "previous" && saved) this.canvas = saved
+    else if (frame.dispose === "background") {
+      const x1 = Math.min(this.width, frame.x + frame.width)
+      for (let y = frame.y; y < Math.min(this.height, frame.y + frame.height); y++) {
+        this.canvas.fill(0, (y * this.width + frame.x) * 4, (y * this.width + x1) * 4)
+      }
+    }
+    this.pending = null
+  }
+}
+
+function samePixels(a: Uint8ClampedArray, b: Uint8ClampedArray) {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) if (a[i] !== b[i]) return false
+  return true
+}
+
+// Decode an animated GIF or APNG into full-canvas frames. Frames identical to the one before are merged into it,
+// and with maxFps the frames that come too soon after the last kept one are dropped; either way their time goes
+// to the frame before, so the total duration stays the same. Null for still images. With maxFrames the rest of the
+// source is never decoded, and the result is returned even if it holds a single frame.
+export async function decodeAnimation<I extends Raster>(
+  blob: Blob,
+  backend: EncoderBackend<I>,
+  opts: AnimationOptions = {},
+): Promise<Animation<I> | null> {
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const source: AnimatedSource<GifFrame | ApngFrame> | null = parseGif(bytes) ?? parseApng(bytes)
+  if (!source || source.frames.length < 2 || !source.width || !source.height) return null
+  const { width, height } = source
+  const limit = opts.maxFrames && opts.maxFrames > 0 ? opts.maxFrames : Infinity
+  if (width * height * Math.min(source.frames.length, limit) > MAX_ANIMATION_PIXELS) {
+    throw new Error(`Animation is too large to convert (${source.frames.length} frames of ${width}×${height})`)
+  }
+
+  const frameRgba = async (frame: GifFrame | ApngFrame) => {
+    if ("pixels" in frame) return frame.pixels()
+    let decoded: I
+    try {
+      decoded = await backend.decode(new Blob([frame.png], { type: "image/png" }), opts)
+    } catch {
+      throw new Error("Could not decode an APNG frame")
+    }
+    try {
+      const { data, width: w, height: h } = await backend.pixels(decoded)
+      // a frame that decodes to another size than its fcTL promised is drawn as far as it fits
+      return w === frame.width && h === frame.height ? data : fitRgba(data, w, h, frame.width, frame.height)
+    } finally {
+      backend.release?.(decoded)
+    }
+  }
+
+  const interval = opts.maxFps && opts.maxFps > 0 ? 1000 / opts.maxFps : 0
+  const animation: Animation<I> = { width, height, frames: [], delays: [], loopCount: source.loopCount }
+  const compositor = new Compositor(width, height)
+  let last: Uint8ClampedArray | null = null
+  let nextSlot = 0
+  let t = 0
+  let truncated = false
+  try {
+    for (const frame of source.frames) {
+      if (animation.frames.length >= limit) {
+        truncated = true
+        break
+      }
+      const canvas = compositor.draw(frame, await frameRgba(frame))
+      if (last && (t + 0.5 < nextSlot || samePixels(canvas, last))) {
+        animation.delays[animation.delays.length - 1] += frame.delayMs
+      } else {
+        animation.frames.push(await backend.fromPixels({ width, height, data: canvas }))
+        animation.delays.push(frame.delayMs)
+        last = canvas
+        while (interval && nextSlot <= t + 0.5) nextSlot += interval
+      }
+      t += frame.delayMs
+    }
+  } catch (err) {
+    for (const f of animation.frames) backend.release?.(f)
+    throw err
+  }
+  // everything collapsed into one frame: nothing left to animate
+  if (animation.frames.length < 2 && !truncated) {
+    for (const f of animation.frames) backend.release?.(f)
+    return null
+  }
+  return animation
+}
+
+function fitRgba(data: Uint8ClampedArray, w: number, h: number, width: number, height: number) {
+  const out = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < Math.min(h, height); y++) {
+    out.set(data.subarray(y * w * 4, (y * w + Math.min(w, width)) * 4), y * width * 4)
+  }
+  return out
+}
+
+export function animationInfo(a: Animation<Raster>): AnimationInfo {
+  return { frames: a.frames.length, durationMs: a.delays.reduce((n, d) => n + d, 0), loopCount: a.loopCount }
+}
+
+// ---- WEBP ----
+
+// Mux still WEBP files of the same size into an animated WEBP. Each frame replaces the whole canvas (no blending,
+// no disposal), which is how the frames were composited.
+export function muxAnimatedWebp(
+  frames: { webp: Uint8Array; delayMs: number }[],
+  width: number,
+  height: number,
+  loopCount: number,
+) {
+  let alpha = false
+  const anmf = frames.map(({ webp, delayMs }) => {
+    const image = webpChunks(webp).filter((c) => c.fourcc === "ALPH" || c.fourcc === "VP8 " || c.fourcc === "VP8L")
+    if (!image.some((c) => c.fourcc !== "ALPH")) throw new Error("Encoded frame is not a WEBP image")
+    // the VP8L header says whether the lossless image uses alpha
+    alpha ||= image.some((c) => c.fourcc === "ALPH" || (c.fourcc === "VP8L" && (c.data[4] >> 4) & 1))
+    const header = new Uint8Array([
+      ...u24leBytes(0),
+      ...u24leBytes(0),
+      ...u24leBytes(width - 1),
+      ...u24leBytes(height - 1),
+      ...u24leBytes(Math.min(0xffffff, Math.max(0, Math.round(delayMs)))),
+      // do not blend with the previous frame, do not dispose
+      0x02,
+    ])
+    return riffChunk("ANMF", concat([header, ...image.map((c) => riffChunk(c.fourcc, c.data))]))
+  })
+
+  const vp8x = new Uint8Array([0x02 | (alpha ? 0x10 : 0), 0, 0, 0, ...u24leBytes(width - 1), ...u24leBytes(height - 1)])
+  // transparent background; players may ignore it anyway
+  const anim = new Uint8Array([0, 0, 0, 0, loopCount & 0xff, (loopCount >> 8) & 0xff])
+  const body = concat([riffChunk("VP8X", vp8x), riffChunk("ANIM", anim), ...anmf])
+  return concat([latin1("RIFF"), u32leBytes(body.length + 4), latin1("WEBP"), body])
+}
+
+// ---- engine adapter ----
+
+function still<I extends Raster>(img: I): Animation<I> {
+  return { width: img.width, height: img.height, frames: [img], delays: [0], loopCount: 0 }
+}
+
+// An EncoderBackend over whole animations, so the engine's resize plan, edits, overlay and size searches run
+// unchanged: every frame is transformed alike, and encoding writes all frames into one animated WEBP (whose size
+// is what the searches see). Pixels and decoded results are the first frame, so "visual" mode scores that one.
+export function animatedBackend<I extends Raster>(backend: EncoderBackend<I>): EncoderBackend<Animation<I>> {
+  const map = async (a: Animation<I>, fn: (frame: I) => Promise<I>): Promise<Animation<I>> => {
+    const frames: I[] = []
+    for (const frame of a.frames) frames.push(await fn(frame))
+    return { ...a, width: frames[0].width, height: frames[0].height, frames }
+  }
+
+  return {
+    decode: async (blob, opts) => still(await backend.decode(blob, opts)),
+    resize: (a, width, height, opts) => map(a, (f) => backend.resize(f, width, height, opts)),
+    orient: (a, orientation) => map(a, (f) => backend.orient(f, orientation)),
+    renderText: async (text, fontPx, color) => still(await backend.renderText(text, fontPx, color)),
+    composite: (a, layer, placement, opacity) =>
+      map(a, (f) => backend.composite(f, layer.frames[0], placement, opacity)),
+    fromPixels: async (pixels: PixelData) => still(await backend.fromPixels(pixels)),
+
+    async encode(a, format, q, opts) {
+      if (a.frames.length === 1) return backend.encode(a.frames[0], format, q, opts)
+      if (format !== "webp") throw new Error("Animations can only be written as WEBP")
+      const frames: { webp: Uint8Array; delayMs: number }[] = []
+      for (let i = 0; i < a.frames.length; i++) {
+        const blob = await backend.encode(a.frames[i], format, q, opts)
+        if (!blob) return null
+        frames.push({ webp: new Uint8Array(await blob.arrayBuffer()), delayMs: a.delays[i] })
+      }
+      return new Blob([muxAnimatedWebp(frames, a.width, a.height, a.loopCount)], { type: "image/webp" })
+    },
+
+    pixels: (a) => backend.pixels(a.frames[0]),
+
+    release(a) {
+      for (const f of a.frames) backend.release?.(f)
+    },
+  }
+}
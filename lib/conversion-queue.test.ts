@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest"
+import { ConversionQueue, abortError, estimateRemainingMs, type QueueSnapshot } from "@/lib/conversion-queue"
+
+// A task the test finishes by hand; it rejects on its own when cancelled, as conversions do
+function manualTasks() {
+  const started: string[] = []
+  const finish = new Map<string, (err?: unknown) => void>()
+  const task = (id: string) => (signal: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+      started.push(id)
+      signal.addEventListener("abort", () => reject(abortError()))
+      finish.set(id, (err) => (err ? reject(err) : resolve()))
+    })
+  return { started, finish, task }
+}
+
+const settle = () => new Promise((r) => setTimeout(r, 0))
+
+describe("ConversionQueue", () => {
+  it("starts tasks in order, never more than the concurrency limit", async () => {
+    const { started, finish, task } = manualTasks()
+    const queue = new ConversionQueue(2)
+    for (const id of ["a", "b", "c", "d"]) queue.add(id, task(id))
+    expect(started).toEqual(["a", "b"])
+    expect(queue.snapshot()).toMatchObject({ queued: 2, running: 2, total: 4 })
+
+    finish.get("b")!()
+    await settle()
+    expect(started).toEqual(["a", "b", "c"])
+
+    queue.setConcurrency(3)
+    expect(started).toEqual(["a", "b", "c", "d"])
+  })
+
+  it("cancels queued tasks at once and running ones through their signal", async () => {
+    const { started, task } = manualTasks()
+    const queue = new ConversionQueue(1)
+    queue.add("a", task("a"))
+    queue.add("b", task("b"))
+    queue.cancel("b")
+    expect(queue.snapshot()).toMatchObject({ queued: 0, running: 1, cancelled: 1 })
+
+    queue.cancel("a")
+    await settle()
+    expect(started).toEqual(["a"])
+    expect(queue.snapshot()).toMatchObject({ running: 0, cancelled: 2, completed: 0, failed: 0 })
+  })
+
+  it("counts failures apart from cancellations", async () => {
+    const { finish, task } = manualTasks()
+    const queue = new ConversionQueue(2)
+    queue.add("a", task("a"))
+    queue.add("b", task("b"))
+    finish.get("a")!(new Error("boom"))
+    finish.get("b")!()
+    await settle()
+    expect(queue.snapshot()).toMatchObject({ completed: 1, failed: 1, cancelled: 0 })
+  })
+
+  it("holds new tasks while paused and lets running ones finish", async () => {
+    const { started, finish, task } = manualTasks()
+    const queue = new ConversionQueue(1)
+    const snapshots: QueueSnapshot[] = []
+    queue.subscribe((s) => snapshots.push(s))
+    queue.add("a", task("a"))
+    queue.pause()
+    queue.add("b", task("b"))
+    finish.get("a")!()
+    await settle()
+    expect(started).toEqual(["a"])
+    expect(queue.snapshot()).toMatchObject({ paused: true, queued: 1, completed: 1 })
+
+    queue.resume()
+    expect(started).toEqual(["a", "b"])
+    expect(snapshots.at(-1)).toMatchObject({ paused: false, running: 1 })
+  })
+
+  it("ignores an id that is already queued, and runs it again once it has finished", async () => {
+    const { started, finish, task } = manualTasks()
+    const queue = new ConversionQueue(1)
+    queue.add("a", task("a"))
+    queue.add("a", task("a"))
+    expect(queue.snapshot().total).toBe(1)
+    finish.get("a")!()
+    await settle()
+
+    // an idle queue starts a new batch
+    queue.add("a", task("a"))
+    expect(started).toEqual(["a", "a"])
+    expect(queue.snapshot()).toMatchObject({ total: 1, completed: 0 })
+  })
+
+  it("cancels everything with cancelAll", async () => {
+    const { task } = manualTasks()
+    const queue = new ConversionQueue(1)
+    for (const id of ["a", "b", "c"]) queue.add(id, task(id))
+    queue.cancelAll()
+    await settle()
+    expect(queue.snapshot()).toMatchObject({ queued: 0, running: 0, cancelled: 3 })
+  })
+})
+
+describe("estimateRemainingMs", () => {
+  const snap = (patch: Partial<QueueSnapshot>): QueueSnapshot => ({
+    queued: 0,
+    running: 0,
+    completed: 0,
+    failed: 0,
+    cancelled: 0,
+    total: 4,
+    startedAt: 1000,
+    paused: false,
+    concurrency: 1,
+    ...patch,
+  })
+
+  it("projects the average time per finished task onto the rest of the batch", () => {
+    expect(estimateRemainingMs(snap({ completed: 1, failed: 1 }), 5000)).toBe(4000)
+    expect(estimateRemainingMs(snap({ completed: 4 }), 5000)).toBe(0)
+    expect(estimateRemainingMs(snap({}), 5000)).toBeNull()
+  })
+})
@@ -0,0 +1,144 @@
+export type QueueTask = (signal: AbortSignal) => Promise<void>
+
+export type QueueSnapshot = {
+  queued: number
+  running: number
+  completed: number
+  failed: number
+  cancelled: number
+  // jobs added since the queue last went idle; the progress bar and ETA are relative to this batch
+  total: number
+  startedAt: number | null
+  paused: boolean
+  concurrency: number
+}
+
+type Entry = {
+  id: string
+  task: QueueTask
+  controller: AbortController
+}
+
+export function isAbortError(err: unknown) {
+  return err instanceof DOMException && err.name === "AbortError"
+}
+
+export function abortError() {
+  return new DOMException("Conversion cancelled", "AbortError")
+}
+
+// FIFO queue that runs at most `concurrency` tasks at once. Tasks receive an AbortSignal that fires when
+// they are cancelled; pausing stops new tasks from starting but lets running ones finish.
+export class ConversionQueue {
+  private pending: Entry[] = []
+  private active = new Map<string, Entry>()
+  private listeners = new Set<(s: QueueSnapshot) => void>()
+  private stats = { completed: 0, failed: 0, cancelled: 0, total: 0, startedAt: null as number | null }
+  private paused = false
+
+  constructor(private concurrency: number) {}
+
+  subscribe(listener: (s: QueueSnapshot) => void) {
+    this.listeners.add(listener)
+    listener(this.snapshot())
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  has(id: string) {
+    return this.active.has(id) || this.pending.some((e) => e.id === id)
+  }
+
+  add(id: string, task: QueueTask) {
+    if (this.has(id)) return
+    if (this.isIdle()) this.stats = { completed: 0, failed: 0, cancelled: 0, total: 0, startedAt: Date.now() }
+    this.pending.push({ id, task, controller: new AbortController() })
+    this.stats.total++
+    this.pump()
+  }
+
+  cancel(id: string) {
+    const idx = this.pending.findIndex((e) => e.id === id)
+    if (idx >= 0) {
+      const [entry] = this.pending.splice(idx, 1)
+      entry.controller.abort(abortError())
+      this.stats.cancelled++
+      this.emit()
+      return
+    }
+    // running tasks settle (and are counted) once they notice the abort
+    this.active.get(id)?.controller.abort(abortError())
+  }
+
+  cancelAll() {
+    ;[...this.pending.map((e) => e.id), ...this.active.keys()].forEach((id) => this.cancel(id))
+  }
+
+  pause() {
+    this.paused = true
+    this.emit()
+  }
+
+  resume() {
+    this.paused = false
+    this.pump()
+  }
+
+  setConcurrency(n: number) {
+    this.concurrency = Math.max(1, Math.floor(n))
+    this.pump()
+  }
+
+  snapshot(): QueueSnapshot {
+    return {
+      queued: this.pending.length,
+      running: this.active.size,
+      ...this.stats,
+      paused: this.paused,
+      concurrency: this.concurrency,
+    }
+  }
+
+  private isIdle() {
+    return this.pending.length === 0 && this.active.size === 0
+  }
+
+  private pump() {
+    while (!this.paused && this.active.size < this.concurrency && this.pending.length) {
+      const entry = this.pending.shift()!
+      this.active.set(entry.id, entry)
+      entry
+        .task(entry.controller.signal)
+        .then(
+          () => {
+            if (entry.controller.signal.aborted) this.stats.cancelled++
+            else this.stats.completed++
+          },
+          (err) => {
+            if (entry.controller.signal.aborted || isAbortError(err)) this.stats.cancelled++
+            else this.stats.failed++
+          },
+        )
+        .finally(() => {
+          this.active.delete(entry.id)
+          this.pump()
+        })
+    }
+    this.emit()
+  }
+
+  private emit() {
+    const snap = this.snapshot()
+    this.listeners.forEach((l) => l(snap))
+  }
+}
+
+// Estimated time left for the current batch, from its average throughput so far
+export function estimateRemainingMs(s: QueueSnapshot, now = Date.now()) {
+  const finished = s.completed + s.failed + s.cancelled
+  if (!s.startedAt || finished === 0) return null
+  const remaining = s.total - finished
+  if (remaining <= 0) return 0
+  return ((now - s.startedAt) / finished) * remaining
+}
@@ -0,0 +1,154 @@
+import {
+  convertAnimation,
+  convertImage,
+  type ConvertProgress,
+  type ConvertSettings,
+  type DecodeOptions,
+  type EncoderBackend,
+  type PixelData,
+} from "@/lib/engine"
+import type { ImageEdits } from "@/lib/edits"
+import { keepsColorSpace } from "@/lib/metadata"
+import { encodeCanvas } from "@/lib/output-formats"
+import { resample, sharpen } from "@/lib/resample"
+
+type CanvasImage = OffscreenCanvas | ImageBitmap
+
+// Workers only see system fonts, so stick to the generic families
+const OVERLAY_FONT = "system-ui, -apple-system, 'Segoe UI', sans-serif"
+
+function context(canvas: OffscreenCanvas) {
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Unable to get canvas context")
+  return ctx
+}
+
+function bitmapOf(blob: Blob, opts?: DecodeOptions) {
+  return createImageBitmap(blob, {
+    imageOrientation: "from-image",
+    colorSpaceConversion: opts?.keepColorSpace ? "none" : "default",
+  })
+}
+
+function toCanvas(img: CanvasImage) {
+  if (img instanceof OffscreenCanvas) return img
+  const canvas = new OffscreenCanvas(img.width, img.height)
+  context(canvas).drawImage(img, 0, 0)
+  return canvas
+}
+
+function pixelsOf(img: CanvasImage) {
+  const canvas = toCanvas(img)
+  return context(canvas).getImageData(0, 0, canvas.width, canvas.height)
+}
+
+function canvasOf({ width, height, data }: PixelData) {
+  const canvas = new OffscreenCanvas(width, height)
+  context(canvas).putImageData(new ImageData(new Uint8ClampedArray(data), width, height), 0, 0)
+  return canvas
+}
+
+// The browser backend for lib/engine.ts. Everything runs on OffscreenCanvas so it can live inside a worker
+// (see lib/convert.worker.ts).
+export const canvasBackend: EncoderBackend<CanvasImage> = {
+  decode: bitmapOf,
+
+  async resize(img, width, height, opts) {
+    const resampled = resample(pixelsOf(img), width, height, opts?.filter, opts?.crop)
+    return canvasOf(opts?.sharpen ? sharpen(resampled, opts.sharpen) : resampled)
+  },
+
+  async orient(img, { rotate, flipH, flipV }) {
+    const quarter = rotate === 90 || rotate === 270
+    const canvas = new OffscreenCanvas(quarter ? img.height : img.width, quarter ? img.width : img.height)
+    const ctx = context(canvas)
+    // transforms apply in reverse: the flip is set up first so it acts on the already rotated image
+    ctx.translate(canvas.width / 2, canvas.height / 2)
+    ctx.scale(flipH ? -1 : 1, flipV ? -1 : 1)
+    ctx.rotate((rotate * Math.PI) / 180)
+    ctx.drawImage(img, -img.width / 2, -img.height / 2)
+    return canvas
+  },
+
+  async renderText(text, fontPx, color) {
+    const font = `600 ${fontPx}px ${OVERLAY_FONT}`
+    const measure = context(new OffscreenCanvas(1, 1))
+    measure.font = font
+    const pad = Math.ceil(fontPx * 0.1)
+    const canvas = new OffscreenCanvas(
+      Math.max(1, Math.ceil(measure.measureText(text).width) + 2 * pad),
+      Math.ceil(fontPx * 1.25) + 2 * pad,
+    )
+    const ctx = context(canvas)
+    ctx.font = font
+    ctx.fillStyle = color
+    ctx.textBaseline = "middle"
+    ctx.fillText(text, pad, canvas.height / 2)
+    return canvas
+  },
+
+  async composite(img, layer, { width, height, positions }, opacity) {
+    const canvas = new OffscreenCanvas(img.width, img.height)
+    const ctx = context(canvas)
+    ctx.drawImage(img, 0, 0)
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = "high"
+    ctx.globalAlpha = opacity
+    for (const { x, y } of positions) ctx.drawImage(layer, x, y, width, height)
+    return canvas
+  },
+
+  encode: (img, format, q, opts) => encodeCanvas(toCanvas(img), format, q, opts),
+
+  pixels: async (img) => pixelsOf(img),
+
+  fromPixels: async (pixels) => canvasOf(pixels),
+
+  release(img) {
+    if (img instanceof ImageBitmap) img.close()
+  },
+}
+
+async function decodeBitmap(source: Blob | ImageBitmap, typeLabel: string, opts: DecodeOptions) {
+  if (!(source instanceof Blob)) return source
+  try {
+    return await bitmapOf(source, opts)
+  } catch {
+    throw new Error(`This browser can't decode ${typeLabel}`)
+  }
+}
+
+// Raster files arrive as the original Blob (so their metadata can be carried over and animations found),
+// SVGs already rasterised
+export async function runConversion(
+  source: Blob | ImageBitmap,
+  settings: ConvertSettings,
+  typeLabel = "this file",
+  onProgress?: (p: ConvertProgress) => void,
+  signal?: AbortSignal,
+  edits?: ImageEdits,
+) {
+  if (source instanceof Blob) {
+    const animated = await convertAnimation<CanvasImage>(source, settings, {
+      backend: canvasBackend,
+      onProgress,
+      signal,
+      edits,
+    })
+    if (animated) return animated
+  }
+  const bitmap = await decodeBitmap(source, typeLabel, {
+    keepColorSpace: keepsColorSpace(settings.format, settings.colorProfile),
+  })
+  try {
+    return await convertImage<CanvasImage>(bitmap, settings, {
+      backend: canvasBackend,
+      onProgress,
+      signal,
+      metadataSource: source instanceof Blob ? source : undefined,
+      edits,
+    })
+  } finally {
+    bitmap.close()
+  }
+}
@@ -0,0 +1,35 @@
+import { runConversion } from "@/lib/convert-pipeline"
+import type { WorkerRequest, WorkerResponse } from "@/lib/worker-pool"
+
+// One conversion at a time per worker; the pool never sends a second job before this one answers.
+const controllers = new Map<string, AbortController>()
+
+function reply(msg: WorkerResponse) {
+  postMessage(msg)
+}
+
+addEventListener("message", async (e: MessageEvent<WorkerRequest>) => {
+  if (e.data.type === "cancel") {
+    controllers.get(e.data.id)?.abort()
+    return
+  }
+
+  const { id, source, typeLabel, settings, edits } = e.data
+  const controller = new AbortController()
+  controllers.set(id, controller)
+  try {
+    const result = await runConversion(
+      source,
+      settings,
+      typeLabel,
+      (progress) => reply({ type: "progress", id, progress }),
+      controller.signal,
+      edits,
+    )
+    reply({ type: "done", id, result })
+  } catch (err: any) {
+    reply({ type: "error", id, message: err?.message || "Error" })
+  } finally {
+    controllers.delete(id)
+  }
+})
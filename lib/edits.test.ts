@@ -0,0 +1,40 @@
+import { describe, expect, it } from "vitest"
+import { NO_EDITS, cropPixels, fitAspect, flip, hasEdits, rotateBy, sameEdits } from "@/lib/edits"
+
+describe("image edits", () => {
+  const crop = { x: 0.1, y: 0.2, w: 0.3, h: 0.4 }
+
+  it("turns the crop box with the image and back", () => {
+    const turned = rotateBy({ ...NO_EDITS, crop }, 1)
+    expect(turned.rotate).toBe(90)
+    expect(turned.crop!.x).toBeCloseTo(0.4)
+    expect(turned.crop!.y).toBeCloseTo(0.1)
+    expect([turned.crop!.w, turned.crop!.h]).toEqual([0.4, 0.3])
+    const back = rotateBy(turned, -1)
+    expect(back.rotate).toBe(0)
+    expect(back.crop!.x).toBeCloseTo(crop.x)
+    expect(back.crop!.y).toBeCloseTo(crop.y)
+  })
+
+  it("swaps the mirror axis on a quarter turn", () => {
+    const turned = rotateBy(flip(NO_EDITS, "h"), 1)
+    expect([turned.flipH, turned.flipV]).toEqual([false, true])
+  })
+
+  it("treats a full-frame crop as no edit", () => {
+    expect(hasEdits({ ...NO_EDITS, crop: { x: 0, y: 0, w: 1, h: 1 } })).toBe(false)
+    expect(sameEdits(undefined, NO_EDITS)).toBe(true)
+    expect(sameEdits(NO_EDITS, flip(flip(NO_EDITS, "v"), "v"))).toBe(true)
+    expect(sameEdits(NO_EDITS, rotateBy(NO_EDITS, 2))).toBe(false)
+  })
+
+  it("fits an aspect ratio inside the crop around its centre", () => {
+    const square = fitAspect({ x: 0, y: 0, w: 1, h: 1 }, 1, 400, 200)
+    expect(square).toEqual({ x: 0.25, y: 0, w: 0.5, h: 1 })
+    expect(cropPixels(square, 400, 200)).toEqual({ sx: 100, sy: 0, sw: 200, sh: 200 })
+  })
+
+  it("keeps pixel crops inside the image", () => {
+    expect(cropPixels({ x: 0.999, y: -0.1, w: 0.5, h: 2 }, 100, 50)).toEqual({ sx: 99, sy: 0, sw: 1, sh: 50 })
+  })
+})
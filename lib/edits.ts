@@ -0,0 +1,124 @@
+import type { CropRect } from "@/lib/engine"
+
+// Per-item rotate / flip / crop, applied by the engine before resizing and any size search.
+// The crop is stored in 0-1 fractions of the rotated and flipped image, so it stays valid whatever size
+// the source is decoded at (SVGs are rasterised at the chosen render size).
+
+export type Rotation = 0 | 90 | 180 | 270
+
+export type NormalizedCrop = { x: number; y: number; w: number; h: number }
+
+export type ImageEdits = {
+  // clockwise
+  rotate: Rotation
+  // mirror left-right / top-bottom, after rotating
+  flipH: boolean
+  flipV: boolean
+  crop: NormalizedCrop | null
+}
+
+export type Orientation = Pick<ImageEdits, "rotate" | "flipH" | "flipV">
+
+export const NO_EDITS: ImageEdits = { rotate: 0, flipH: false, flipV: false, crop: null }
+
+// Width / height ratios offered by the editor; null means free, 0 the image's own ratio
+export const ASPECT_PRESETS: { label: string; ratio: number | null }[] = [
+  { label: "Free", ratio: null },
+  { label: "Original", ratio: 0 },
+  { label: "1:1", ratio: 1 },
+  { label: "4:3", ratio: 4 / 3 },
+  { label: "3:2", ratio: 3 / 2 },
+  { label: "16:9", ratio: 16 / 9 },
+  { label: "3:4", ratio: 3 / 4 },
+  { label: "9:16", ratio: 9 / 16 },
+]
+
+const FULL: NormalizedCrop = { x: 0, y: 0, w: 1, h: 1 }
+
+function isFullCrop(crop: NormalizedCrop | null) {
+  return !crop || (crop.x <= 0 && crop.y <= 0 && crop.w >= 1 && crop.h >= 1)
+}
+
+export function hasEdits(edits: ImageEdits | undefined) {
+  return !!edits && (edits.rotate !== 0 || edits.flipH || edits.flipV || !isFullCrop(edits.crop))
+}
+
+export function hasOrientation(o: Orientation) {
+  return o.rotate !== 0 || o.flipH || o.flipV
+}
+
+export function sameEdits(a: ImageEdits | undefined, b: ImageEdits | undefined) {
+  if (!hasEdits(a) || !hasEdits(b)) return hasEdits(a) === hasEdits(b)
+  const ca = a!.crop ?? FULL
+  const cb = b!.crop ?? FULL
+  return (
+    a!.rotate === b!.rotate &&
+    a!.flipH === b!.flipH &&
+    a!.flipV === b!.flipV &&
+    ca.x === cb.x &&
+    ca.y === cb.y &&
+    ca.w === cb.w &&
+    ca.h === cb.h
+  )
+}
+
+// Size of the image once rotated (flips don't change it)
+export function orientedSize(width: number, height: number, rotate: Rotation) {
+  return rotate === 90 || rotate === 270 ? { width: height, height: width } : { width, height }
+}
+
+export function rotateBy(edits: ImageEdits, quarterTurns: number): ImageEdits {
+  const rotate = ((((edits.rotate / 90 + quarterTurns) % 4) + 4) % 4) * 90
+  // the crop box turns with the image
+  let crop = edits.crop
+  const turns = (((quarterTurns % 4) + 4) % 4) as 0 | 1 | 2 | 3
+  for (let i = 0; crop && i < turns; i++) crop = { x: 1 - crop.y - crop.h, y: crop.x, w: crop.h, h: crop.w }
+  // flips are applied after rotating, and a quarter turn trades a horizontal mirror for a vertical one
+  const swap = turns % 2 === 1
+  return {
+    rotate: rotate as Rotation,
+    flipH: swap ? edits.flipV : edits.flipH,
+    flipV: swap ? edits.flipH : edits.flipV,
+    crop,
+  }
+}
+
+export function flip(edits: ImageEdits, axis: "h" | "v"): ImageEdits {
+  const c = edits.crop
+  return axis === "h"
+    ? { ...edits, flipH: !edits.flipH, crop: c && { ...c, x: 1 - c.x - c.w } }
+    : { ...edits, flipV: !edits.flipV, crop: c && { ...c, y: 1 - c.y - c.h } }
+}
+
+// Pixel rectangle of the crop on the oriented image, snapped to whole pixels and at least 1 × 1
+export function cropPixels(crop: NormalizedCrop | null, width: number, height: number): CropRect {
+  const c = crop ?? FULL
+  const sx = Math.min(width - 1, Math.max(0, Math.round(c.x * width)))
+  const sy = Math.min(height - 1, Math.max(0, Math.round(c.y * height)))
+  const sw = Math.max(1, Math.min(width - sx, Math.round(c.w * width)))
+  const sh = Math.max(1, Math.min(height - sy, Math.round(c.h * height)))
+  return { sx, sy, sw, sh }
+}
+
+export function normalizeCrop(rect: CropRect, width: number, height: number): NormalizedCrop {
+  return { x: rect.sx / width, y: rect.sy / height, w: rect.sw / width, h: rect.sh / height }
+}
+
+// Largest box of the given pixel aspect ratio that fits inside `crop`, keeping its centre.
+// width/height are the oriented image size, needed because the crop is in fractions of each side.
+export function fitAspect(crop: NormalizedCrop, ratio: number, width: number, height: number): NormalizedCrop {
+  const pw = crop.w * width
+  const ph = crop.h * height
+  const w = Math.min(pw, ph * ratio)
+  const h = w / ratio
+  const cx = crop.x + crop.w / 2
+  const cy = crop.y + crop.h / 2
+  const nw = w / width
+  const nh = h / height
+  return {
+    x: Math.min(1 - nw, Math.max(0, cx - nw / 2)),
+    y: Math.min(1 - nh, Math.max(0, cy - nh / 2)),
+    w: nw,
+    h: nh,
+  }
+}
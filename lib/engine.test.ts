@@ -0,0 +1,351 @@
+import { describe, expect, it } from "vitest"
+import {
+  DEFAULT_SETTINGS,
+  convertBlob,
+  convertImage,
+  type ConvertSettings,
+  type EncoderBackend,
+  type PixelData,
+} from "@/lib/engine"
+import { DEFAULT_ENCODE_OPTIONS } from "@/lib/output-formats"
+import type { OverlayPlacement } from "@/lib/overlay"
+
+// A deterministic stand-in for a real codec: output size grows with pixel count and quality,
+// and decoding an output returns the source pattern plus noise that shrinks as quality rises.
+// Upscaling flattens the pattern (`detail`): pixels lost to a downscale don't come back.
+type FakeImage = { width: number; height: number; q?: number; detail?: number }
+
+function fakeBackend({ headerBytes = 100 } = {}) {
+  const decoded = new WeakMap<Blob, FakeImage>()
+  const calls = { encode: 0, resize: [] as [number, number][], composite: [] as OverlayPlacement[] }
+
+  const backend: EncoderBackend<FakeImage> = {
+    async decode(blob) {
+      const img = decoded.get(blob)
+      if (!img) throw new Error("not produced by the fake encoder")
+      return img
+    },
+    async resize(img, width, height) {
+      if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+        throw new Error(`invalid size ${width}×${height}`)
+      }
+      calls.resize.push([width, height])
+      return { width, height, q: img.q, detail: (img.detail ?? 1) * Math.min(1, img.width / width) }
+    },
+    async orient(img, { rotate }) {
+      return rotate === 90 || rotate === 270 ? { width: img.height, height: img.width } : { ...img }
+    },
+    async renderText(text, fontPx) {
+      return { width: Math.ceil(text.length * fontPx * 0.6), height: Math.ceil(fontPx * 1.2) }
+    },
+    async composite(img, layer, placement) {
+      calls.composite.push(placement)
+      return { ...img }
+    },
+    async encode(img, format, q) {
+      calls.encode++
+      const perPixel = format === "png" ? 3 : 0.02 + 1.5 * q * q
+      const blob = new Blob([new Uint8Array(headerBytes + Math.ceil(img.width * img.height * perPixel))])
+      decoded.set(blob, { width: img.width, height: img.height, q: format === "png" ? 1 : q, detail: img.detail })
+      return blob
+    },
+    async pixels(img): Promise<PixelData> {
+      const data = new Uint8ClampedArray(img.width * img.height * 4)
+      const noise = (1 - (img.q ?? 1)) * 60
+      for (let y = 0; y < img.height; y++) {
+        for (let x = 0; x < img.width; x++) {
+          const i = (y * img.width + x) * 4
+          const v =
+            128 +
+            90 * (img.detail ?? 1) * Math.sin(x / 3) * Math.cos(y / 5) +
+            noise * ((((x * 7 + y * 13) % 5) - 2) / 2)
+          data[i] = data[i + 1] = data[i + 2] = v
+          data[i + 3] = 255
+        }
+      }
+      return { width: img.width, height: img.height, data }
+    },
+    async fromPixels({ width, height }) {
+      return { width, height }
+    },
+  }
+  return { backend, calls }
+}
+
+function settings(patch: Partial<ConvertSettings>): ConvertSettings {
+  return { ...DEFAULT_SETTINGS, ...patch }
+}
+
+const kb = (blob: Blob) => blob.size / 1024
+
+describe("convertImage", () => {
+  it("encodes once at 0.9 in auto mode", async () => {
+    const { backend, calls } = fakeBackend()
+    const res = await convertImage({ width: 200, height: 100 }, settings({ mode: "auto" }), { backend })
+    expect(calls.encode).toBe(1)
+    expect(res.q).toBe(0.9)
+    expect(res.scale).toBe(1)
+    expect([res.width, res.height]).toEqual([200, 100])
+    expect(res.diagnostics.encodes).toBe(1)
+    expect(res.diagnostics.probes).toHaveLength(1)
+  })
+
+  it("picks the highest quality that fits a reachable cap", async () => {
+    const { backend } = fakeBackend()
+    // 500×500 at q=0.999 is ~370 KB, at q=0.5 ~95 KB
+    const res = await convertImage(
+      { width: 500, height: 500 },
+      settings({ mode: "size", maxSizeKB: 200, allowUpscale: false }),
+      { backend },
+    )
+    expect(kb(res.blob)).toBeLessThanOrEqual(200)
+    expect(res.scale).toBe(1)
+    expect(res.q).toBeGreaterThan(0.6)
+  })
+
+  it("falls back to the smallest attempt when the cap is unreachable", async () => {
+    // the fixed overhead alone is over the cap, so no quality or scale can meet it
+    const { backend } = fakeBackend({ headerBytes: 4096 })
+    const res = await convertImage(
+      { width: 2000, height: 2000 },
+      settings({ mode: "size", maxSizeKB: 1, allowUpscale: false }),
+      { backend },
+    )
+    expect(kb(res.blob)).toBeGreaterThan(1)
+    expect(res.scale).toBe(0.1)
+    expect(res.q).toBe(0.35)
+    expect([res.width, res.height]).toEqual([200, 200])
+  })
+
+  it("returns the smallest scale in quality + max size mode when the cap is unreachable", async () => {
+    const { backend } = fakeBackend()
+    const res = await convertImage(
+      { width: 2000, height: 2000 },
+      settings({ mode: "both", qualityPct: 80, maxSizeKB: 1, noUpscale: true }),
+      { backend },
+    )
+    expect(res.q).toBe(0.8)
+    expect(res.scale).toBe(0.1)
+  })
+
+  it("upscales to land near the cap when allowed", async () => {
+    const { backend } = fakeBackend()
+    const res = await convertImage(
+      { width: 100, height: 100 },
+      settings({ mode: "size", maxSizeKB: 300, allowUpscale: true, noUpscale: false }),
+      { backend },
+    )
+    expect(res.scale).toBeGreaterThan(1)
+    expect(kb(res.blob)).toBeLessThanOrEqual(300)
+    expect(kb(res.blob)).toBeGreaterThan(300 * 0.9)
+    expect(res.width).toBe(Math.floor(100 * res.scale))
+  })
+
+  it("aims at the cap from a proxy's size curve instead of bisecting", async () => {
+    const { backend } = fakeBackend()
+    const res = await convertImage(
+      { width: 2000, height: 2000 },
+      settings({ mode: "size", maxSizeKB: 500, allowUpscale: false }),
+      { backend },
+    )
+    expect(kb(res.blob)).toBeLessThanOrEqual(500)
+    expect(kb(res.blob)).toBeGreaterThan(500 * 0.9)
+    expect(res.diagnostics.probes.filter((p) => p.proxy)).toHaveLength(3)
+    expect(res.diagnostics.encodes).toBeLessThanOrEqual(8)
+  })
+
+  it("finds the downscale for a cap quality alone can't meet in a handful of encodes", async () => {
+    const { backend } = fakeBackend()
+    const res = await convertImage(
+      { width: 2000, height: 2000 },
+      settings({ mode: "size", maxSizeKB: 5, allowUpscale: false }),
+      { backend },
+    )
+    expect(kb(res.blob)).toBeLessThanOrEqual(5)
+    expect(res.scale).toBe(0.2)
+    expect(res.diagnostics.encodes).toBeLessThanOrEqual(12)
+  })
+
+  it("answers repeated probes from the cache", async () => {
+    const { backend, calls } = fakeBackend()
+    const res = await convertImage(
+      { width: 100, height: 100 },
+      settings({ mode: "size", maxSizeKB: 300, allowUpscale: true, noUpscale: false }),
+      { backend },
+    )
+    expect(res.diagnostics.cacheHits).toBeGreaterThan(0)
+    expect(calls.encode).toBe(res.diagnostics.encodes)
+  })
+
+  it("trades resolution for quality under the cap as the size strategy prefers", async () => {
+    const run = async (sizeStrategy: ConvertSettings["sizeStrategy"]) => {
+      const { backend } = fakeBackend()
+      const res = await convertImage(
+        { width: 300, height: 300 },
+        settings({ mode: "size", maxSizeKB: 40, allowUpscale: false, sizeStrategy }),
+        { backend },
+      )
+      expect(kb(res.blob)).toBeLessThanOrEqual(40)
+      return res
+    }
+    const fast = await run("quality-first")
+    const resolution = await run("resolution")
+    const balanced = await run("balanced")
+    const sharpness = await run("sharpness")
+
+    expect(fast.scale).toBe(1)
+    // full size at the quality that fits looks worse than a smaller, cleaner image
+    expect(resolution.scale).toBeLessThan(1)
+    // the trade-off score is measured at a reduced view, not reported as the output's SSIM
+    expect(resolution.ssim).toBeUndefined()
+    expect(balanced.scale).toBeLessThanOrEqual(resolution.scale)
+    expect(sharpness.scale).toBeLessThan(resolution.scale)
+    expect(sharpness.q).toBeGreaterThan(resolution.q)
+  })
+
+  it("upscales toward the cap with the default settings", async () => {
+    const { backend } = fakeBackend()
+    const size = await convertImage({ width: 100, height: 100 }, settings({ mode: "size" }), { backend })
+    expect(size.scale).toBeGreaterThan(1)
+    const both = await convertImage({ width: 100, height: 100 }, settings({ mode: "both", qualityPct: 80 }), {
+      backend,
+    })
+    expect(both.scale).toBeGreaterThan(1)
+  })
+
+  it("never upscales when the resize settings forbid it", async () => {
+    const { backend, calls } = fakeBackend()
+    const res = await convertImage(
+      { width: 100, height: 100 },
+      settings({ mode: "size", maxSizeKB: 300, allowUpscale: true, resize: "max-edge", noUpscale: true }),
+      { backend },
+    )
+    expect(res.scale).toBe(1)
+    expect(calls.resize.every(([w, h]) => w <= 100 && h <= 100)).toBe(true)
+  })
+
+  it("keeps tiny images at least one pixel while searching down", async () => {
+    const { backend, calls } = fakeBackend({ headerBytes: 4096 })
+    const res = await convertImage(
+      { width: 1, height: 1 },
+      settings({ mode: "size", maxSizeKB: 1, allowUpscale: false }),
+      { backend },
+    )
+    expect([res.width, res.height]).toEqual([1, 1])
+    expect(calls.resize.every(([w, h]) => w >= 1 && h >= 1)).toBe(true)
+  })
+
+  it("converts a 1×1 image that fits the cap without scaling", async () => {
+    const { backend } = fakeBackend()
+    const res = await convertImage({ width: 1, height: 1 }, settings({ mode: "size", maxSizeKB: 1 }), { backend })
+    expect(res.scale).toBe(1)
+    expect([res.width, res.height]).toEqual([1, 1])
+  })
+
+  it("does not search quality for lossless formats", async () => {
+    const { backend, calls } = fakeBackend()
+    const res = await convertImage(
+      { width: 100, height: 100 },
+      settings({ format: "png", mode: "size", maxSizeKB: 100, allowUpscale: false }),
+      { backend },
+    )
+    expect(calls.encode).toBe(1)
+    expect(res.q).toBe(1)
+  })
+
+  it("treats lossless WEBP like a lossless format", async () => {
+    const { backend, calls } = fakeBackend()
+    const res = await convertImage(
+      { width: 100, height: 100 },
+      settings({ format: "webp", webpMode: "lossless", mode: "visual" }),
+      { backend },
+    )
+    expect(calls.encode).toBe(1)
+    expect(res.q).toBe(1)
+    expect(res.ssim).toBe(1)
+  })
+
+  it("reports whether the source looks like flat graphics", async () => {
+    const { backend } = fakeBackend()
+    const res = await convertImage({ width: 400, height: 300 }, settings({ mode: "auto" }), { backend })
+    expect(res.analysis).toEqual({ graphics: false, transparent: false })
+  })
+
+  it("rotates and crops before the resize plan", async () => {
+    const { backend, calls } = fakeBackend()
+    const res = await convertImage(
+      { width: 2000, height: 1000 },
+      settings({ mode: "auto", resize: "max-edge", resizeMaxEdge: 400 }),
+      { backend, edits: { rotate: 90, flipH: false, flipV: false, crop: { x: 0, y: 0.5, w: 1, h: 0.5 } } },
+    )
+    // 2000×1000 turns into 1000×2000, the bottom half of that is 1000×1000, then the edge cap applies
+    expect(calls.resize.slice(0, 2)).toEqual([
+      [1000, 1000],
+      [400, 400],
+    ])
+    expect([res.width, res.height]).toEqual([400, 400])
+  })
+
+  it("burns a text overlay into the resized image before encoding", async () => {
+    const { backend, calls } = fakeBackend()
+    await convertImage(
+      { width: 1000, height: 500 },
+      settings({ mode: "auto", overlay: "text", overlayText: "© Pixify", overlayScale: 30, overlayMargin: 2 }),
+      { backend },
+    )
+    expect(calls.composite).toHaveLength(1)
+    const [placement] = calls.composite
+    // sized to 30% of the width and anchored bottom-right inside a 2% margin
+    expect(placement.width).toBeGreaterThan(290)
+    expect(placement.width).toBeLessThanOrEqual(300)
+    expect(placement.positions).toEqual([{ x: 1000 - 20 - placement.width, y: 500 - 20 - placement.height }])
+  })
+
+  it("skips the overlay when there is nothing to draw", async () => {
+    const { backend, calls } = fakeBackend()
+    await convertImage({ width: 100, height: 100 }, settings({ mode: "auto", overlay: "text", overlayText: " " }), {
+      backend,
+    })
+    expect(calls.composite).toHaveLength(0)
+  })
+
+  it("applies the resize plan before searching", async () => {
+    const { backend, calls } = fakeBackend()
+    const res = await convertImage(
+      { width: 4000, height: 2000 },
+      settings({ mode: "auto", resize: "max-edge", resizeMaxEdge: 800 }),
+      { backend },
+    )
+    expect(calls.resize[0]).toEqual([800, 400])
+    expect([res.width, res.height]).toEqual([800, 400])
+  })
+
+  it("finds the smallest quality that reaches the target SSIM", async () => {
+    const { backend } = fakeBackend()
+    const res = await convertImage({ width: 64, height: 64 }, settings({ mode: "visual", targetSsim: 0.95 }), {
+      backend,
+    })
+    expect(res.ssim).toBeGreaterThanOrEqual(0.95)
+    expect(res.q).toBeLessThan(0.999)
+    expect(res.diagnostics.probes.every((p) => typeof p.ssim === "number")).toBe(true)
+  })
+
+  it("stops when aborted", async () => {
+    const { backend } = fakeBackend()
+    const controller = new AbortController()
+    controller.abort()
+    await expect(
+      convertImage({ width: 100, height: 100 }, settings({ mode: "size" }), { backend, signal: controller.signal }),
+    ).rejects.toMatchObject({ name: "AbortError" })
+  })
+})
+
+describe("convertBlob", () => {
+  it("decodes the input with the backend", async () => {
+    const { backend } = fakeBackend()
+    const input = await backend.encode({ width: 300, height: 200 }, "webp", 1, DEFAULT_ENCODE_OPTIONS)
+    const res = await convertBlob(input!, settings({ mode: "quality", qualityPct: 50 }), { backend })
+    expect([res.width, res.height]).toEqual([300, 200])
+    expect(res.q).toBe(0.5)
+  })
+})
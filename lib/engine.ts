@@ -0,0 +1,873 @@
+import {
+  embedMetadata,
+  keepsColorSpace,
+  metadataOverhead,
+  readMetadata,
+  selectMetadata,
+  type ColorProfilePolicy,
+  type MetadataPolicy,
+} from "@/lib/metadata"
+import {
+  OUTPUT_FORMATS,
+  isLossy,
+  type AlphaPolicy,
+  type EncodeOptions,
+  type OutputFormat,
+  type WebpMode,
+} from "@/lib/output-formats"
+import { animatedBackend, animationInfo, decodeAnimation, type AnimationInfo } from "@/lib/animation"
+import { cropPixels, hasEdits, hasOrientation, type ImageEdits, type Orientation } from "@/lib/edits"
+import { hasTransparency, looksLikeGraphics } from "@/lib/pixels"
+import {
+  DEFAULT_OVERLAY,
+  dataUriToBlob,
+  hasOverlay,
+  placeOverlay,
+  type OverlayOptions,
+  type OverlayPlacement,
+} from "@/lib/overlay"
+import { planResize, type ResizeOptions } from "@/lib/resize"
+import { DEFAULT_FILTER, type ResampleFilter } from "@/lib/resample"
+import { predictCrossing, type SizeSample } from "@/lib/size-model"
+import { lumaOf, ssim, type LumaPlane } from "@/lib/ssim"
+
+// Framework-independent conversion engine: the resize plan and the quality/scale searches, written against
+// an EncoderBackend so the same code runs on OffscreenCanvas in the browser (lib/convert-pipeline.ts),
+// on a server-side encoder, or on a fake encoder in tests.
+
+export type ConvertMode = "auto" | "quality" | "size" | "both" | "visual"
+
+// How "size" mode spends the byte budget: "quality-first" keeps the full size and only shrinks when no quality
+// fits; the others try quality × scale combinations and keep the one that looks best, judged at a viewing size
+// that favours resolution or sharpness
+export type SizeStrategy = "quality-first" | "resolution" | "balanced" | "sharpness"
+
+export type ConvertSettings = ResizeOptions &
+  OverlayOptions & {
+    mode: ConvertMode
+    format: OutputFormat
+    qualityPct: number // 0-100
+    maxSizeKB: number
+    allowUpscale: boolean
+    sizeStrategy: SizeStrategy
+    // "visual" mode: smallest file whose SSIM against the source is at least this (0-1)
+    targetSsim: number
+    metadata: MetadataPolicy
+    colorProfile: ColorProfilePolicy
+    webpMode: WebpMode
+    alpha: AlphaPolicy
+    // flatten colour for alpha: "flatten" and for formats without alpha (JPEG)
+    background: string
+    // animated input: highest frame rate kept in the animated WEBP, 0 = every frame
+    animationFps: number
+    // filter for every resize, and an unsharp mask (0-100) on resized output
+    resampleFilter: ResampleFilter
+    sharpen: number
+  }
+
+export const DEFAULT_SETTINGS: ConvertSettings = {
+  format: "webp",
+  mode: "auto",
+  qualityPct: 90,
+  maxSizeKB: 300,
+  allowUpscale: true, // default 'Aim near cap' ON
+  sizeStrategy: "quality-first",
+  targetSsim: 0.98,
+  metadata: "strip",
+  colorProfile: "srgb",
+  webpMode: "lossy",
+  alpha: "keep",
+  background: "#ffffff",
+  animationFps: 0,
+  resampleFilter: DEFAULT_FILTER,
+  sharpen: 0,
+  resize: "none",
+  resizeMaxEdge: 1600,
+  resizeWidth: 512,
+  resizeHeight: 512,
+  resizeFit: "cover",
+  noUpscale: true,
+  ...DEFAULT_OVERLAY,
+}
+
+export function sameSettings(a: ConvertSettings, b: ConvertSettings) {
+  return (Object.keys(a) as (keyof ConvertSettings)[]).every((k) => a[k] === b[k])
+}
+
+export type ConvertProgress = {
+  encodes: number
+  lastKB: number
+  q: number
+  scale: number
+  ssim?: number
+}
+
+// One encode the search tried, in the order it tried them. Proxy encodes ran on a small copy of the image to learn
+// how its size responds to quality.
+export type Probe = { q: number; scale: number; bytes: number; ssim?: number; proxy?: boolean }
+
+export type ConvertDiagnostics = {
+  encodes: number
+  // probes answered from earlier encodes of the same size and quality
+  cacheHits: number
+  elapsedMs: number
+  probes: Probe[]
+}
+
+export type ConvertResult = {
+  blob: Blob
+  q: number
+  // relative to the resized base image, i.e. what the size search changed
+  scale: number
+  width: number
+  height: number
+  // only measured in "visual" mode
+  ssim?: number
+  analysis: SourceAnalysis
+  diagnostics: ConvertDiagnostics
+  // set when the output is an animated WEBP
+  animation?: AnimationInfo
+  // an animated source written as a still, because the output format can't animate
+  firstFrameOnly?: boolean
+}
+
+// What the (resized) source looks like, for recommendations in the UI
+export type SourceAnalysis = {
+  // flat-colour graphics such as logos and screenshots, which lossless encoding handles better
+  graphics: boolean
+  transparent: boolean
+}
+
+export type Raster = { width: number; height: number }
+
+export type PixelData = { width: number; height: number; data: Uint8ClampedArray }
+
+export type CropRect = { sx: number; sy: number; sw: number; sh: number }
+
+export type ResampleOptions = {
+  crop?: CropRect
+  filter?: ResampleFilter
+  // unsharp mask amount (0-100) applied after resampling
+  sharpen?: number
+}
+
+export type DecodeOptions = {
+  // leave pixel values in the source's colour space instead of converting to sRGB (see ColorProfilePolicy)
+  keepColorSpace?: boolean
+}
+
+export interface EncoderBackend<I extends Raster> {
+  // EXIF orientation is applied while decoding
+  decode(blob: Blob, opts?: DecodeOptions): Promise<I>
+  // resample (the crop of) img into a new width × height image (see lib/resample.ts)
+  resize(img: I, width: number, height: number, opts?: ResampleOptions): Promise<I>
+  // rotate clockwise, then mirror, into a new image (see ImageEdits)
+  orient(img: I, orientation: Orientation): Promise<I>
+  // one line of text on a transparent background, tightly sized
+  renderText(text: string, fontPx: number, color: string): Promise<I>
+  // a new image: img with layer drawn at every placement position, at the given opacity (0-1)
+  composite(img: I, layer: I, placement: OverlayPlacement, opacity: number): Promise<I>
+  // q is 0-1 and ignored by lossless formats; null when the encoder produced nothing
+  encode(img: I, format: OutputFormat, q: number, opts: EncodeOptions): Promise<Blob | null>
+  // RGBA pixels, for "visual" mode and the source analysis
+  pixels(img: I): Promise<PixelData>
+  // an image from RGBA pixels (decoded animation frames)
+  fromPixels(pixels: PixelData): Promise<I>
+  // free native resources of an image the engine no longer needs
+  release?(img: I): void
+}
+
+export type ConvertOptions<I extends Raster> = {
+  backend: EncoderBackend<I>
+  onProgress?: (p: ConvertProgress) => void
+  signal?: AbortSignal
+  // original file to carry metadata / the ICC profile over from, per settings.metadata and settings.colorProfile
+  metadataSource?: Blob
+  // the user's rotate / flip / crop, applied before the resize plan
+  edits?: ImageEdits
+}
+
+type Attempt = { blob: Blob; q: number; scale: number; ssim?: number }
+
+type CachedEncode = { width: number; height: number; q: number; blob: Blob | null }
+
+// One axis of a size search: integer positions n (quality steps, list indices, pixels) and where they sit on the size
+// model's x axis, along which log(size) grows roughly linearly with `slope`
+type SearchAxis = { x: (n: number) => number; n: (x: number) => number; slope: number; reference?: SizeSample[] }
+
+// Size searches move quality in whole percent steps: encoders round to about that anyway, and it lets repeated
+// probes come from the cache
+const qualityOf = (step: number) => Math.min(0.999, step / 100)
+const QUALITY_SLOPE = 0.025
+// size grows with the pixel count, i.e. with scale squared
+const SCALE_SLOPE = 2
+// a fitting probe this close under the cap ends a search
+const CAP_TOLERANCE = 0.03
+const MAX_PROBES = 10
+// Images over four proxies in size first learn the shape of their size-vs-quality curve on a proxy this big.
+// Proxy sizes are scaled to the image by pixel count to this power (compression improves with size).
+const PROXY_PIXELS = 256 * 256
+const PROXY_STEPS = [40, 75, 95]
+const PROXY_EXPONENT = 0.85
+// Downscales for the size mode when quality alone can't meet the cap; a list keeps results stable between runs
+const SIZE_SCALES = [
+  0.1, 0.12, 0.15, 0.2, 0.25, 0.3, 0.35, 0.4, 0.45, 0.5, 0.55, 0.6, 0.65, 0.7, 0.75, 0.8, 0.85, 0.9, 0.95, 1,
+]
+const MIN_SCALE = SIZE_SCALES[0]
+// quality of the smallest attempt when even the smallest scale misses the cap
+const FALLBACK_Q = 0.35
+// The optimiser compares candidates with the image shown at this share of its size: at full size every lost pixel
+// counts, at half size a downscale to 50% costs nothing and only compression artefacts do
+const VIEW_SCALES: Record<Exclude<SizeStrategy, "quality-first">, number> = {
+  resolution: 1,
+  balanced: 0.75,
+  sharpness: 0.5,
+}
+
+class Search<I extends Raster> {
+  encodes = 0
+  cacheHits = 0
+  probes: Probe[] = []
+  // every encode by pixel size and quality, so the searches never pay for the same probe twice
+  private cache = new Map<string, CachedEncode>()
+  // size against quality step on a small proxy of the image, with the proxy's pixel count
+  private curve: { samples: SizeSample[]; pixels: number } | null = null
+  // unsharpened pixels of sharpened images, which scaling starts from so nothing is sharpened twice
+  private soft = new WeakMap<I, I>()
+
+  constructor(
+    private backend: EncoderBackend<I>,
+    private format: OutputFormat,
+    private encodeOptions: EncodeOptions,
+    private resampling: { filter: ResampleFilter; sharpen: number },
+    private onProgress?: (p: ConvertProgress) => void,
+    private signal?: AbortSignal,
+  ) {}
+
+  get lossy() {
+    return isLossy(this.format, this.encodeOptions.webpMode)
+  }
+
+  get label() {
+    return OUTPUT_FORMATS[this.format].label
+  }
+
+  private cached(width: number, height: number, q: number) {
+    const hit = this.cache.get(`${width}×${height}@${q}`)
+    if (hit) this.cacheHits++
+    return hit
+  }
+
+  // Proxy encodes only steer the searches, so they are neither cached nor returned
+  async encode(img: I, q: number, scale = 1, proxy = false) {
+    const hit = proxy ? undefined : this.cached(img.width, img.height, q)
+    if (hit) return hit.blob
+    // every search step goes through here, so checking before each encode is enough to stop a search promptly
+    this.signal?.throwIfAborted()
+    const blob = await this.backend.encode(img, this.format, q, this.encodeOptions)
+    this.encodes++
+    if (!proxy) this.cache.set(`${img.width}×${img.height}@${q}`, { width: img.width, height: img.height, q, blob })
+    if (blob) {
+      this.probes.push(proxy ? { q, scale, bytes: blob.size, proxy } : { q, scale, bytes: blob.size })
+      this.onProgress?.({ encodes: this.encodes, lastKB: blob.size / 1024, q, scale })
+    }
+    return blob
+  }
+
+  private sizeAt(src: Raster, scale: number) {
+    return {
+      width: Math.max(1, Math.floor(src.width * scale)),
+      height: Math.max(1, Math.floor(src.height * scale)),
+    }
+  }
+
+  // Scaled images are sharpened once, from the unsharpened pixels of src when it was sharpened itself
+  scaled(src: I, scale: number) {
+    const { width, height } = this.sizeAt(src, scale)
+    return this.backend.resize(this.soft.get(src) ?? src, width, height, this.resampling)
+  }
+
+  scaleFrom(sharpened: I, soft: I) {
+    this.soft.set(sharpened, soft)
+  }
+
+  // Encode src scaled by `scale`; resizing is skipped when the cache already has that pixel size
+  private async encodeAt(src: I, scale: number, q: number) {
+    const { width, height } = this.sizeAt(src, scale)
+    const hit = this.cached(width, height, q)
+    if (hit) return hit.blob
+    if (width === src.width && height === src.height) return this.encode(src, q, scale)
+    const scaled = await this.scaled(src, scale)
+    try {
+      return await this.encode(scaled, q, scale)
+    } finally {
+      this.backend.release?.(scaled)
+    }
+  }
+
+  // Decode an encoded candidate and compare it with the reference it was encoded from
+  async score(blob: Blob, ref: LumaPlane) {
+    let decoded: I
+    try {
+      decoded = await this.backend.decode(blob)
+    } catch {
+      throw new Error(`This browser can't decode ${this.label} to measure its quality`)
+    }
+    try {
+      const same = decoded.width === ref.width && decoded.height === ref.height
+      const sized = same
+        ? decoded
+        : await this.backend.resize(decoded, ref.width, ref.height, { filter: this.resampling.filter })
+      const score = ssim(ref, lumaOf(await this.backend.pixels(sized)))
+      if (!same) this.backend.release?.(sized)
+      return score
+    } finally {
+      this.backend.release?.(decoded)
+    }
+  }
+
+  // Largest n in lo..hi whose encode fits `target` bytes, for sizes that grow with n. Each probe is aimed at the cap
+  // with the size model; after two probes in a row land on the same side it bisects instead, so a poor model costs
+  // a few encodes rather than a runaway search. `known` are encodes already made (they may lie outside lo..hi).
+  private async searchLargestFit(
+    lo: number,
+    hi: number,
+    target: number,
+    axis: SearchAxis,
+    probe: (n: number) => Promise<Blob | null>,
+    known: { n: number; blob: Blob }[] = [],
+  ) {
+    let fit = lo - 1
+    let miss = hi + 1
+    let best: { n: number; blob: Blob } | null = null
+    const samples: SizeSample[] = []
+    const queue = [...known]
+    let streak = 0
+    let lastFits: boolean | null = null
+
+    for (let probes = 0; ; probes++) {
+      for (const { n, blob } of queue.splice(0)) {
+        samples.push({ x: axis.x(n), bytes: blob.size })
+        if (blob.size > target) miss = Math.min(miss, n)
+        else if (n > fit) {
+          fit = n
+          best = { n, blob }
+        }
+      }
+      if (miss - fit <= 1 || probes === MAX_PROBES) break
+      if (best && best.blob.size >= target * (1 - CAP_TOLERANCE)) break
+
+      const guess = streak >= 2 ? Number.NaN : axis.n(predictCrossing(samples, target, axis.slope, axis.reference))
+      const n = Number.isFinite(guess)
+        ? Math.min(miss - 1, Math.max(fit + 1, Math.floor(guess)))
+        : Math.floor((fit + miss) / 2)
+      const blob = await probe(n)
+      if (!blob) break
+      const fits = blob.size <= target
+      streak = fits === lastFits ? streak + 1 : 1
+      lastFits = fits
+      queue.push({ n, blob })
+    }
+    return best
+  }
+
+  // A few encodes of a small proxy give the first full-size probe a good aim
+  private async learnCurve(img: I) {
+    const k = Math.sqrt(PROXY_PIXELS / (img.width * img.height))
+    const proxy = await this.scaled(img, k)
+    try {
+      const samples: SizeSample[] = []
+      for (const step of PROXY_STEPS) {
+        const blob = await this.encode(proxy, qualityOf(step), k, true)
+        if (blob) samples.push({ x: step, bytes: blob.size })
+      }
+      this.curve = { samples, pixels: proxy.width * proxy.height }
+    } finally {
+      this.backend.release?.(proxy)
+    }
+  }
+
+  // Cached encodes of this pixel size at whole quality steps
+  private stepsAt(img: Raster) {
+    const steps: { n: number; blob: Blob }[] = []
+    for (const e of this.cache.values()) {
+      const n = Math.round(e.q * 100)
+      if (e.blob && e.width === img.width && e.height === img.height && qualityOf(n) === e.q)
+        steps.push({ n, blob: e.blob })
+    }
+    return steps
+  }
+
+  // Highest quality step whose encode fits the cap
+  async findQualityForTargetKB(img: I, targetKB: number, scale = 1): Promise<{ blob: Blob; q: number } | null> {
+    // lossless output has a single size per image, so there is nothing to search
+    if (!this.lossy) {
+      const blob = await this.encode(img, 1, scale)
+      return blob && blob.size / 1024 <= targetKB ? { blob, q: 1 } : null
+    }
+
+    if (!this.curve && img.width * img.height > 4 * PROXY_PIXELS) await this.learnCurve(img)
+    const factor = this.curve ? ((img.width * img.height) / this.curve.pixels) ** PROXY_EXPONENT : 1
+    const reference = this.curve?.samples.map((s) => ({ x: s.x, bytes: s.bytes * factor }))
+
+    // earlier encodes of this pixel size, e.g. the scale search's probe at the lowest quality
+    const found = await this.searchLargestFit(
+      1,
+      100,
+      targetKB * 1024,
+      { x: (n) => n, n: (x) => x, slope: QUALITY_SLOPE, reference },
+      (n) => this.encode(img, qualityOf(n), scale),
+      this.stepsAt(img),
+    )
+    // images too small for a proxy steer later searches (other scales) with their own curve
+    const steps = this.stepsAt(img)
+    if (!this.curve && steps.length >= 2) {
+      this.curve = { samples: steps.map(({ n, blob }) => ({ x: n, bytes: blob.size })), pixels: img.width * img.height }
+    }
+    return found && { blob: found.blob, q: qualityOf(found.n) }
+  }
+
+  // Binary search the lowest quality whose decoded result still reaches the target SSIM.
+  // SSIM rises with quality closely enough that bisection needs ~7 encodes.
+  async findQualityForTargetScore(img: I, target: number, iterations = 8): Promise<Attempt> {
+    // lossless output is identical to the source whatever the target
+    if (!this.lossy) {
+      const blob = await this.encode(img, 1)
+      if (!blob) throw new Error(`Failed to create ${this.label}`)
+      return { blob, q: 1, scale: 1, ssim: 1 }
+    }
+
+    const ref = lumaOf(await this.backend.pixels(img))
+    const attempt = async (q: number): Promise<Attempt | null> => {
+      const probed = this.probes.length
+      const blob = await this.encode(img, q)
+      if (!blob) return null
+      const score = await this.score(blob, ref)
+      if (this.probes.length > probed) this.probes[this.probes.length - 1].ssim = score
+      this.onProgress?.({ encodes: this.encodes, lastKB: blob.size / 1024, q, scale: 1, ssim: score })
+      return { blob, q, scale: 1, ssim: score }
+    }
+
+    let low = 0.01
+    let high = 0.999
+    let best: Attempt | null = null
+    for (let i = 0; i < iterations && high - low >= 0.01; i++) {
+      const mid = (low + high) / 2
+      const res = await attempt(mid)
+      if (!res) break
+      if (res.ssim! >= target) {
+        best = res
+        high = mid
+      } else {
+        low = mid
+      }
+    }
+    if (best) return best
+
+    // even the top of the search range misses the target: return the best this encoder can do
+    const top = await attempt(0.999)
+    if (!top) throw new Error(`Failed to create ${this.label}`)
+    return top
+  }
+
+  // Largest scale giving a long edge of lo..hi pixels whose encode at q fits, searched pixel by pixel
+  private async searchEdge(
+    src: I,
+    target: number,
+    q: number,
+    lo: number,
+    hi: number,
+    known: { n: number; blob: Blob }[],
+  ) {
+    const edge = Math.max(src.width, src.height)
+    const found = await this.searchLargestFit(
+      lo,
+      hi,
+      target,
+      { x: Math.log, n: Math.exp, slope: SCALE_SLOPE },
+      (n) => this.encodeAt(src, n / edge, q),
+      known,
+    )
+    return found && { blob: found.blob, q, scale: found.n / edge }
+  }
+
+  // Upscale while keeping a fixed quality and staying under a target size (maximize scale under cap)
+  async upscaleToTargetWithFixedQuality(
+    src: I,
+    targetKB: number,
+    fixedQ01: number,
+    maxScale = 6,
+  ): Promise<Attempt | null> {
+    const edge = Math.max(src.width, src.height)
+    // the callers have just encoded the image at this quality, so this comes from the cache
+    const base = await this.encode(src, fixedQ01)
+    const known = base ? [{ n: edge, blob: base }] : []
+    return this.searchEdge(src, targetKB * 1024, fixedQ01, edge + 1, Math.floor(edge * maxScale), known)
+  }
+
+  // Index of the largest listed scale at which the lowest quality fits (the full size is known to miss), or -1
+  private async largestFittingScale(src: I, targetKB: number) {
+    const floorQ = this.lossy ? qualityOf(1) : 1
+    const full = this.cache.get(`${src.width}×${src.height}@${floorQ}`)?.blob
+    const last = SIZE_SCALES.length - 1
+    const found = await this.searchLargestFit(
+      0,
+      last - 1,
+      targetKB * 1024,
+      {
+        x: (i) => Math.log(SIZE_SCALES[i]),
+        n: (x) => SIZE_SCALES.filter((s) => Math.log(s) <= x + 1e-9).length - 1,
+        slope: SCALE_SLOPE,
+      },
+      (i) => this.encodeAt(src, SIZE_SCALES[i], floorQ),
+      full ? [{ n: last, blob: full }] : [],
+    )
+    return found ? found.n : -1
+  }
+
+  // Highest quality that fits at a listed scale
+  private async bestAtScale(src: I, targetKB: number, i: number): Promise<Attempt | null> {
+    const s = SIZE_SCALES[i]
+    const scaled = await this.scaled(src, s)
+    try {
+      const attempt = await this.findQualityForTargetKB(scaled, targetKB, s)
+      return attempt && { blob: attempt.blob, q: attempt.q, scale: s }
+    } finally {
+      this.backend.release?.(scaled)
+    }
+  }
+
+  // Try to hit target size: first with quality, then downscale if needed. With an optimising strategy the
+  // downscales are also tried when the full size fits, and the best-looking candidate wins.
+  async convertToTargetSize(
+    src: I,
+    targetKB: number,
+    allowUp: boolean,
+    maxUpscale?: number,
+    strategy: SizeStrategy = "quality-first",
+  ): Promise<Attempt> {
+    const tolKB = 2
+    const direct = await this.findQualityForTargetKB(src, targetKB)
+    if (direct) {
+      const underBy = targetKB - direct.blob.size / 1024
+      if (allowUp && underBy > tolKB && direct.q >= 0.95) {
+        const up = await this.upscaleToTargetWithFixedQuality(
+          src,
+          targetKB,
+          Math.min(0.999, Math.max(0.95, direct.q)),
+          maxUpscale,
+        )
+        if (up) return up
+      }
+      if (strategy === "quality-first" || !this.lossy) return { blob: direct.blob, q: direct.q, scale: 1 }
+    }
+
+    // Quality alone can't meet the cap: take the largest listed scale at which the lowest quality fits, then
+    // search quality there
+    const top = direct ? SIZE_SCALES.length - 1 : await this.largestFittingScale(src, targetKB)
+    if (top >= 0 && strategy !== "quality-first" && this.lossy) {
+      const first = direct && { blob: direct.blob, q: direct.q, scale: 1 }
+      return this.optimise(src, targetKB, top, VIEW_SCALES[strategy], first)
+    }
+    if (top >= 0) {
+      const attempt = await this.bestAtScale(src, targetKB, top)
+      if (attempt) return attempt
+    }
+
+    // Even the smallest scale misses: return the smallest attempt at a modest quality
+    const smallest = await this.encodeAt(src, MIN_SCALE, FALLBACK_Q)
+    if (!smallest) throw new Error(`Failed to create ${this.label}`)
+    return { blob: smallest, q: FALLBACK_Q, scale: MIN_SCALE }
+  }
+
+  // Quality × scale trade-off under the cap: each listed scale from `top` down gets its best fitting quality and
+  // an SSIM against the source, both shown at `view` of the full size. The score rises while quality gains outweigh
+  // lost pixels and then falls, so it walks down two scales at a time while the score improves and then tries the
+  // neighbours of the best. `first` is the attempt already made at `top`. The score only ranks candidates: measured
+  // at a reduced view it isn't comparable with a full-size SSIM, so the result doesn't carry it.
+  private async optimise(src: I, targetKB: number, top: number, view: number, first: Attempt | null) {
+    const { width, height } = this.sizeAt(src, view)
+    const viewed =
+      width === src.width && height === src.height
+        ? src
+        : await this.backend.resize(src, width, height, { filter: this.resampling.filter })
+    let ref: LumaPlane
+    try {
+      ref = lumaOf(await this.backend.pixels(viewed))
+    } finally {
+      if (viewed !== src) this.backend.release?.(viewed)
+    }
+
+    type Scored = { attempt: Attempt; score: number }
+    const scored = new Map<number, Scored | null>()
+    const evaluate = async (i: number) => {
+      if (!scored.has(i)) {
+        const attempt = i === top && first ? first : await this.bestAtScale(src, targetKB, i)
+        scored.set(i, attempt && { attempt, score: await this.score(attempt.blob, ref) })
+      }
+      return scored.get(i)!
+    }
+    const better = (a: Scored | null, b: Scored): a is Scored => !!a && a.score > b.score
+
+    // the lowest quality fits at `top`, so there is always a first candidate
+    let best = (await evaluate(top))!
+    let at = top
+    // at full quality a smaller scale only loses detail
+    while (best.attempt.q < 0.999 && at >= 2) {
+      const next = await evaluate(at - 2)
+      if (!better(next, best)) break
+      best = next
+      at -= 2
+    }
+    for (const i of [at - 1, at + 1]) {
+      if (i < 0 || i > top) continue
+      const candidate = await evaluate(i)
+      if (better(candidate, best)) best = candidate
+    }
+    return best.attempt
+  }
+
+  // Fit to size while keeping a fixed quality (scale only)
+  async fitToSizeWithFixedQuality(
+    src: I,
+    targetKB: number,
+    fixedQ01: number,
+    allowUp: boolean,
+    maxUpscale?: number,
+  ): Promise<Attempt> {
+    const first = await this.encode(src, fixedQ01)
+    if (!first) throw new Error(`Failed to create ${this.label}`)
+
+    if (first.size / 1024 <= targetKB) {
+      if (allowUp) {
+        const up = await this.upscaleToTargetWithFixedQuality(src, targetKB, fixedQ01, maxUpscale)
+        if (up) return up
+      }
+      return { blob: first, q: fixedQ01, scale: 1 }
+    }
+
+    const edge = Math.max(src.width, src.height)
+    const lo = Math.max(1, Math.ceil(edge * MIN_SCALE))
+    const down = await this.searchEdge(src, targetKB * 1024, fixedQ01, lo, edge - 1, [{ n: edge, blob: first }])
+    if (down) return down
+
+    // Nothing fits even at the smallest scale: return that attempt, or the original one if it fails
+    const smallest = await this.encodeAt(src, MIN_SCALE, fixedQ01)
+    return smallest ? { blob: smallest, q: fixedQ01, scale: MIN_SCALE } : { blob: first, q: fixedQ01, scale: 1 }
+  }
+}
+
+// Judged on a small preview: resampling only softens edges, flat areas stay flat
+async function analyse<I extends Raster>(
+  backend: EncoderBackend<I>,
+  img: I,
+  filter: ResampleFilter,
+): Promise<SourceAnalysis> {
+  const k = Math.min(1, 128 / Math.max(img.width, img.height))
+  const w = Math.max(1, Math.round(img.width * k))
+  const h = Math.max(1, Math.round(img.height * k))
+  const preview = k < 1 ? await backend.resize(img, w, h, { filter }) : img
+  try {
+    const { data, width } = await backend.pixels(preview)
+    return { graphics: looksLikeGraphics(data, width), transparent: hasTransparency(data) }
+  } finally {
+    if (preview !== img) backend.release?.(preview)
+  }
+}
+
+// Rotate and flip, then crop at full resolution. Returns the source itself when there is nothing to do.
+async function applyEdits<I extends Raster>(backend: EncoderBackend<I>, source: I, edits: ImageEdits | undefined) {
+  if (!hasEdits(edits)) return source
+  const oriented = hasOrientation(edits!) ? await backend.orient(source, edits!) : source
+  if (!edits!.crop) return oriented
+  const crop = cropPixels(edits!.crop, oriented.width, oriented.height)
+  try {
+    return await backend.resize(oriented, crop.sw, crop.sh, { crop })
+  } finally {
+    if (oriented !== source) backend.release?.(oriented)
+  }
+}
+
+// Text is rendered once at a probe size to measure it, then again at the size that fills the requested width
+async function overlayLayer<I extends Raster>(backend: EncoderBackend<I>, width: number, o: OverlayOptions) {
+  if (o.overlay === "image") {
+    try {
+      return await backend.decode(dataUriToBlob(o.overlayImage))
+    } catch {
+      throw new Error("The watermark image can't be decoded")
+    }
+  }
+  const probePx = 100
+  const probe = await backend.renderText(o.overlayText, probePx, o.overlayColor)
+  backend.release?.(probe)
+  const fontPx = Math.max(4, (probePx * width * o.overlayScale) / 100 / probe.width)
+  return backend.renderText(o.overlayText, fontPx, o.overlayColor)
+}
+
+// The layer is resampled to its placed size here, so the backends only draw it 1:1
+async function applyOverlay<I extends Raster>(
+  backend: EncoderBackend<I>,
+  img: I,
+  o: OverlayOptions,
+  filter: ResampleFilter,
+) {
+  if (!hasOverlay(o)) return img
+  const layer = await overlayLayer(backend, img.width, o)
+  let sized = layer
+  try {
+    const placement = placeOverlay(img.width, img.height, layer.width, layer.height, o)
+    if (placement.width !== layer.width || placement.height !== layer.height) {
+      sized = await backend.resize(layer, placement.width, placement.height, { filter })
+    }
+    return await backend.composite(img, sized, placement, Math.min(Math.max(o.overlayOpacity, 0), 100) / 100)
+  } finally {
+    backend.release?.(layer)
+    if (sized !== layer) backend.release?.(sized)
+  }
+}
+
+// Apply the edits, resize per the settings, burn in the overlay, then run the mode's search. The source is left untouched
+// (the caller owns it).
+export async function convertImage<I extends Raster>(
+  source: I,
+  settings: ConvertSettings,
+  { backend, onProgress, signal, metadataSource, edits }: ConvertOptions<I>,
+): Promise<ConvertResult> {
+  const started = Date.now()
+  const metadata = metadataSource
+    ? selectMetadata(await readMetadata(metadataSource), settings.metadata, settings.colorProfile)
+    : null
+  // metadata is added after the search, so keep room for it under the cap
+  const overheadKB = metadataOverhead(metadata, settings.format) / 1024
+
+  // edits and the explicit resize happen first; the size searches then scale relative to this base
+  const edited = await applyEdits(backend, source, edits)
+  const plan = planResize(edited.width, edited.height, settings)
+  let base: I
+  try {
+    base = await backend.resize(edited, plan.width, plan.height, { crop: plan, filter: settings.resampleFilter })
+  } finally {
+    if (edited !== source) backend.release?.(edited)
+  }
+  const canUpscale = plan.maxUpscale > 1.001
+
+  const encodeOptions = { webpMode: settings.webpMode, alpha: settings.alpha, background: settings.background }
+  const resampling = { filter: settings.resampleFilter, sharpen: Math.min(Math.max(settings.sharpen, 0), 100) }
+  const search = new Search(backend, settings.format, encodeOptions, resampling, onProgress, signal)
+  const fixedQ = Math.min(Math.max(settings.qualityPct / 100, 0.01), 1)
+  let res: Attempt
+  let analysis: SourceAnalysis
+  let soft: I | undefined
+
+  try {
+    const overlaid = await applyOverlay(backend, base, settings, settings.resampleFilter)
+    if (overlaid !== base) {
+      backend.release?.(base)
+      base = overlaid
+    }
+    // a resized base is encoded sharpened, while the searches keep scaling from its soft pixels
+    if (resampling.sharpen && (plan.width !== plan.sw || plan.height !== plan.sh)) {
+      const sharpened = await backend.resize(base, base.width, base.height, resampling)
+      soft = base
+      base = sharpened
+      search.scaleFrom(base, soft)
+    }
+    analysis = await analyse(backend, base, settings.resampleFilter)
+    if (settings.mode === "auto") {
+      const blob = await search.encode(base, 0.9)
+      if (!blob) throw new Error(`Failed to convert to ${search.label}`)
+      res = { blob, q: 0.9, scale: 1 }
+    } else if (settings.mode === "quality") {
+      const blob = await search.encode(base, fixedQ)
+      if (!blob) throw new Error(`Failed to convert to ${search.label}`)
+      res = { blob, q: fixedQ, scale: 1 }
+    } else if (settings.mode === "both") {
+      const target = Math.max(1, settings.maxSizeKB - overheadKB)
+      res = await search.fitToSizeWithFixedQuality(
+        base,
+        target,
+        fixedQ,
+        canUpscale /* force upscale to approach cap, unless the resize settings forbid it */,
+        plan.maxUpscale,
+      )
+    } else if (settings.mode === "visual") {
+      res = await search.findQualityForTargetScore(base, Math.min(Math.max(settings.targetSsim, 0), 1))
+    } else {
+      // mode === "size"
+      const target = Math.max(1, settings.maxSizeKB - overheadKB)
+      res = await search.convertToTargetSize(
+        base,
+        target,
+        settings.allowUpscale && canUpscale,
+        plan.maxUpscale,
+        settings.sizeStrategy,
+      )
+    }
+  } finally {
+    backend.release?.(base)
+    if (soft) backend.release?.(soft)
+  }
+
+  const width = Math.max(1, Math.floor(plan.width * res.scale))
+  const height = Math.max(1, Math.floor(plan.height * res.scale))
+  return {
+    ...res,
+    blob: await embedMetadata(res.blob, settings.format, metadata, { width, height }),
+    q: search.lossy ? res.q : 1,
+    width,
+    height,
+    analysis,
+    diagnostics: {
+      encodes: search.encodes,
+      cacheHits: search.cacheHits,
+      elapsedMs: Date.now() - started,
+      probes: search.probes,
+    },
+  }
+}
+
+// Animated GIF / APNG input becomes an animated WEBP, converted as a whole by the same searches (see
+// animatedBackend). Other output formats can't animate, so only the first frame is decoded. Null for still images,
+// which the caller converts as usual.
+export async function convertAnimation<I extends Raster>(
+  input: Blob,
+  settings: ConvertSettings,
+  options: ConvertOptions<I>,
+): Promise<ConvertResult | null> {
+  const webp = settings.format === "webp"
+  const animation = await decodeAnimation(input, options.backend, {
+    keepColorSpace: keepsColorSpace(settings.format, settings.colorProfile),
+    maxFps: webp ? settings.animationFps : 0,
+    maxFrames: webp ? 0 : 1,
+  })
+  if (!animation) return null
+  const backend = animatedBackend(options.backend)
+  const opts = { metadataSource: input, ...options, backend }
+  try {
+    if (!webp) {
+      const first = { ...animation, delays: [0] }
+      return { ...(await convertImage(first, settings, opts)), firstFrameOnly: true }
+    }
+    return { ...(await convertImage(animation, settings, opts)), animation: animationInfo(animation) }
+  } finally {
+    backend.release?.(animation)
+  }
+}
+
+// Blob in, result out: decodes with the backend and converts
+export async function convertBlob<I extends Raster>(
+  input: Blob,
+  settings: ConvertSettings,
+  options: ConvertOptions<I>,
+): Promise<ConvertResult> {
+  const animated = await convertAnimation(input, settings, options)
+  if (animated) return animated
+  const source = await options.backend.decode(input, {
+    keepColorSpace: keepsColorSpace(settings.format, settings.colorProfile),
+  })
+  try {
+    return await convertImage(source, settings, { metadataSource: input, ...options })
+  } finally {
+    options.backend.release?.(source)
+  }
+}
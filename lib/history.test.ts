@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_SETTINGS } from "@/lib/engine"
+import { entriesToEvict, matchesHistory, type HistoryEntry } from "@/lib/history"
+
+function entry(id: string, createdAt: number, sourceBytes: number, outputBytes: number): HistoryEntry {
+  return {
+    id,
+    createdAt,
+    sourceName: `${id}.png`,
+    source: new Blob([new Uint8Array(sourceBytes)]),
+    settings: DEFAULT_SETTINGS,
+    files: [
+      { name: `${id}.webp`, format: "webp", width: 10, height: 10, blob: new Blob([new Uint8Array(outputBytes)]) },
+    ],
+    qualityPct: 90,
+    scalePct: 100,
+    ssim: null,
+  }
+}
+
+describe("entriesToEvict", () => {
+  const entries = [entry("b", 2, 300, 100), entry("a", 1, 300, 100), entry("c", 3, 300, 100)]
+
+  it("keeps everything under the quota", () => {
+    expect(entriesToEvict(entries, 1200)).toEqual([])
+  })
+
+  it("drops the oldest entries first, counting source and output bytes", () => {
+    expect(entriesToEvict(entries, 1000).map((e) => e.id)).toEqual(["a"])
+    expect(entriesToEvict(entries, 399).map((e) => e.id)).toEqual(["a", "b", "c"])
+  })
+})
+
+describe("matchesHistory", () => {
+  it("matches source names, output names and formats case-insensitively", () => {
+    const e = { ...entry("Holiday-Photo", 1, 1, 1), settings: { ...DEFAULT_SETTINGS, format: "avif" as const } }
+    expect(matchesHistory(e, "")).toBe(true)
+    expect(matchesHistory(e, "holiday")).toBe(true)
+    expect(matchesHistory(e, ".webp")).toBe(true)
+    expect(matchesHistory(e, "AVIF")).toBe(true)
+    expect(matchesHistory(e, "beach")).toBe(false)
+  })
+})
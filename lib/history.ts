@@ -0,0 +1,190 @@
+import type { ImageEdits } from "@/lib/edits"
+import type { ConvertSettings } from "@/lib/engine"
+import type { OutputFormat } from "@/lib/output-formats"
+import { normalizeSettings } from "@/lib/presets"
+
+// One converted file as stored; responsive sets have several
+export type HistoryFile = {
+  name: string
+  format: OutputFormat
+  width: number | null
+  height: number | null
+  blob: Blob
+}
+
+export type HistoryEntry = {
+  id: string
+  createdAt: number
+  sourceName: string
+  // the original file, kept so the entry can be converted again after a reload
+  source: Blob
+  settings: ConvertSettings
+  // rotate / flip / crop the outputs were made with
+  edits?: ImageEdits
+  files: HistoryFile[]
+  qualityPct: number | null
+  scalePct: number | null
+  ssim: number | null
+}
+
+const DB_NAME = "pixify"
+const DB_VERSION = 1
+const STORE = "history"
+const QUOTA_KEY = "pixify:history-quota:v1"
+
+export const HISTORY_QUOTA_OPTIONS = [
+  { label: "Off", bytes: 0 },
+  { label: "50 MB", bytes: 50 * 1024 * 1024 },
+  { label: "200 MB", bytes: 200 * 1024 * 1024 },
+  { label: "500 MB", bytes: 500 * 1024 * 1024 },
+  { label: "1 GB", bytes: 1024 * 1024 * 1024 },
+]
+export const DEFAULT_HISTORY_QUOTA = HISTORY_QUOTA_OPTIONS[2].bytes
+
+// Bytes an entry takes up: the source plus every output
+export function entryBytes(entry: HistoryEntry) {
+  return entry.source.size + entry.files.reduce((n, f) => n + f.blob.size, 0)
+}
+
+// Oldest entries to drop so the rest fit in the quota
+export function entriesToEvict(entries: HistoryEntry[], quotaBytes: number) {
+  let total = entries.reduce((n, e) => n + entryBytes(e), 0)
+  const evict: HistoryEntry[] = []
+  for (const e of [...entries].sort((a, b) => a.createdAt - b.createdAt)) {
+    if (total <= quotaBytes) break
+    evict.push(e)
+    total -= entryBytes(e)
+  }
+  return evict
+}
+
+// Case-insensitive match on the source and output names and the output format
+export function matchesHistory(entry: HistoryEntry, query: string) {
+  const q = query.trim().toLowerCase()
+  if (!q) return true
+  return [entry.sourceName, entry.settings.format, ...entry.files.map((f) => f.name)].some((s) =>
+    s.toLowerCase().includes(q),
+  )
+}
+
+export function loadHistoryQuota() {
+  try {
+    const raw = localStorage.getItem(QUOTA_KEY)
+    const n = Number(raw)
+    return raw !== null && HISTORY_QUOTA_OPTIONS.some((o) => o.bytes === n) ? n : DEFAULT_HISTORY_QUOTA
+  } catch {
+    return DEFAULT_HISTORY_QUOTA
+  }
+}
+
+export function saveHistoryQuota(bytes: number) {
+  try {
+    localStorage.setItem(QUOTA_KEY, String(bytes))
+  } catch {
+    // storage disabled; the quota resets to the default on reload
+  }
+}
+
+function request<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+function done(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new DOMException("Transaction aborted", "AbortError"))
+  })
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDb() {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("History needs IndexedDB"))
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => req.result.createObjectStore(STORE, { keyPath: "id" })
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  }).catch((err) => {
+    // let the next call retry (e.g. after the user allowed storage)
+    dbPromise = null
+    throw err
+  })
+  return dbPromise
+}
+
+// Entries written by an older version may miss fields; settings are normalised like presets
+function normalizeEntry(raw: unknown): HistoryEntry | null {
+  if (!raw || typeof raw !== "object") return null
+  const r = raw as Record<string, unknown>
+  const settings = normalizeSettings(r.settings)
+  if (typeof r.id !== "string" || !r.id || !(r.source instanceof Blob) || !Array.isArray(r.files) || !settings) {
+    return null
+  }
+  const numOrNull = (v: unknown) => (typeof v === "number" && Number.isFinite(v) ? v : null)
+  return {
+    id: r.id,
+    createdAt: numOrNull(r.createdAt) ?? 0,
+    sourceName: typeof r.sourceName === "string" ? r.sourceName : "image",
+    source: r.source,
+    settings,
+    edits: r.edits && typeof r.edits === "object" ? (r.edits as ImageEdits) : undefined,
+    files: r.files.filter(
+      (f: unknown): f is HistoryFile => !!f && typeof f === "object" && (f as HistoryFile).blob instanceof Blob,
+    ),
+    qualityPct: numOrNull(r.qualityPct),
+    scalePct: numOrNull(r.scalePct),
+    ssim: numOrNull(r.ssim),
+  }
+}
+
+// Newest first
+export async function listHistory(): Promise<HistoryEntry[]> {
+  const db = await openDb()
+  const all = await request(db.transaction(STORE).objectStore(STORE).getAll())
+  return all
+    .map(normalizeEntry)
+    .filter((e): e is HistoryEntry => !!e)
+    .sort((a, b) => b.createdAt - a.createdAt)
+}
+
+// Store an entry, then drop the oldest ones until everything fits in the quota.
+// An entry larger than the whole quota is not kept at all.
+export async function addHistory(entry: HistoryEntry, quotaBytes: number) {
+  if (quotaBytes <= 0 || entryBytes(entry) > quotaBytes) return
+  const db = await openDb()
+  const tx = db.transaction(STORE, "readwrite")
+  tx.objectStore(STORE).put(entry)
+  await evict(tx, quotaBytes)
+}
+
+// Apply a lowered quota to what is already stored
+export async function trimHistory(quotaBytes: number) {
+  const db = await openDb()
+  await evict(db.transaction(STORE, "readwrite"), quotaBytes)
+}
+
+async function evict(tx: IDBTransaction, quotaBytes: number) {
+  const store = tx.objectStore(STORE)
+  const all = await request(store.getAll())
+  for (const e of entriesToEvict(all, quotaBytes)) store.delete(e.id)
+  await done(tx)
+}
+
+export async function deleteHistory(id: string) {
+  const db = await openDb()
+  const tx = db.transaction(STORE, "readwrite")
+  tx.objectStore(STORE).delete(id)
+  await done(tx)
+}
+
+export async function clearHistory() {
+  const db = await openDb()
+  const tx = db.transaction(STORE, "readwrite")
+  tx.objectStore(STORE).clear()
+  await done(tx)
+}
@@ -0,0 +1,153 @@
+export type InputKind = "raster" | "svg"
+
+export type InputCheck = { ok: true; kind: InputKind; mime: string } | { ok: false; reason: string }
+
+// Raster formats every current browser can decode through <img> / createImageBitmap.
+// AVIF and BMP are listed too; if a given browser can't decode them the item fails with a clear error.
+const RASTER_TYPES: Record<string, string[]> = {
+  "image/png": ["png", "apng"],
+  "image/jpeg": ["jpg", "jpeg", "jfif", "pjpeg", "pjp"],
+  "image/gif": ["gif"],
+  "image/bmp": ["bmp"],
+  "image/webp": ["webp"],
+  "image/avif": ["avif"],
+}
+
+const SVG_TYPE = "image/svg+xml"
+
+// Some OSes report legacy or empty MIME types; map those back to a known type via the extension.
+const TYPE_ALIASES: Record<string, string> = {
+  "image/jpg": "image/jpeg",
+  "image/pjpeg": "image/jpeg",
+  "image/x-png": "image/png",
+  "image/apng": "image/png",
+  "image/x-ms-bmp": "image/bmp",
+  "image/x-bmp": "image/bmp",
+}
+
+export const INPUT_ACCEPT = [
+  ...Object.keys(RASTER_TYPES),
+  SVG_TYPE,
+  ...Object.values(RASTER_TYPES)
+    .flat()
+    .map((ext) => `.${ext}`),
+  ".svg",
+].join(",")
+
+export const INPUT_FORMAT_LABEL = "PNG, JPEG, GIF, BMP, WebP, AVIF or SVG"
+
+function extensionOf(name: string) {
+  const dot = name.lastIndexOf(".")
+  return dot >= 0 ? name.slice(dot + 1).toLowerCase() : ""
+}
+
+function mimeFromExtension(ext: string): string | null {
+  if (ext === "svg") return SVG_TYPE
+  for (const [mime, exts] of Object.entries(RASTER_TYPES)) {
+    if (exts.includes(ext)) return mime
+  }
+  return null
+}
+
+// Decide whether a dropped/selected file can be converted, and why not if it can't.
+export function checkInputFile(file: File): InputCheck {
+  if (file.size === 0) return { ok: false, reason: "File is empty" }
+
+  const reported = TYPE_ALIASES[file.type] ?? file.type
+  const known = reported === SVG_TYPE || reported in RASTER_TYPES
+  const mime = known ? reported : mimeFromExtension(extensionOf(file.name)) || reported
+
+  if (!mime) return { ok: false, reason: "Unknown file type" }
+  if (mime === SVG_TYPE) return { ok: true, kind: "svg", mime }
+  if (mime in RASTER_TYPES) return { ok: true, kind: "raster", mime }
+  if (mime.startsWith("image/")) {
+    return { ok: false, reason: `Unsupported image format (${mime.replace("image/", "").toUpperCase()})` }
+  }
+  return { ok: false, reason: `Not an image (${mime})` }
+}
+
+// Strip the input extension so the output extension can be appended. Names may carry a folder path
+// ("icons/logo.png"), so only a dot in the last segment counts.
+export function baseName(name: string) {
+  const dot = name.lastIndexOf(".")
+  return dot > name.lastIndexOf("/") + 1 ? name.slice(0, dot) : name
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image()
+    img.crossOrigin = "anonymous" // avoid CORS issues on canvas
+    img.onload = () => resolve(img)
+    img.onerror = () => reject(new Error("Failed to load image"))
+    img.src = src
+  })
+}
+
+function parseSvgLength(value: string | null): number | null {
+  if (!value) return null
+  // percentages and font-relative units have no intrinsic pixel size
+  if (/%|em|ex|ch|vw|vh/.test(value)) return null
+  const n = Number.parseFloat(value)
+  return Number.isFinite(n) && n > 0 ? n : null
+}
+
+// Rewrite the SVG root so the browser rasterises it at the requested size rather than upscaling a bitmap.
+async function svgAtSize(file: File, renderSize: number) {
+  const text = await file.text()
+  const doc = new DOMParser().parseFromString(text, SVG_TYPE)
+  const root = doc.documentElement
+  if (!root || root.nodeName.toLowerCase() !== "svg" || doc.getElementsByTagName("parsererror").length) {
+    throw new Error("Invalid SVG file")
+  }
+
+  const viewBox = (root.getAttribute("viewBox") || "")
+    .split(/[\s,]+/)
+    .map(Number)
+    .filter((n) => Number.isFinite(n))
+  let w = parseSvgLength(root.getAttribute("width"))
+  let h = parseSvgLength(root.getAttribute("height"))
+  if (viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    if (!w && !h) {
+      w = viewBox[2]
+      h = viewBox[3]
+    } else if (!w && h) {
+      w = (h * viewBox[2]) / viewBox[3]
+    } else if (w && !h) {
+      h = (w * viewBox[3]) / viewBox[2]
+    }
+  }
+  // browser default for replaced elements without an intrinsic size
+  w = w || 300
+  h = h || 150
+
+  if (viewBox.length !== 4) root.setAttribute("viewBox", `0 0 ${w} ${h}`)
+  const scale = Math.max(1, renderSize) / Math.max(w, h)
+  const width = Math.max(1, Math.round(w * scale))
+  const height = Math.max(1, Math.round(h * scale))
+  root.setAttribute("width", String(width))
+  root.setAttribute("height", String(height))
+
+  const blob = new Blob([new XMLSerializer().serializeToString(doc)], { type: SVG_TYPE })
+  return { blob, width, height }
+}
+
+// Hand the conversion workers something they can decode: raster files go through as-is (workers
+// decode them with createImageBitmap), SVGs need the DOM so they are rasterised here at renderSize.
+export async function prepareSource(file: File, kind: InputKind, svgRenderSize: number): Promise<Blob | ImageBitmap> {
+  if (kind === "raster") return file
+
+  const { blob, width, height } = await svgAtSize(file, svgRenderSize)
+  const url = URL.createObjectURL(blob)
+  try {
+    const img = await loadImage(url)
+    const canvas = document.createElement("canvas")
+    canvas.width = width
+    canvas.height = height
+    const ctx = canvas.getContext("2d")
+    if (!ctx) throw new Error("Unable to get canvas context")
+    ctx.drawImage(img, 0, 0, width, height)
+    return await createImageBitmap(canvas)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest"
+import { baseName } from "@/lib/image-input"
+import { nameFromUrl, parseImportUrl, pastedFiles, pastedName } from "@/lib/input-sources"
+
+describe("pastedName", () => {
+  const date = new Date(2026, 2, 7, 9, 5, 3)
+
+  it("stamps pasted images with the time and the matching extension", () => {
+    expect(pastedName("image/png", 0, date)).toBe("Pasted 2026-03-07 09.05.03.png")
+    expect(pastedName("image/jpeg", 1, date)).toBe("Pasted 2026-03-07 09.05.03 (2).jpg")
+  })
+
+  it("keeps real file names and drops non-images", () => {
+    const data = {
+      files: [
+        new File(["a"], "image.png", { type: "image/png" }),
+        new File(["b"], "holiday.jpg", { type: "image/jpeg" }),
+        new File(["c"], "notes.txt", { type: "text/plain" }),
+      ],
+    } as unknown as DataTransfer
+    expect(pastedFiles(data, date).map((s) => s.name)).toEqual(["Pasted 2026-03-07 09.05.03.png", "holiday.jpg"])
+  })
+})
+
+describe("nameFromUrl", () => {
+  it("uses the last path segment, decoded", () => {
+    expect(nameFromUrl(new URL("https://cdn.test/img/hero%20banner.png?v=3"), "image/png", null)).toBe(
+      "hero banner.png",
+    )
+  })
+
+  it("prefers the Content-Disposition filename", () => {
+    const url = new URL("https://cdn.test/download?id=7")
+    expect(nameFromUrl(url, "image/jpeg", 'attachment; filename="team.jpg"')).toBe("team.jpg")
+  })
+
+  it("adds an extension from the content type when the URL has none", () => {
+    expect(nameFromUrl(new URL("http://assets.local/thumbs/42"), "image/webp; charset=binary", null)).toBe("42.webp")
+    expect(nameFromUrl(new URL("http://assets.local/"), "image/png", null)).toBe("assets.local.png")
+  })
+})
+
+describe("parseImportUrl", () => {
+  it("accepts only http and https", () => {
+    expect(parseImportUrl("  https://a.test/x.png ")?.href).toBe("https://a.test/x.png")
+    expect(parseImportUrl("file:///etc/passwd")).toBeNull()
+    expect(parseImportUrl("not a url")).toBeNull()
+  })
+})
+
+describe("baseName", () => {
+  it("keeps folder paths and ignores dots in folder names", () => {
+    expect(baseName("icons/social/logo.png")).toBe("icons/social/logo")
+    expect(baseName("v1.2/README")).toBe("v1.2/README")
+    expect(baseName("assets/.hidden")).toBe("assets/.hidden")
+  })
+})
@@ -0,0 +1,124 @@
+// Ways of getting files into the queue besides the file picker: folder drops, clipboard paste and URLs.
+// Every source yields the File plus the name shown and used for outputs, which keeps dropped folders'
+// relative paths ("icons/social/logo.png") so ZIP downloads recreate the same structure.
+
+export type SourceFile = {
+  file: File
+  name: string
+}
+
+const EXTENSION_FOR_TYPE: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/gif": "gif",
+  "image/bmp": "bmp",
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/svg+xml": "svg",
+}
+
+export function fromFileList(files: FileList | File[]): SourceFile[] {
+  return Array.from(files, (file) => ({ file, name: file.name }))
+}
+
+function readEntries(reader: FileSystemDirectoryReader) {
+  return new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject))
+}
+
+function entryFile(entry: FileSystemFileEntry) {
+  return new Promise<File>((resolve, reject) => entry.file(resolve, reject))
+}
+
+async function walk(entry: FileSystemEntry, prefix: string, out: SourceFile[]) {
+  // .DS_Store, Thumbs.db-style dotfiles and hidden folders are never images
+  if (prefix && entry.name.startsWith(".")) return
+  if (entry.isFile) {
+    const file = await entryFile(entry as FileSystemFileEntry)
+    out.push({ file, name: prefix + file.name })
+    return
+  }
+  if (!entry.isDirectory) return
+  const reader = (entry as FileSystemDirectoryEntry).createReader()
+  const children: FileSystemEntry[] = []
+  // readEntries hands out directory contents in batches until it returns an empty one
+  for (let batch = await readEntries(reader); batch.length; batch = await readEntries(reader)) children.push(...batch)
+  children.sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }))
+  for (const child of children) await walk(child, `${prefix}${entry.name}/`, out)
+}
+
+// Files from a drop, descending into dropped folders. The entries have to be taken from the
+// DataTransfer before the first await: the browser empties it once the drop handler returns.
+export async function droppedFiles(data: DataTransfer): Promise<SourceFile[]> {
+  const entries = Array.from(data.items, (item) => (item.kind === "file" ? item.webkitGetAsEntry() : null))
+  const files = fromFileList(data.files)
+  // browsers without the entries API (or non-file drops) fall back to the flat file list
+  if (!entries.some((e) => e?.isDirectory)) return files
+  const out: SourceFile[] = []
+  for (const entry of entries) if (entry) await walk(entry, "", out)
+  return out
+}
+
+// Screenshots and images copied from a page all arrive as "image.png", so give them a timestamped name instead
+export function pastedName(type: string, index: number, date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0")
+  const stamp =
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+    ` ${pad(date.getHours())}.${pad(date.getMinutes())}.${pad(date.getSeconds())}`
+  const ext = EXTENSION_FOR_TYPE[type] ?? "png"
+  return `Pasted ${stamp}${index > 0 ? ` (${index + 1})` : ""}.${ext}`
+}
+
+export function pastedFiles(data: DataTransfer, date = new Date()): SourceFile[] {
+  return Array.from(data.files)
+    .filter((f) => f.type.startsWith("image/"))
+    .map((file, i) => ({
+      file,
+      name: !file.name || /^image\.\w+$/i.test(file.name) ? pastedName(file.type, i, date) : file.name,
+    }))
+}
+
+// Name for a downloaded image: the Content-Disposition filename if any, else the last path segment,
+// with an extension added from the content type when it has no image one (e.g. "/thumbs/42?w=800").
+export function nameFromUrl(url: URL, type: string, disposition: string | null) {
+  const fromHeader = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1]
+  let name = ""
+  try {
+    name = decodeURIComponent(fromHeader ?? url.pathname.split("/").pop() ?? "")
+  } catch {
+    name = fromHeader ?? ""
+  }
+  name = name.replace(/[\\/]/g, "_").trim()
+  const ext = EXTENSION_FOR_TYPE[type.split(";")[0].trim().toLowerCase()]
+  if (!name) name = url.hostname || "image"
+  if (ext && !/\.(png|apng|jpe?g|jfif|gif|bmp|webp|avif|svg)$/i.test(name)) name += `.${ext}`
+  return name
+}
+
+export function parseImportUrl(value: string) {
+  try {
+    const url = new URL(value.trim())
+    return url.protocol === "http:" || url.protocol === "https:" ? url : null
+  } catch {
+    return null
+  }
+}
+
+export async function fetchImage(url: URL): Promise<SourceFile> {
+  let res: Response
+  try {
+    res = await fetch(url)
+  } catch {
+    // fetch only says "Failed to fetch"; by far the most common cause is a missing CORS header
+    throw new Error("Could not download (the server may not allow cross-origin requests)")
+  }
+  if (!res.ok) throw new Error(`Server answered ${res.status}${res.statusText ? ` ${res.statusText}` : ""}`)
+  const blob = await res.blob()
+  const type = res.headers.get("content-type") ?? blob.type
+  const name = nameFromUrl(url, type, res.headers.get("content-disposition"))
+  const lastModified = Date.parse(res.headers.get("last-modified") ?? "")
+  const file = new File([blob], name, {
+    type: blob.type || type,
+    lastModified: Number.isFinite(lastModified) ? lastModified : Date.now(),
+  })
+  return { file, name }
+}
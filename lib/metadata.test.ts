@@ -0,0 +1,195 @@
+import { describe, expect, it } from "vitest"
+import { embedMetadata, metadataOverhead, readMetadata, selectMetadata, type ImageMetadata } from "@/lib/metadata"
+import { crc32 } from "@/lib/zip"
+
+const bytes = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0))
+
+function concat(parts: Uint8Array[]) {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  parts.reduce((at, p) => (out.set(p, at), at + p.length), 0)
+  return out
+}
+
+// Big-endian TIFF with IFD0 entries: [tag, type, value] where ASCII values live after the IFD
+function exif(entries: [number, "ascii" | "short", string | number][]) {
+  const ifdEnd = 8 + 2 + entries.length * 12 + 4
+  const data: Uint8Array[] = []
+  let offset = ifdEnd
+  const ifd = new Uint8Array(2 + entries.length * 12 + 4)
+  const view = new DataView(ifd.buffer)
+  view.setUint16(0, entries.length)
+  entries.forEach(([tag, type, value], n) => {
+    const at = 2 + n * 12
+    view.setUint16(at, tag)
+    if (type === "short") {
+      view.setUint16(at + 2, 3)
+      view.setUint32(at + 4, 1)
+      view.setUint16(at + 8, value as number)
+    } else {
+      const text = bytes(`${value}\0`)
+      view.setUint16(at + 2, 2)
+      view.setUint32(at + 4, text.length)
+      view.setUint32(at + 8, offset)
+      data.push(text)
+      offset += text.length
+    }
+  })
+  return concat([bytes("MM\0\x2a\0\0\0\x08"), ifd, ...data])
+}
+
+const SOURCE_EXIF = exif([
+  [0x0112, "short", 6],
+  [0x013b, "ascii", "Jane Doe"],
+  [0x0131, "ascii", "Camera firmware 1.0"],
+  [0x8298, "ascii", "(c) 2026 Jane Doe"],
+])
+const ICC = bytes("fake icc profile ".repeat(40))
+const XMP = bytes('<x:xmpmeta xmlns:x="adobe:ns:meta/"/>')
+
+function jpegSegment(marker: number, payload: Uint8Array) {
+  const len = payload.length + 2
+  return concat([new Uint8Array([0xff, marker, len >> 8, len & 0xff]), payload])
+}
+
+// SOI, JFIF, the given segments, then a stub scan and EOI
+function jpeg(...segments: Uint8Array[]) {
+  return new Blob([
+    concat([
+      new Uint8Array([0xff, 0xd8]),
+      jpegSegment(0xe0, bytes("JFIF\0\x01\x01\0\0\x01\0\x01\0\0")),
+      ...segments,
+      jpegSegment(0xda, new Uint8Array(10)),
+      new Uint8Array([0xff, 0xd9]),
+    ]),
+  ])
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const body = concat([bytes(type), data])
+  const crc = crc32(body)
+  const len = data.length
+  return concat([
+    new Uint8Array([len >>> 24, (len >> 16) & 0xff, (len >> 8) & 0xff, len & 0xff]),
+    body,
+    new Uint8Array([crc >>> 24, (crc >> 16) & 0xff, (crc >> 8) & 0xff, crc & 0xff]),
+  ])
+}
+
+function png() {
+  return new Blob([
+    concat([
+      bytes("\x89PNG\r\n\x1a\n"),
+      pngChunk("IHDR", new Uint8Array([0, 0, 0, 2, 0, 0, 0, 1, 8, 6, 0, 0, 0])),
+      pngChunk("sRGB", new Uint8Array([0])),
+      pngChunk("IDAT", new Uint8Array(8)),
+      pngChunk("IEND", new Uint8Array()),
+    ]),
+  ])
+}
+
+// A simple lossless WebP; the VP8L header carries the alpha bit embedWebp copies into VP8X
+function webp(alpha: boolean) {
+  const vp8l = new Uint8Array(9)
+  vp8l[0] = 0x2f
+  vp8l[4] = alpha ? 0x10 : 0
+  const body = concat([bytes("VP8L"), new Uint8Array([vp8l.length, 0, 0, 0]), vp8l, new Uint8Array([0])])
+  return new Blob([concat([bytes("RIFF"), new Uint8Array([body.length + 4, 0, 0, 0]), bytes("WEBP"), body])])
+}
+
+async function fourccs(blob: Blob) {
+  const b = new Uint8Array(await blob.arrayBuffer())
+  const out: string[] = []
+  for (let i = 12; i + 8 <= b.length;) {
+    const len = b[i + 4] | (b[i + 5] << 8) | (b[i + 6] << 16) | (b[i + 7] << 24)
+    out.push(String.fromCharCode(...b.subarray(i, i + 4)))
+    i += 8 + len + (len & 1)
+  }
+  return out
+}
+
+describe("readMetadata", () => {
+  it("reads EXIF, XMP and a chunked ICC profile from JPEG", async () => {
+    const half = ICC.length / 2
+    const meta = await readMetadata(
+      jpeg(
+        jpegSegment(0xe1, concat([bytes("Exif\0\0"), SOURCE_EXIF])),
+        jpegSegment(0xe1, concat([bytes("http://ns.adobe.com/xap/1.0/\0"), XMP])),
+        // chunks out of order on purpose
+        jpegSegment(0xe2, concat([bytes("ICC_PROFILE\0\x02\x02"), ICC.subarray(half)])),
+        jpegSegment(0xe2, concat([bytes("ICC_PROFILE\0\x01\x02"), ICC.subarray(0, half)])),
+      ),
+    )
+    expect(meta.exif).toEqual(SOURCE_EXIF)
+    expect(meta.xmp).toEqual(XMP)
+    expect(meta.icc).toEqual(ICC)
+  })
+
+  it("returns nothing for unknown or truncated files", async () => {
+    expect(await readMetadata(new Blob([bytes("GIF89a")]))).toEqual({})
+    expect(await readMetadata(new Blob([new Uint8Array([0xff, 0xd8, 0xff, 0xe1, 0xff])]))).toEqual({})
+  })
+})
+
+describe("selectMetadata", () => {
+  const meta: ImageMetadata = { exif: SOURCE_EXIF, xmp: XMP, icc: ICC }
+
+  it("keeps nothing when stripping sRGB output", () => {
+    expect(selectMetadata(meta, "strip", "srgb")).toBeNull()
+  })
+
+  it("keeps the ICC profile with the keep colour policy whatever the metadata policy", () => {
+    expect(selectMetadata(meta, "strip", "keep")).toEqual({ icc: ICC })
+  })
+
+  it("rebuilds EXIF with only the author and copyright", () => {
+    const selected = selectMetadata(meta, "copyright", "srgb")!
+    expect(Object.keys(selected)).toEqual(["exif"])
+    const text = new TextDecoder().decode(selected.exif)
+    expect(text).toContain("Jane Doe")
+    expect(text).toContain("(c) 2026 Jane Doe")
+    expect(text).not.toContain("firmware")
+  })
+
+  it("resets the orientation when keeping everything, since pixels are already rotated", () => {
+    const selected = selectMetadata(meta, "all", "srgb")!
+    expect(selected.xmp).toEqual(XMP)
+    // the orientation entry is the first in IFD0: value at 8 (header) + 2 (count) + 8
+    expect(new DataView(selected.exif!.buffer).getUint16(18)).toBe(1)
+    expect(new DataView(SOURCE_EXIF.buffer).getUint16(18)).toBe(6)
+  })
+})
+
+describe("embedMetadata", () => {
+  const meta: ImageMetadata = { exif: SOURCE_EXIF, xmp: XMP, icc: ICC }
+
+  it("round-trips through JPEG and stays within the reserved overhead", async () => {
+    const input = jpeg()
+    const out = await embedMetadata(input, "jpeg", meta, { width: 2, height: 1 })
+    expect(await readMetadata(out)).toEqual(meta)
+    expect(out.size - input.size).toBeLessThanOrEqual(metadataOverhead(meta, "jpeg"))
+    // the JFIF segment must stay first
+    expect(new Uint8Array(await out.arrayBuffer()).subarray(2, 4)).toEqual(new Uint8Array([0xff, 0xe0]))
+  })
+
+  it("round-trips through PNG and replaces the sRGB chunk with the profile", async () => {
+    const input = png()
+    const out = await embedMetadata(input, "png", meta, { width: 2, height: 1 })
+    expect(await readMetadata(out)).toEqual(meta)
+    expect(new TextDecoder("latin1").decode(await out.arrayBuffer())).not.toContain("sRGB")
+  })
+
+  it("adds a VP8X header to simple WebP files and keeps the alpha flag", async () => {
+    const out = await embedMetadata(webp(true), "webp", meta, { width: 2, height: 1 })
+    expect(await fourccs(out)).toEqual(["VP8X", "ICCP", "VP8L", "EXIF", "XMP "])
+    const b = new Uint8Array(await out.arrayBuffer())
+    expect(b[20]).toBe(0x10 | 0x20 | 0x08 | 0x04)
+    expect(await readMetadata(out)).toEqual(meta)
+    expect(new DataView(b.buffer).getUint32(4, true)).toBe(b.length - 8)
+  })
+
+  it("leaves AVIF output untouched", async () => {
+    const input = new Blob([bytes("....ftypavif")])
+    expect(await embedMetadata(input, "avif", meta, { width: 2, height: 1 })).toBe(input)
+    expect(metadataOverhead(meta, "avif")).toBe(0)
+  })
+})
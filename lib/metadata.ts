@@ -0,0 +1,380 @@
+import type { OutputFormat } from "@/lib/output-formats"
+import { crc32 } from "@/lib/zip"
+
+// Canvas and WASM encoders write bare pixels, so anything worth keeping from the source (EXIF, XMP, the ICC
+// profile) is read from the original file here and spliced into the encoded output's container afterwards.
+// The PNG / RIFF chunk helpers are also used by lib/animation.ts to split and assemble animations.
+
+export type MetadataPolicy = "strip" | "copyright" | "all"
+
+// "srgb": convert to sRGB on decode (what browsers assume for untagged images)
+// "keep": keep the source's pixel values and embed its ICC profile, so wide-gamut (e.g. Display P3) stays wide
+export type ColorProfilePolicy = "srgb" | "keep"
+
+export type ImageMetadata = {
+  // TIFF structure of the EXIF block, without the "Exif\0\0" prefix
+  exif?: Uint8Array
+  xmp?: Uint8Array
+  icc?: Uint8Array
+}
+
+type Bytes = Uint8Array<ArrayBuffer>
+
+const EXIF_PREFIX = "Exif\0\0"
+const XMP_PREFIX = "http://ns.adobe.com/xap/1.0/\0"
+const ICC_PREFIX = "ICC_PROFILE\0"
+const XMP_KEYWORD = "XML:com.adobe.xmp"
+// APP segments are limited to 64 KB including the length field and the ICC chunk header
+const JPEG_SEGMENT_MAX = 65533
+const ICC_CHUNK_MAX = JPEG_SEGMENT_MAX - ICC_PREFIX.length - 2
+
+const TAG_ORIENTATION = 0x0112
+const TAG_ARTIST = 0x013b
+const TAG_COPYRIGHT = 0x8298
+
+export const latin1 = (s: string) => Uint8Array.from(s, (c) => c.charCodeAt(0))
+
+function startsWith(bytes: Uint8Array, prefix: string, at = 0) {
+  if (bytes.length < at + prefix.length) return false
+  for (let i = 0; i < prefix.length; i++) if (bytes[at + i] !== prefix.charCodeAt(i)) return false
+  return true
+}
+
+export function concat(parts: Uint8Array[]): Bytes {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0))
+  let offset = 0
+  for (const p of parts) {
+    out.set(p, offset)
+    offset += p.length
+  }
+  return out
+}
+
+async function zlib(data: Uint8Array, mode: "compress" | "decompress"): Promise<Bytes> {
+  const stream = new Blob([data.slice()])
+    .stream()
+    .pipeThrough(mode === "compress" ? new CompressionStream("deflate") : new DecompressionStream("deflate"))
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+const u16be = (b: Uint8Array, o: number) => (b[o] << 8) | b[o + 1]
+const u32be = (b: Uint8Array, o: number) => ((b[o] << 24) | (b[o + 1] << 16) | (b[o + 2] << 8) | b[o + 3]) >>> 0
+const u32le = (b: Uint8Array, o: number) => (b[o] | (b[o + 1] << 8) | (b[o + 2] << 16) | (b[o + 3] << 24)) >>> 0
+
+function u32beBytes(n: number) {
+  return new Uint8Array([(n >>> 24) & 0xff, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff])
+}
+
+export function u32leBytes(n: number) {
+  return new Uint8Array([n & 0xff, (n >>> 8) & 0xff, (n >>> 16) & 0xff, (n >>> 24) & 0xff])
+}
+
+// ---- reading ----
+
+function readJpeg(bytes: Uint8Array): ImageMetadata {
+  const meta: ImageMetadata = {}
+  const icc: { seq: number; data: Uint8Array }[] = []
+  let i = 2
+  while (i + 4 <= bytes.length && bytes[i] === 0xff) {
+    const marker = bytes[i + 1]
+    if (marker === 0xff) {
+      i++ // fill byte
+      continue
+    }
+    // start of scan / end of image: no more metadata segments
+    if (marker === 0xda || marker === 0xd9) break
+    const len = u16be(bytes, i + 2)
+    const data = bytes.subarray(i + 4, i + 2 + len)
+    if (marker === 0xe1 && startsWith(data, EXIF_PREFIX)) meta.exif = data.subarray(EXIF_PREFIX.length)
+    else if (marker === 0xe1 && startsWith(data, XMP_PREFIX)) meta.xmp = data.subarray(XMP_PREFIX.length)
+    else if (marker === 0xe2 && startsWith(data, ICC_PREFIX)) {
+      icc.push({ seq: data[ICC_PREFIX.length], data: data.subarray(ICC_PREFIX.length + 2) })
+    }
+    i += 2 + len
+  }
+  if (icc.length) meta.icc = concat(icc.sort((a, b) => a.seq - b.seq).map((c) => c.data))
+  return meta
+}
+
+type PngChunk = { type: string; data: Uint8Array }
+
+export function pngChunks(bytes: Uint8Array): PngChunk[] {
+  const chunks: PngChunk[] = []
+  let i = 8
+  while (i + 12 <= bytes.length) {
+    const len = u32be(bytes, i)
+    const type = String.fromCharCode(...bytes.subarray(i + 4, i + 8))
+    chunks.push({ type, data: bytes.subarray(i + 8, i + 8 + len) })
+    i += 12 + len
+    if (type === "IEND") break
+  }
+  return chunks
+}
+
+async function readPng(bytes: Uint8Array): Promise<ImageMetadata> {
+  const meta: ImageMetadata = {}
+  for (const { type, data } of pngChunks(bytes)) {
+    if (type === "eXIf") meta.exif = data
+    else if (type === "iCCP") {
+      // profile name, NUL, compression method (always 0 = zlib), compressed profile
+      const nul = data.indexOf(0)
+      if (nul > 0) meta.icc = await zlib(data.subarray(nul + 2), "decompress").catch(() => undefined)
+    } else if (type === "iTXt" && startsWith(data, `${XMP_KEYWORD}\0`)) {
+      // keyword, NUL, compressed flag, method, language tag, NUL, translated keyword, NUL, text
+      let p = XMP_KEYWORD.length + 1
+      const compressed = data[p] === 1
+      p += 2
+      p = data.indexOf(0, p) + 1
+      p = data.indexOf(0, p) + 1
+      if (p > 0) meta.xmp = compressed ? await zlib(data.subarray(p), "decompress") : data.subarray(p)
+    }
+  }
+  return meta
+}
+
+type RiffChunk = { fourcc: string; data: Uint8Array }
+
+export function webpChunks(bytes: Uint8Array): RiffChunk[] {
+  const chunks: RiffChunk[] = []
+  let i = 12
+  while (i + 8 <= bytes.length) {
+    const fourcc = String.fromCharCode(...bytes.subarray(i, i + 4))
+    const len = u32le(bytes, i + 4)
+    chunks.push({ fourcc, data: bytes.subarray(i + 8, i + 8 + len) })
+    i += 8 + len + (len & 1)
+  }
+  return chunks
+}
+
+function readWebp(bytes: Uint8Array): ImageMetadata {
+  const meta: ImageMetadata = {}
+  for (const { fourcc, data } of webpChunks(bytes)) {
+    if (fourcc === "EXIF") meta.exif = startsWith(data, EXIF_PREFIX) ? data.subarray(EXIF_PREFIX.length) : data
+    else if (fourcc === "XMP ") meta.xmp = data
+    else if (fourcc === "ICCP") meta.icc = data
+  }
+  return meta
+}
+
+// EXIF, XMP and ICC profile of a JPEG, PNG or WebP file. Other formats (and malformed files) yield nothing.
+export async function readMetadata(file: Blob): Promise<ImageMetadata> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  try {
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) return readJpeg(bytes)
+    if (startsWith(bytes, "\x89PNG\r\n\x1a\n")) return await readPng(bytes)
+    if (startsWith(bytes, "RIFF") && startsWith(bytes, "WEBP", 8)) return readWebp(bytes)
+  } catch {
+    // metadata is best effort; a damaged segment shouldn't fail the conversion
+  }
+  return {}
+}
+
+// ---- EXIF (TIFF) ----
+
+type IfdEntry = { tag: number; type: number; count: number; at: number }
+
+function tiff(exif: Uint8Array) {
+  const le = exif[0] === 0x49 // "II" little endian, "MM" big endian
+  const view = new DataView(exif.buffer, exif.byteOffset, exif.byteLength)
+  const u16 = (o: number) => view.getUint16(o, le)
+  const u32 = (o: number) => view.getUint32(o, le)
+  const ifd0 = u32(4)
+  const entries: IfdEntry[] = []
+  const count = u16(ifd0)
+  for (let n = 0; n < count; n++) {
+    const at = ifd0 + 2 + n * 12
+    entries.push({ tag: u16(at), type: u16(at + 2), count: u32(at + 4), at })
+  }
+  return { le, view, u32, entries }
+}
+
+function asciiTag(exif: Uint8Array, tag: number) {
+  const t = tiff(exif)
+  const e = t.entries.find((x) => x.tag === tag && x.type === 2)
+  if (!e) return null
+  const start = e.count <= 4 ? e.at + 8 : t.u32(e.at + 8)
+  const raw = exif.subarray(start, start + e.count)
+  const text = new TextDecoder().decode(raw).replace(/\0+$/, "").trim()
+  return text || null
+}
+
+// A fresh little-endian TIFF with only ASCII tags in IFD0
+function buildExif(tags: { tag: number; value: string }[]): Bytes {
+  const values = tags.map((t) => concat([new TextEncoder().encode(t.value), new Uint8Array([0])]))
+  const ifdSize = 2 + tags.length * 12 + 4
+  let dataOffset = 8 + ifdSize
+  const size = dataOffset + values.reduce((n, v) => n + (v.length > 4 ? v.length + (v.length & 1) : 0), 0)
+  const out = new Uint8Array(size)
+  const view = new DataView(out.buffer)
+  out.set(latin1("II"))
+  view.setUint16(2, 42, true)
+  view.setUint32(4, 8, true)
+  view.setUint16(8, tags.length, true)
+  tags.forEach((t, n) => {
+    const at = 10 + n * 12
+    const v = values[n]
+    view.setUint16(at, t.tag, true)
+    view.setUint16(at + 2, 2, true) // ASCII
+    view.setUint32(at + 4, v.length, true)
+    if (v.length <= 4) out.set(v, at + 8)
+    else {
+      view.setUint32(at + 8, dataOffset, true)
+      out.set(v, dataOffset)
+      dataOffset += v.length + (v.length & 1)
+    }
+  })
+  return out
+}
+
+// Pixels are rotated on decode, so a kept EXIF block must not ask viewers to rotate them again
+function resetOrientation(exif: Uint8Array): Bytes {
+  const copy = exif.slice()
+  const t = tiff(copy)
+  const e = t.entries.find((x) => x.tag === TAG_ORIENTATION && x.type === 3)
+  if (e) t.view.setUint16(e.at + 8, 1, t.le)
+  return copy
+}
+
+// What to write into the output for a policy; null when there is nothing to embed
+export function selectMetadata(
+  meta: ImageMetadata,
+  policy: MetadataPolicy,
+  colorProfile: ColorProfilePolicy,
+): ImageMetadata | null {
+  const out: ImageMetadata = {}
+  // the profile describes the pixel values, so it travels with "keep" whatever the metadata policy
+  if (colorProfile === "keep" && meta.icc) out.icc = meta.icc
+  try {
+    if (policy === "all") {
+      if (meta.exif) out.exif = resetOrientation(meta.exif)
+      if (meta.xmp) out.xmp = meta.xmp
+    } else if (policy === "copyright" && meta.exif) {
+      const tags = [TAG_ARTIST, TAG_COPYRIGHT]
+        .map((tag) => ({ tag, value: asciiTag(meta.exif!, tag) }))
+        .filter((t): t is { tag: number; value: string } => !!t.value)
+      if (tags.length) out.exif = buildExif(tags)
+    }
+  } catch {
+    // unreadable EXIF is dropped rather than copied half-parsed
+  }
+  return out.exif || out.xmp || out.icc ? out : null
+}
+
+// Whether to decode without colour conversion: only worth it when the output can carry the source's profile
+export function keepsColorSpace(format: OutputFormat, colorProfile: ColorProfilePolicy) {
+  return colorProfile === "keep" && format !== "avif"
+}
+
+// Upper bound of the bytes embedMetadata adds, so size searches can leave room for it
+export function metadataOverhead(meta: ImageMetadata | null, format: OutputFormat) {
+  if (!meta || format === "avif") return 0
+  const exif = meta.exif?.length ?? 0
+  const xmp = meta.xmp?.length ?? 0
+  const icc = meta.icc?.length ?? 0
+  if (format === "jpeg") {
+    return (exif && exif + 10) + (xmp && xmp + 33) + (icc && icc + Math.ceil(icc / ICC_CHUNK_MAX) * 18)
+  }
+  if (format === "png") return (exif && exif + 12) + (xmp && xmp + 36) + (icc && icc + 40)
+  return 18 + (exif && exif + 9) + (xmp && xmp + 9) + (icc && icc + 9)
+}
+
+// ---- writing ----
+
+function jpegSegment(marker: number, ...parts: Uint8Array[]) {
+  const len = parts.reduce((n, p) => n + p.length, 0) + 2
+  return concat([new Uint8Array([0xff, marker, len >> 8, len & 0xff]), ...parts])
+}
+
+function embedJpeg(bytes: Uint8Array, meta: ImageMetadata): Bytes {
+  const segments: Uint8Array[] = []
+  if (meta.exif && meta.exif.length + EXIF_PREFIX.length <= JPEG_SEGMENT_MAX) {
+    segments.push(jpegSegment(0xe1, latin1(EXIF_PREFIX), meta.exif))
+  }
+  if (meta.xmp && meta.xmp.length + XMP_PREFIX.length <= JPEG_SEGMENT_MAX) {
+    segments.push(jpegSegment(0xe1, latin1(XMP_PREFIX), meta.xmp))
+  }
+  if (meta.icc) {
+    const count = Math.ceil(meta.icc.length / ICC_CHUNK_MAX)
+    for (let n = 0; n < count; n++) {
+      const chunk = meta.icc.subarray(n * ICC_CHUNK_MAX, (n + 1) * ICC_CHUNK_MAX)
+      segments.push(jpegSegment(0xe2, latin1(ICC_PREFIX), new Uint8Array([n + 1, count]), chunk))
+    }
+  }
+  // after SOI, and after the JFIF APP0 segment if there is one (it must come first)
+  let at = 2
+  if (bytes[2] === 0xff && bytes[3] === 0xe0) at += 2 + u16be(bytes, 4)
+  return concat([bytes.subarray(0, at), ...segments, bytes.subarray(at)])
+}
+
+export function pngChunk(type: string, data: Uint8Array) {
+  const typeAndData = concat([latin1(type), data])
+  return concat([u32beBytes(data.length), typeAndData, u32beBytes(crc32(typeAndData))])
+}
+
+async function embedPng(bytes: Uint8Array, meta: ImageMetadata): Promise<Bytes> {
+  const extra: Uint8Array[] = []
+  if (meta.icc) extra.push(pngChunk("iCCP", concat([latin1("ICC Profile\0\0"), await zlib(meta.icc, "compress")])))
+  if (meta.exif) extra.push(pngChunk("eXIf", meta.exif))
+  if (meta.xmp) extra.push(pngChunk("iTXt", concat([latin1(`${XMP_KEYWORD}\0\0\0\0\0`), meta.xmp])))
+
+  const out: Uint8Array[] = [bytes.subarray(0, 8)]
+  for (const c of pngChunks(bytes)) {
+    // an embedded profile replaces whatever colour tagging the encoder wrote
+    if (meta.icc && (c.type === "sRGB" || c.type === "iCCP" || c.type === "gAMA" || c.type === "cHRM")) continue
+    out.push(pngChunk(c.type, c.data))
+    if (c.type === "IHDR") out.push(...extra)
+  }
+  return concat(out)
+}
+
+export function riffChunk(fourcc: string, data: Uint8Array) {
+  const parts = [latin1(fourcc), u32leBytes(data.length), data]
+  if (data.length & 1) parts.push(new Uint8Array([0]))
+  return concat(parts)
+}
+
+function embedWebp(bytes: Uint8Array, meta: ImageMetadata, size: { width: number; height: number }): Bytes {
+  const chunks = webpChunks(bytes).filter((c) => c.fourcc !== "ICCP" && c.fourcc !== "EXIF" && c.fourcc !== "XMP ")
+  const vp8x = chunks[0]?.fourcc === "VP8X" ? chunks.shift()!.data : null
+
+  let flags = vp8x ? vp8x[0] : 0
+  if (!vp8x) {
+    // simple (lossy VP8 / lossless VP8L) file: the extended header needs the alpha bit from the bitstream
+    const image = chunks.find((c) => c.fourcc === "VP8L")
+    if (image && (u32le(image.data, 1) >>> 28) & 1) flags |= 0x10
+  }
+  flags = (flags & ~0x2c) | (meta.icc ? 0x20 : 0) | (meta.exif ? 0x08 : 0) | (meta.xmp ? 0x04 : 0)
+
+  const header = new Uint8Array(10)
+  header[0] = flags
+  const w = (vp8x ? vp8x[4] | (vp8x[5] << 8) | (vp8x[6] << 16) : size.width - 1) >>> 0
+  const h = (vp8x ? vp8x[7] | (vp8x[8] << 8) | (vp8x[9] << 16) : size.height - 1) >>> 0
+  header.set([w & 0xff, (w >> 8) & 0xff, (w >> 16) & 0xff, h & 0xff, (h >> 8) & 0xff, (h >> 16) & 0xff], 4)
+
+  const body = concat([
+    riffChunk("VP8X", header),
+    ...(meta.icc ? [riffChunk("ICCP", meta.icc)] : []),
+    ...chunks.map((c) => riffChunk(c.fourcc, c.data)),
+    ...(meta.exif ? [riffChunk("EXIF", meta.exif)] : []),
+    ...(meta.xmp ? [riffChunk("XMP ", meta.xmp)] : []),
+  ])
+  return concat([latin1("RIFF"), u32leBytes(body.length + 4), latin1("WEBP"), body])
+}
+
+// Splice metadata into an encoded image. AVIF output is returned unchanged (its container isn't rewritten here).
+export async function embedMetadata(
+  blob: Blob,
+  format: OutputFormat,
+  meta: ImageMetadata | null,
+  size: { width: number; height: number },
+): Promise<Blob> {
+  if (!meta || format === "avif") return blob
+  const bytes = new Uint8Array(await blob.arrayBuffer())
+  const out =
+    format === "jpeg"
+      ? embedJpeg(bytes, meta)
+      : format === "png"
+        ? await embedPng(bytes, meta)
+        : embedWebp(bytes, meta, size)
+  return new Blob([out], { type: blob.type })
+}
@@ -0,0 +1,145 @@
+import { clearTransparentPixels } from "@/lib/pixels"
+
+export type OutputFormat = "webp" | "avif" | "jpeg" | "png"
+
+// WEBP only: "near-lossless" keeps the lossless bitstream but lets quality control how much the pixels are
+// pre-quantised, so the size searches still have something to trade
+export type WebpMode = "lossy" | "near-lossless" | "lossless"
+
+// "flatten" composites onto the background colour; "clean" zeroes the colour of fully transparent pixels,
+// which is invisible but compresses better. Formats without alpha are always flattened.
+export type AlphaPolicy = "keep" | "flatten" | "clean"
+
+export type EncodeOptions = {
+  webpMode: WebpMode
+  alpha: AlphaPolicy
+  // CSS hex colour used when flattening
+  background: string
+}
+
+export const DEFAULT_ENCODE_OPTIONS: EncodeOptions = { webpMode: "lossy", alpha: "keep", background: "#ffffff" }
+
+type FormatInfo = {
+  label: string
+  mime: string
+  extension: string
+  // lossless formats ignore quality, so size targeting can only change the scale
+  lossy: boolean
+  alpha: boolean
+}
+
+export const OUTPUT_FORMATS: Record<OutputFormat, FormatInfo> = {
+  webp: { label: "WEBP", mime: "image/webp", extension: "webp", lossy: true, alpha: true },
+  avif: { label: "AVIF", mime: "image/avif", extension: "avif", lossy: true, alpha: true },
+  jpeg: { label: "JPEG", mime: "image/jpeg", extension: "jpg", lossy: true, alpha: false },
+  png: { label: "PNG", mime: "image/png", extension: "png", lossy: false, alpha: true },
+}
+
+// Whether quality changes the output for this format (lossless WEBP ignores it like PNG does)
+export function isLossy(format: OutputFormat, webpMode: WebpMode = "lossy") {
+  return OUTPUT_FORMATS[format].lossy && !(format === "webp" && webpMode === "lossless")
+}
+
+// Whether the file is stored with a lossless codec (near-lossless WEBP only pre-quantises, then encodes losslessly)
+export function isLosslessCodec(format: OutputFormat, webpMode: WebpMode = "lossy") {
+  return format === "png" || (format === "webp" && webpMode !== "lossy")
+}
+
+export const OUTPUT_FORMAT_OPTIONS: { value: OutputFormat; label: string; hint: string }[] = [
+  { value: "webp", label: "WEBP", hint: "Best all-round choice" },
+  { value: "avif", label: "AVIF", hint: "Smallest files, slower to encode" },
+  { value: "jpeg", label: "JPEG (progressive)", hint: "Maximum compatibility" },
+  { value: "png", label: "PNG (optimised)", hint: "Lossless re-encode" },
+]
+
+function context(canvas: OffscreenCanvas) {
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Unable to get canvas context")
+  return ctx
+}
+
+function imageDataOf(canvas: OffscreenCanvas) {
+  return context(canvas).getImageData(0, 0, canvas.width, canvas.height)
+}
+
+// Apply the alpha policy on a copy; the searches encode the same canvas many times
+function withAlphaPolicy(canvas: OffscreenCanvas, format: OutputFormat, opts: EncodeOptions) {
+  if (opts.alpha === "flatten" || !OUTPUT_FORMATS[format].alpha) {
+    // composite onto a solid colour instead of letting transparent pixels turn black
+    const flat = new OffscreenCanvas(canvas.width, canvas.height)
+    const ctx = context(flat)
+    ctx.fillStyle = opts.background
+    ctx.fillRect(0, 0, flat.width, flat.height)
+    ctx.drawImage(canvas, 0, 0)
+    return flat
+  }
+  if (opts.alpha === "clean") {
+    const data = imageDataOf(canvas)
+    if (!clearTransparentPixels(data.data)) return canvas
+    const clean = new OffscreenCanvas(canvas.width, canvas.height)
+    context(clean).putImageData(data, 0, 0)
+    return clean
+  }
+  return canvas
+}
+
+function nativeEncode(canvas: OffscreenCanvas, mime: string, q?: number) {
+  return canvas.convertToBlob({ type: mime, quality: q }).catch(() => null)
+}
+
+// Encode a canvas to the chosen output format. q is 0-1 and ignored by lossless formats.
+// Lossy WEBP uses the browser encoder; (near-)lossless WEBP, AVIF, progressive JPEG and optimised PNG use WASM
+// codecs loaded on first use. Works on OffscreenCanvas so it can run inside the conversion workers.
+export async function encodeCanvas(
+  source: OffscreenCanvas,
+  format: OutputFormat,
+  q: number,
+  opts: EncodeOptions = DEFAULT_ENCODE_OPTIONS,
+): Promise<Blob | null> {
+  const info = OUTPUT_FORMATS[format]
+  const q01 = Math.min(Math.max(q, 0), 1)
+  const canvas = withAlphaPolicy(source, format, opts)
+
+  if (format === "webp" && opts.webpMode !== "lossy") {
+    const { encode } = await import("@jsquash/webp")
+    const buf = await encode(imageDataOf(canvas), {
+      lossless: 1,
+      // 100 is exact; lower values quantise more
+      near_lossless: opts.webpMode === "near-lossless" ? Math.round(q01 * 100) : 100,
+      // keep the colour under transparent pixels only when asked to
+      exact: opts.alpha === "keep" ? 1 : 0,
+    })
+    return new Blob([buf], { type: info.mime })
+  }
+
+  if (format === "webp") {
+    const blob = await nativeEncode(canvas, info.mime, q01)
+    // browsers without a WEBP encoder silently fall back to PNG
+    if (blob && blob.type !== info.mime) throw new Error(`This browser can't encode ${info.label}`)
+    return blob
+  }
+
+  if (format === "avif") {
+    const { encode } = await import("@jsquash/avif")
+    const buf = await encode(imageDataOf(canvas), { quality: Math.round(q01 * 100), speed: 8 })
+    return new Blob([buf], { type: info.mime })
+  }
+
+  if (format === "jpeg") {
+    const { encode } = await import("@jsquash/jpeg")
+    const buf = await encode(imageDataOf(canvas), {
+      quality: Math.max(1, Math.round(q01 * 100)),
+      progressive: true,
+      baseline: false,
+      optimize_coding: true,
+    })
+    return new Blob([buf], { type: info.mime })
+  }
+
+  // png: lossless browser encode, then recompress with oxipng
+  const raw = await nativeEncode(canvas, info.mime)
+  if (!raw) return null
+  const { optimise } = await import("@jsquash/oxipng")
+  const buf = await optimise(await raw.arrayBuffer(), { level: 2, optimiseAlpha: true })
+  return buf.byteLength < raw.size ? new Blob([buf], { type: info.mime }) : raw
+}
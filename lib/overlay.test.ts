@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_OVERLAY, dataUriToBlob, hasOverlay, placeOverlay } from "@/lib/overlay"
+
+describe("placeOverlay", () => {
+  const base = { ...DEFAULT_OVERLAY, overlayScale: 20, overlayMargin: 5 }
+
+  it("anchors a single copy inside the margin", () => {
+    expect(placeOverlay(1000, 800, 400, 100, { ...base, overlayAnchor: "bottom-right" })).toEqual({
+      width: 200,
+      height: 50,
+      positions: [{ x: 750, y: 700 }],
+    })
+    expect(placeOverlay(1000, 800, 400, 100, { ...base, overlayAnchor: "top" }).positions).toEqual([{ x: 400, y: 50 }])
+    expect(placeOverlay(1000, 800, 400, 100, { ...base, overlayAnchor: "center" }).positions).toEqual([
+      { x: 400, y: 375 },
+    ])
+  })
+
+  it("shrinks a layer that would not fit", () => {
+    // a tall logo at 100% of the width is limited by the height instead
+    const p = placeOverlay(1000, 200, 100, 100, { ...base, overlayScale: 100 })
+    expect([p.width, p.height]).toEqual([100, 100])
+    expect(p.positions[0].y).toBe(50)
+  })
+
+  it("tiles copies that all stay inside the image", () => {
+    const p = placeOverlay(1000, 600, 100, 50, { ...base, overlayTile: true, overlayScale: 10 })
+    expect(p.positions.length).toBeGreaterThan(20)
+    for (const { x, y } of p.positions) {
+      expect(x).toBeGreaterThanOrEqual(0)
+      expect(y).toBeGreaterThanOrEqual(0)
+      expect(x + p.width).toBeLessThanOrEqual(1000)
+      expect(y + p.height).toBeLessThanOrEqual(600)
+    }
+  })
+})
+
+describe("overlay settings", () => {
+  it("only counts an overlay that draws something", () => {
+    expect(hasOverlay({ ...DEFAULT_OVERLAY, overlay: "text", overlayText: "  " })).toBe(false)
+    expect(hasOverlay({ ...DEFAULT_OVERLAY, overlay: "image" })).toBe(false)
+    expect(hasOverlay({ ...DEFAULT_OVERLAY, overlay: "text", overlayText: "© Pixify" })).toBe(true)
+  })
+
+  it("decodes base64 data URIs", async () => {
+    const blob = dataUriToBlob("data:image/png;base64,iVBORw==")
+    expect(blob.type).toBe("image/png")
+    expect(Array.from(new Uint8Array(await blob.arrayBuffer()))).toEqual([0x89, 0x50, 0x4e, 0x47])
+  })
+})
@@ -0,0 +1,113 @@
+// Watermark / caption burned into the image after resizing and before any encode, so the size searches
+// see the final pixels. Sizes are relative to the image width so one setting suits every output size.
+
+export type OverlayKind = "none" | "image" | "text"
+
+export type OverlayAnchor =
+  "top-left" | "top" | "top-right" | "left" | "center" | "right" | "bottom-left" | "bottom" | "bottom-right"
+
+export type OverlayOptions = {
+  overlay: OverlayKind
+  // data: URI of the uploaded watermark, so the settings stay plain JSON (presets, history)
+  overlayImage: string
+  overlayText: string
+  overlayColor: string
+  overlayAnchor: OverlayAnchor
+  // percentages of the image width
+  overlayScale: number
+  overlayMargin: number
+  // 0-100
+  overlayOpacity: number
+  // repeat across the whole image instead of placing it once at the anchor
+  overlayTile: boolean
+}
+
+// Where the layer goes: every copy is drawn at the same size
+export type OverlayPlacement = {
+  width: number
+  height: number
+  positions: { x: number; y: number }[]
+}
+
+export const OVERLAY_ANCHORS: OverlayAnchor[] = [
+  "top-left",
+  "top",
+  "top-right",
+  "left",
+  "center",
+  "right",
+  "bottom-left",
+  "bottom",
+  "bottom-right",
+]
+
+export const MIN_OVERLAY_SCALE = 5
+// uploaded watermarks are stored inside the settings, so keep them small
+export const MAX_OVERLAY_IMAGE_BYTES = 512 * 1024
+
+export const DEFAULT_OVERLAY: OverlayOptions = {
+  overlay: "none",
+  overlayImage: "",
+  overlayText: "",
+  overlayColor: "#ffffff",
+  overlayAnchor: "bottom-right",
+  overlayScale: 20,
+  overlayMargin: 3,
+  overlayOpacity: 70,
+  overlayTile: false,
+}
+
+// Whether the settings actually put something on the image
+export function hasOverlay(o: OverlayOptions) {
+  if (o.overlay === "image") return o.overlayImage.startsWith("data:")
+  if (o.overlay === "text") return o.overlayText.trim().length > 0
+  return false
+}
+
+// Lay the layer out on a width × height image. Copies always lie fully inside the image.
+export function placeOverlay(
+  width: number,
+  height: number,
+  layerWidth: number,
+  layerHeight: number,
+  o: Pick<OverlayOptions, "overlayAnchor" | "overlayScale" | "overlayMargin" | "overlayTile">,
+): OverlayPlacement {
+  const margin = Math.round((width * Math.max(0, o.overlayMargin)) / 100)
+  // scale to the requested share of the width, then shrink until it fits inside the margins
+  let w = (width * Math.max(MIN_OVERLAY_SCALE, o.overlayScale)) / 100
+  let h = (w * layerHeight) / layerWidth
+  const fit = Math.min(1, (width - 2 * margin) / w, (height - 2 * margin) / h)
+  w = Math.max(1, Math.floor(w * Math.max(fit, 0)))
+  h = Math.max(1, Math.floor(h * Math.max(fit, 0)))
+
+  if (o.overlayTile) {
+    // centred grid with at least half a copy between neighbours so it reads as a pattern
+    const gapX = Math.max(margin, Math.round(w / 2))
+    const gapY = Math.max(margin, Math.round(h / 2))
+    const cols = Math.max(1, Math.floor((width + gapX) / (w + gapX)))
+    const rows = Math.max(1, Math.floor((height + gapY) / (h + gapY)))
+    const x0 = Math.floor((width - (cols * w + (cols - 1) * gapX)) / 2)
+    const y0 = Math.floor((height - (rows * h + (rows - 1) * gapY)) / 2)
+    const positions = []
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < cols; c++) positions.push({ x: x0 + c * (w + gapX), y: y0 + r * (h + gapY) })
+    }
+    return { width: w, height: h, positions }
+  }
+
+  const a = o.overlayAnchor
+  const x = a.endsWith("left") ? margin : a.endsWith("right") ? width - w - margin : Math.floor((width - w) / 2)
+  const y = a.startsWith("top") ? margin : a.startsWith("bottom") ? height - h - margin : Math.floor((height - h) / 2)
+  return { width: w, height: h, positions: [{ x: Math.max(0, x), y: Math.max(0, y) }] }
+}
+
+export function dataUriToBlob(uri: string) {
+  const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(uri)
+  if (!match) throw new Error("Watermark image is not a data URI")
+  const [, type, b64, payload] = match
+  if (!b64) return new Blob([decodeURIComponent(payload)], { type })
+  const binary = atob(payload)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i)
+  return new Blob([bytes], { type })
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest"
+import { clearTransparentPixels, hasTransparency, looksLikeGraphics, trimBounds } from "@/lib/pixels"
+
+function image(width: number, height: number, pixel: (x: number, y: number) => [number, number, number, number]) {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) data.set(pixel(x, y), (y * width + x) * 4)
+  }
+  return data
+}
+
+// deterministic pseudo-random noise, like sensor noise in a photo
+const noise = (x: number, y: number) => ((x * 2654435761) ^ (y * 40503)) & 15
+
+describe("looksLikeGraphics", () => {
+  it("flags flat-colour artwork", () => {
+    const logo = image(64, 64, (x, y) => ((x - 32) ** 2 + (y - 32) ** 2 < 400 ? [200, 30, 30, 255] : [0, 0, 0, 0]))
+    expect(looksLikeGraphics(logo, 64)).toBe(true)
+  })
+
+  it("flags screenshots with many colours but large flat areas", () => {
+    const shot = image(128, 64, (x, y) => (y < 48 ? [240, 240, 240, 255] : [(x * 2) & 255, y * 3, (x + y) & 255, 255]))
+    expect(looksLikeGraphics(shot, 128)).toBe(true)
+  })
+
+  it("does not flag photos, including greyscale ones", () => {
+    const colour = image(64, 64, (x, y) => [100 + noise(x, y) + x, 80 + noise(y, x) + y, 60 + x, 255])
+    const grey = image(64, 64, (x, y) => {
+      const v = 40 + x * 2 + noise(x, y)
+      return [v, v, v, 255]
+    })
+    expect(looksLikeGraphics(colour, 64)).toBe(false)
+    expect(looksLikeGraphics(grey, 64)).toBe(false)
+  })
+})
+
+describe("alpha helpers", () => {
+  it("clears the colour under fully transparent pixels only", () => {
+    const data = new Uint8ClampedArray([10, 20, 30, 0, 10, 20, 30, 1, 0, 0, 0, 0])
+    expect(clearTransparentPixels(data)).toBe(true)
+    expect(Array.from(data)).toEqual([0, 0, 0, 0, 10, 20, 30, 1, 0, 0, 0, 0])
+    expect(clearTransparentPixels(data)).toBe(false)
+  })
+
+  it("detects any non-opaque pixel", () => {
+    expect(hasTransparency(new Uint8ClampedArray([1, 2, 3, 255, 1, 2, 3, 254]))).toBe(true)
+    expect(hasTransparency(new Uint8ClampedArray([1, 2, 3, 255]))).toBe(false)
+  })
+})
+
+describe("trimBounds", () => {
+  it("finds the content inside a uniform or transparent margin", () => {
+    const inBox = (x: number, y: number) => x >= 3 && x < 7 && y >= 2 && y < 5
+    const white = image(10, 8, (x, y) => (inBox(x, y) ? [20, 20, 20, 255] : [250 - (x % 3), 255, 252, 255]))
+    expect(trimBounds(white, 10, 8)).toEqual({ sx: 3, sy: 2, sw: 4, sh: 3 })
+    const clear = image(10, 8, (x, y) => (inBox(x, y) ? [20, 20, 20, 255] : [x * 20, y * 20, 0, 0]))
+    expect(trimBounds(clear, 10, 8)).toEqual({ sx: 3, sy: 2, sw: 4, sh: 3 })
+  })
+
+  it("returns null when there is nothing to trim", () => {
+    const flat = image(4, 4, () => [9, 9, 9, 255])
+    const checker = image(4, 4, (x, y) => ((x + y) % 2 ? [255, 0, 0, 255] : [0, 0, 0, 255]))
+    expect(trimBounds(flat, 4, 4)).toBeNull()
+    expect(trimBounds(checker, 4, 4)).toBeNull()
+  })
+})
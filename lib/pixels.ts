@@ -0,0 +1,81 @@
+// Small RGBA helpers shared by the encoders and the engine
+
+// Zero the colour of fully transparent pixels in place. Returns whether anything changed.
+export function clearTransparentPixels(data: Uint8ClampedArray | Uint8Array) {
+  let changed = false
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0 && (data[i] | data[i + 1] | data[i + 2]) !== 0) {
+      data[i] = data[i + 1] = data[i + 2] = 0
+      changed = true
+    }
+  }
+  return changed
+}
+
+export function hasTransparency(data: Uint8ClampedArray | Uint8Array) {
+  for (let i = 3; i < data.length; i += 4) if (data[i] < 255) return true
+  return false
+}
+
+// Heuristic for logos, UI screenshots and diagrams, where lossless encoding is both sharper and often smaller
+// than lossy: either a small palette, or mostly runs of identical pixels (photos have sensor noise everywhere).
+// The palette limit stays well under 256 so greyscale photos don't qualify.
+export function looksLikeGraphics(data: Uint8ClampedArray | Uint8Array, width: number) {
+  const pixels = data.length / 4
+  if (pixels < 16) return false
+  const colours = new Set<number>()
+  let same = 0
+  let pairs = 0
+  for (let p = 0; p < pixels; p++) {
+    const i = p * 4
+    // fully transparent pixels all count as one colour whatever their RGB
+    const a = data[i + 3]
+    const key = a === 0 ? -1 : ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | a) >>> 0
+    if (colours.size <= 64) colours.add(key)
+    if (p % width !== 0) {
+      pairs++
+      const j = i - 4
+      if (data[i] === data[j] && data[i + 1] === data[j + 1] && data[i + 2] === data[j + 2] && a === data[j + 3]) {
+        same++
+      }
+    }
+  }
+  return colours.size <= 64 || (pairs > 0 && same / pairs >= 0.6)
+}
+
+// Bounding box of everything that differs from the border colour (taken from the top-left pixel), for
+// auto-trimming whitespace or transparent margins. Fully transparent pixels match each other whatever their
+// RGB, and `tolerance` absorbs JPEG noise. Null when there is nothing to trim or the image is one flat colour.
+export function trimBounds(data: Uint8ClampedArray | Uint8Array, width: number, height: number, tolerance = 16) {
+  const [r, g, b, a] = [data[0], data[1], data[2], data[3]]
+  const isBorder = (i: number) => {
+    if (a === 0 || data[i + 3] === 0) return a === data[i + 3]
+    return (
+      Math.abs(data[i] - r) <= tolerance &&
+      Math.abs(data[i + 1] - g) <= tolerance &&
+      Math.abs(data[i + 2] - b) <= tolerance &&
+      Math.abs(data[i + 3] - a) <= tolerance
+    )
+  }
+  const rowIsBorder = (y: number) => {
+    for (let x = 0; x < width; x++) if (!isBorder((y * width + x) * 4)) return false
+    return true
+  }
+  const colIsBorder = (x: number, top: number, bottom: number) => {
+    for (let y = top; y < bottom; y++) if (!isBorder((y * width + x) * 4)) return false
+    return true
+  }
+
+  let top = 0
+  while (top < height && rowIsBorder(top)) top++
+  if (top === height) return null
+  let bottom = height
+  while (rowIsBorder(bottom - 1)) bottom--
+  let left = 0
+  while (colIsBorder(left, top, bottom)) left++
+  let right = width
+  while (colIsBorder(right - 1, top, bottom)) right--
+
+  if (top === 0 && left === 0 && bottom === height && right === width) return null
+  return { sx: left, sy: top, sw: right - left, sh: bottom - top }
+}
@@ -0,0 +1,177 @@
+import { DEFAULT_SETTINGS, type ConvertMode, type ConvertSettings, type SizeStrategy } from "@/lib/engine"
+import type { ColorProfilePolicy, MetadataPolicy } from "@/lib/metadata"
+import { OUTPUT_FORMATS, type AlphaPolicy, type OutputFormat, type WebpMode } from "@/lib/output-formats"
+import { MIN_OVERLAY_SCALE, OVERLAY_ANCHORS, type OverlayKind } from "@/lib/overlay"
+import { RESAMPLE_FILTERS } from "@/lib/resample"
+import { MAX_DIMENSION, type FitMode, type ResizeMode } from "@/lib/resize"
+
+export type Preset = {
+  id: string
+  name: string
+  settings: ConvertSettings
+  builtIn?: boolean
+}
+
+const STORAGE_KEY = "pixify:presets:v1"
+const EXPORT_VERSION = 1
+const MODES: ConvertMode[] = ["auto", "quality", "size", "both", "visual"]
+const SIZE_STRATEGIES: SizeStrategy[] = ["quality-first", "resolution", "balanced", "sharpness"]
+const RESIZE_MODES: ResizeMode[] = ["none", "max-edge", "exact"]
+const FIT_MODES: FitMode[] = ["contain", "cover", "stretch"]
+const METADATA_POLICIES: MetadataPolicy[] = ["strip", "copyright", "all"]
+const COLOR_PROFILES: ColorProfilePolicy[] = ["srgb", "keep"]
+const WEBP_MODES: WebpMode[] = ["lossy", "near-lossless", "lossless"]
+const ALPHA_POLICIES: AlphaPolicy[] = ["keep", "flatten", "clean"]
+const OVERLAY_KINDS: OverlayKind[] = ["none", "image", "text"]
+
+export const BUILT_IN_PRESETS: Preset[] = [
+  {
+    id: "builtin:blog-hero",
+    name: "Blog hero",
+    builtIn: true,
+    settings: { ...DEFAULT_SETTINGS, mode: "size", maxSizeKB: 250, allowUpscale: true },
+  },
+  {
+    id: "builtin:thumbnail",
+    name: "Thumbnail",
+    builtIn: true,
+    settings: { ...DEFAULT_SETTINGS, mode: "quality", qualityPct: 70 },
+  },
+  {
+    id: "builtin:small-avif",
+    name: "Small AVIF",
+    builtIn: true,
+    settings: { ...DEFAULT_SETTINGS, format: "avif", mode: "size", maxSizeKB: 100, allowUpscale: false },
+  },
+  {
+    id: "builtin:lossless-webp",
+    name: "Lossless WEBP (graphics)",
+    builtIn: true,
+    settings: { ...DEFAULT_SETTINGS, format: "webp", mode: "auto", webpMode: "lossless", alpha: "clean" },
+  },
+  {
+    id: "builtin:lossless-png",
+    name: "Lossless PNG",
+    builtIn: true,
+    settings: { ...DEFAULT_SETTINGS, format: "png", mode: "auto" },
+  },
+]
+
+// Accept anything that looks like settings, keeping only known fields with valid values.
+// Missing fields fall back to the defaults so presets saved by older versions keep loading.
+export function normalizeSettings(raw: unknown): ConvertSettings | null {
+  if (!raw || typeof raw !== "object") return null
+  const r = raw as Record<string, unknown>
+  const d = DEFAULT_SETTINGS
+  const num = (v: unknown, min: number, max: number, fallback: number) =>
+    typeof v === "number" && Number.isFinite(v) ? Math.min(max, Math.max(min, Math.round(v))) : fallback
+  const bool = (v: unknown, fallback: boolean) => (typeof v === "boolean" ? v : fallback)
+  const oneOf = <T extends string>(v: unknown, allowed: readonly T[], fallback: T) =>
+    allowed.includes(v as T) ? (v as T) : fallback
+  const colour = (v: unknown, fallback: string) =>
+    typeof v === "string" && /^#[0-9a-f]{6}$/i.test(v) ? v.toLowerCase() : fallback
+
+  return {
+    format: oneOf(r.format, Object.keys(OUTPUT_FORMATS) as OutputFormat[], d.format),
+    mode: oneOf(r.mode, MODES, d.mode),
+    qualityPct: num(r.qualityPct, 1, 100, d.qualityPct),
+    maxSizeKB: num(r.maxSizeKB, 1, 1024 * 1024, d.maxSizeKB),
+    allowUpscale: bool(r.allowUpscale, d.allowUpscale),
+    sizeStrategy: oneOf(r.sizeStrategy, SIZE_STRATEGIES, d.sizeStrategy),
+    targetSsim:
+      typeof r.targetSsim === "number" && Number.isFinite(r.targetSsim)
+        ? Math.min(1, Math.max(0.5, r.targetSsim))
+        : d.targetSsim,
+    metadata: oneOf(r.metadata, METADATA_POLICIES, d.metadata),
+    colorProfile: oneOf(r.colorProfile, COLOR_PROFILES, d.colorProfile),
+    webpMode: oneOf(r.webpMode, WEBP_MODES, d.webpMode),
+    alpha: oneOf(r.alpha, ALPHA_POLICIES, d.alpha),
+    background: colour(r.background, d.background),
+    animationFps: num(r.animationFps, 0, 60, d.animationFps),
+    resampleFilter: oneOf(r.resampleFilter, RESAMPLE_FILTERS, d.resampleFilter),
+    sharpen: num(r.sharpen, 0, 100, d.sharpen),
+    resize: oneOf(r.resize, RESIZE_MODES, d.resize),
+    resizeMaxEdge: num(r.resizeMaxEdge, 1, MAX_DIMENSION, d.resizeMaxEdge),
+    resizeWidth: num(r.resizeWidth, 0, MAX_DIMENSION, d.resizeWidth),
+    resizeHeight: num(r.resizeHeight, 0, MAX_DIMENSION, d.resizeHeight),
+    resizeFit: oneOf(r.resizeFit, FIT_MODES, d.resizeFit),
+    noUpscale: bool(r.noUpscale, d.noUpscale),
+    overlay: oneOf(r.overlay, OVERLAY_KINDS, d.overlay),
+    overlayImage:
+      typeof r.overlayImage === "string" && r.overlayImage.startsWith("data:image/") ? r.overlayImage : d.overlayImage,
+    overlayText: typeof r.overlayText === "string" ? r.overlayText.slice(0, 200) : d.overlayText,
+    overlayColor: colour(r.overlayColor, d.overlayColor),
+    overlayAnchor: oneOf(r.overlayAnchor, OVERLAY_ANCHORS, d.overlayAnchor),
+    overlayScale: num(r.overlayScale, MIN_OVERLAY_SCALE, 100, d.overlayScale),
+    overlayMargin: num(r.overlayMargin, 0, 25, d.overlayMargin),
+    overlayOpacity: num(r.overlayOpacity, 0, 100, d.overlayOpacity),
+    overlayTile: bool(r.overlayTile, d.overlayTile),
+  }
+}
+
+function normalizePresets(raw: unknown): Preset[] {
+  if (!Array.isArray(raw)) return []
+  const out: Preset[] = []
+  for (const p of raw) {
+    if (!p || typeof p !== "object") continue
+    const name = typeof p.name === "string" ? p.name.trim().slice(0, 60) : ""
+    const settings = normalizeSettings(p.settings)
+    if (!name || !settings) continue
+    out.push({ id: typeof p.id === "string" && p.id ? p.id : crypto.randomUUID(), name, settings })
+  }
+  return out
+}
+
+// User presets only; built-ins are always merged in by the caller
+export function loadPresets(): Preset[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY)
+    return raw ? normalizePresets(JSON.parse(raw)) : []
+  } catch {
+    return []
+  }
+}
+
+export function savePresets(presets: Preset[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(presets.filter((p) => !p.builtIn)))
+  } catch {
+    // storage full or disabled (private mode); presets just won't survive a reload
+  }
+}
+
+export function exportPresets(presets: Preset[]) {
+  return JSON.stringify(
+    {
+      version: EXPORT_VERSION,
+      presets: presets.filter((p) => !p.builtIn).map(({ name, settings }) => ({ name, settings })),
+    },
+    null,
+    2,
+  )
+}
+
+// Parse a shared presets file. Imported presets get fresh ids so they never clash with local ones.
+export function parsePresetsJson(text: string): Preset[] {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch {
+    throw new Error("Not a valid JSON file")
+  }
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets
+  const presets = normalizePresets(list).map((p) => ({ ...p, id: crypto.randomUUID() }))
+  if (!presets.length) throw new Error("No presets found in this file")
+  return presets
+}
+
+// Imported presets replace local ones with the same name (case-insensitive) and are appended otherwise
+export function mergePresets(existing: Preset[], incoming: Preset[]) {
+  const next = [...existing]
+  for (const p of incoming) {
+    const idx = next.findIndex((e) => e.name.toLowerCase() === p.name.toLowerCase())
+    if (idx >= 0) next[idx] = { ...p, id: next[idx].id }
+    else next.push(p)
+  }
+  return next
+}
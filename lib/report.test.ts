@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest"
+import { DEFAULT_SETTINGS } from "@/lib/engine"
+import { reportCsv, reportJson, reportTotals, savingsDistribution, targetMet, type ReportRow } from "@/lib/report"
+
+function row(source: string, originalBytes: number, outputBytes: number, extra: Partial<ReportRow> = {}): ReportRow {
+  return {
+    source,
+    output: source.replace(/\.\w+$/, ".webp"),
+    format: "webp",
+    originalBytes,
+    outputBytes,
+    width: 100,
+    height: 50,
+    qualityPct: 80,
+    scalePct: 100,
+    ssim: null,
+    targetMet: null,
+    variants: 1,
+    ...extra,
+  }
+}
+
+describe("report", () => {
+  const rows = [row("a.png", 1000, 250), row("b.png", 1000, 1100, { targetMet: false }), row("c.png", 2000, 1900)]
+
+  it("totals bytes across files and counts missed targets", () => {
+    expect(reportTotals(rows)).toEqual({
+      files: 3,
+      originalBytes: 4000,
+      outputBytes: 3250,
+      savedBytes: 750,
+      savedPct: 18.75,
+      missed: 1,
+    })
+  })
+
+  it("buckets files by percentage saved, with growth in its own bucket", () => {
+    const counts = Object.fromEntries(savingsDistribution(rows).map((b) => [b.label, b.files]))
+    expect(counts).toEqual({ Grew: 1, "0–20%": 1, "20–40%": 0, "40–60%": 0, "60–80%": 1, "80–100%": 0 })
+  })
+
+  it("decides whether the size or SSIM target was met per mode", () => {
+    expect(targetMet({ ...DEFAULT_SETTINGS, mode: "size", maxSizeKB: 1 }, 1024, null)).toBe(true)
+    expect(targetMet({ ...DEFAULT_SETTINGS, mode: "both", maxSizeKB: 1 }, 1025, null)).toBe(false)
+    expect(targetMet({ ...DEFAULT_SETTINGS, mode: "visual", targetSsim: 0.98 }, 1, 0.97)).toBe(false)
+    expect(targetMet({ ...DEFAULT_SETTINGS, mode: "quality" }, 1, null)).toBeNull()
+  })
+
+  it("exports CSV with a header row and quoted cells", () => {
+    const csv = reportCsv([row('say "hi", ok.png', 1000, 500)])
+    const [header, line] = csv.trimEnd().split("\r\n")
+    expect(header.split(",")).toContain("savedPct")
+    expect(line.startsWith('"say ""hi"", ok.png",')).toBe(true)
+    expect(line).toContain(",50,")
+  })
+
+  it("exports JSON with totals and per-file savings", () => {
+    const json = JSON.parse(reportJson(rows))
+    expect(json.totals.savedPct).toBe(18.8)
+    expect(json.files[0].savedPct).toBe(75)
+  })
+})
@@ -0,0 +1,116 @@
+import type { ConvertSettings } from "@/lib/engine"
+import type { OutputFormat } from "@/lib/output-formats"
+
+// One converted source file. Responsive sets are reported by their main output, with the variant count alongside.
+export type ReportRow = {
+  source: string
+  output: string
+  format: OutputFormat
+  originalBytes: number
+  outputBytes: number
+  width: number | null
+  height: number | null
+  qualityPct: number | null
+  scalePct: number | null
+  ssim: number | null
+  // whether the size cap or SSIM target was met; null for modes without a target
+  targetMet: boolean | null
+  variants: number
+}
+
+export type ReportTotals = {
+  files: number
+  originalBytes: number
+  outputBytes: number
+  savedBytes: number
+  // of the input bytes; negative when the outputs grew
+  savedPct: number
+  missed: number
+}
+
+export function savedPct(originalBytes: number, outputBytes: number) {
+  return originalBytes ? (1 - outputBytes / originalBytes) * 100 : 0
+}
+
+export function targetMet(settings: ConvertSettings, outputBytes: number, ssim: number | null) {
+  if (settings.mode === "size" || settings.mode === "both") return outputBytes <= settings.maxSizeKB * 1024
+  if (settings.mode === "visual") return ssim !== null && ssim >= settings.targetSsim
+  return null
+}
+
+export function reportTotals(rows: ReportRow[]): ReportTotals {
+  const originalBytes = rows.reduce((n, r) => n + r.originalBytes, 0)
+  const outputBytes = rows.reduce((n, r) => n + r.outputBytes, 0)
+  return {
+    files: rows.length,
+    originalBytes,
+    outputBytes,
+    savedBytes: originalBytes - outputBytes,
+    savedPct: savedPct(originalBytes, outputBytes),
+    missed: rows.filter((r) => r.targetMet === false).length,
+  }
+}
+
+// Savings histogram buckets; anything that grew lands in the first one
+const BUCKETS = [
+  { label: "Grew", min: -Infinity, max: 0 },
+  { label: "0–20%", min: 0, max: 20 },
+  { label: "20–40%", min: 20, max: 40 },
+  { label: "40–60%", min: 40, max: 60 },
+  { label: "60–80%", min: 60, max: 80 },
+  { label: "80–100%", min: 80, max: Infinity },
+]
+
+export function savingsDistribution(rows: ReportRow[]) {
+  const counts = BUCKETS.map((b) => ({ label: b.label, files: 0 }))
+  for (const r of rows) {
+    const pct = savedPct(r.originalBytes, r.outputBytes)
+    const i = pct < 0 ? 0 : BUCKETS.findIndex((b, n) => n > 0 && pct >= b.min && pct < b.max)
+    counts[i].files++
+  }
+  return counts
+}
+
+const COLUMNS = [
+  "source",
+  "output",
+  "format",
+  "originalBytes",
+  "outputBytes",
+  "savedPct",
+  "width",
+  "height",
+  "qualityPct",
+  "scalePct",
+  "ssim",
+  "targetMet",
+  "variants",
+] as const
+
+function csvCell(value: string | number | boolean | null) {
+  if (value === null) return ""
+  const s = String(value)
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s
+}
+
+export function reportCsv(rows: ReportRow[]) {
+  const lines = rows.map((r) =>
+    COLUMNS.map((c) =>
+      csvCell(c === "savedPct" ? Number(savedPct(r.originalBytes, r.outputBytes).toFixed(1)) : r[c]),
+    ).join(","),
+  )
+  return [COLUMNS.join(","), ...lines].join("\r\n") + "\r\n"
+}
+
+export function reportJson(rows: ReportRow[]) {
+  const totals = reportTotals(rows)
+  return JSON.stringify(
+    {
+      generatedAt: new Date().toISOString(),
+      totals: { ...totals, savedPct: Number(totals.savedPct.toFixed(1)) },
+      files: rows.map((r) => ({ ...r, savedPct: Number(savedPct(r.originalBytes, r.outputBytes).toFixed(1)) })),
+    },
+    null,
+    2,
+  )
+}
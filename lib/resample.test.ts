@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest"
+import type { PixelData } from "@/lib/engine"
+import { RESAMPLE_FILTERS, resample, sharpen } from "@/lib/resample"
+
+function image(width: number, height: number, at: (x: number, y: number) => number[]): PixelData {
+  const data = new Uint8ClampedArray(width * height * 4)
+  for (let y = 0; y < height; y++) for (let x = 0; x < width; x++) data.set(at(x, y), (y * width + x) * 4)
+  return { width, height, data }
+}
+
+const pixel = (img: PixelData, x: number, y: number) =>
+  Array.from(img.data.subarray((y * img.width + x) * 4, (y * img.width + x) * 4 + 4))
+
+describe("resample", () => {
+  it("keeps a flat colour exact with every filter, up and down", () => {
+    const flat = image(9, 7, () => [200, 100, 50, 255])
+    for (const filter of RESAMPLE_FILTERS) {
+      for (const [w, h] of [
+        [20, 15],
+        [3, 2],
+      ]) {
+        const out = resample(flat, w, h, filter)
+        expect(out).toMatchObject({ width: w, height: h })
+        expect(Array.from(out.data)).toEqual(
+          Array(w * h)
+            .fill([200, 100, 50, 255])
+            .flat(),
+        )
+      }
+    }
+  })
+
+  it("keeps hard pixel edges with nearest", () => {
+    const checker = image(2, 2, (x, y) => ((x + y) % 2 ? [255, 255, 255, 255] : [0, 0, 0, 255]))
+    const out = resample(checker, 4, 4, "nearest")
+    expect(pixel(out, 0, 0)).toEqual([0, 0, 0, 255])
+    expect(pixel(out, 1, 1)).toEqual([0, 0, 0, 255])
+    expect(pixel(out, 2, 1)).toEqual([255, 255, 255, 255])
+  })
+
+  it("averages fine detail to grey on big reductions instead of aliasing", () => {
+    const checker = image(256, 256, (x, y) => ((x + y) % 2 ? [255, 255, 255, 255] : [0, 0, 0, 255]))
+    for (const filter of ["bilinear", "mitchell", "lanczos3"] as const) {
+      const out = resample(checker, 10, 10, filter)
+      for (let i = 0; i < out.data.length; i += 4) expect(Math.abs(out.data[i] - 128)).toBeLessThanOrEqual(2)
+    }
+  })
+
+  it("doesn't bleed the colour of transparent pixels", () => {
+    // transparent black next to opaque red: blends fade the alpha, never darken the red
+    const img = image(8, 1, (x) => (x < 4 ? [0, 0, 0, 0] : [255, 0, 0, 255]))
+    const out = resample(img, 3, 1, "lanczos3")
+    for (let x = 0; x < 3; x++) {
+      const [r, , , a] = pixel(out, x, 0)
+      if (a) expect(r).toBe(255)
+    }
+    expect(pixel(out, 2, 0)).toEqual([255, 0, 0, 255])
+  })
+
+  it("scales only the crop rectangle", () => {
+    const halves = image(8, 4, (x) => (x < 4 ? [0, 0, 255, 255] : [0, 255, 0, 255]))
+    const out = resample(halves, 2, 2, "mitchell", { sx: 4, sy: 0, sw: 4, sh: 4 })
+    for (let y = 0; y < 2; y++) for (let x = 0; x < 2; x++) expect(pixel(out, x, y)).toEqual([0, 255, 0, 255])
+  })
+})
+
+describe("sharpen", () => {
+  it("raises contrast at edges and leaves flat areas alone", () => {
+    const edge = image(6, 3, (x) => (x < 3 ? [100, 100, 100, 255] : [150, 150, 150, 255]))
+    const out = sharpen(edge, 100)
+    expect(pixel(out, 0, 1)).toEqual([100, 100, 100, 255])
+    expect(pixel(out, 5, 1)).toEqual([150, 150, 150, 255])
+    expect(pixel(out, 2, 1)[0]).toBeLessThan(100)
+    expect(pixel(out, 3, 1)[0]).toBeGreaterThan(150)
+    expect(Array.from(sharpen(edge, 0).data)).toEqual(Array.from(edge.data))
+  })
+})
@@ -0,0 +1,230 @@
+import type { CropRect, PixelData } from "@/lib/engine"
+
+// Resampling on RGBA pixel data, shared by every backend so the browser and the CLI scale images identically.
+// Filters run as two separable passes on premultiplied alpha (so transparent pixels don't bleed their colour),
+// with the kernel widened by the reduction ratio when downscaling so fine detail is averaged instead of aliased.
+
+export type ResampleFilter = "nearest" | "bilinear" | "mitchell" | "lanczos3"
+
+export const RESAMPLE_FILTERS: ResampleFilter[] = ["lanczos3", "mitchell", "bilinear", "nearest"]
+export const DEFAULT_FILTER: ResampleFilter = "lanczos3"
+
+type Kernel = { support: number; weight: (x: number) => number }
+
+// Mitchell-Netravali with B = C = 1/3
+function mitchell(x: number) {
+  const t = Math.abs(x)
+  if (t < 1) return (7 * t ** 3 - 12 * t ** 2 + 16 / 3) / 6
+  if (t < 2) return ((-7 / 3) * t ** 3 + 12 * t ** 2 - 20 * t + 32 / 3) / 6
+  return 0
+}
+
+function sinc(x: number) {
+  if (x === 0) return 1
+  const p = Math.PI * x
+  return Math.sin(p) / p
+}
+
+const KERNELS: Record<Exclude<ResampleFilter, "nearest">, Kernel> = {
+  bilinear: { support: 1, weight: (x) => Math.max(0, 1 - Math.abs(x)) },
+  mitchell: { support: 2, weight: mitchell },
+  lanczos3: { support: 3, weight: (x) => (Math.abs(x) < 3 ? sinc(x) * sinc(x / 3) : 0) },
+}
+
+// Area average, for the 2:1 steps of large reductions
+const BOX: Kernel = { support: 0.5, weight: (x) => (Math.abs(x) <= 0.5 ? 1 : 0) }
+
+// Premultiplied RGBA at 16 bits: colour × alpha and alpha × 255, both 0-65025
+type Plane = { width: number; height: number; data: Uint16Array }
+
+const MAX = 255 * 255
+
+// For each output pixel along one axis: the first source index and `count` weights from there (summing to 1).
+// The source span starts at `offset` (crops may be fractional); samples outside first..last are clamped to the edge.
+function taps(offset: number, span: number, first: number, last: number, length: number, kernel: Kernel) {
+  const scale = span / length
+  const stretch = Math.max(1, scale)
+  const support = kernel.support * stretch
+  const count = Math.ceil(2 * support) + 2
+  const starts = new Int32Array(length)
+  const weights = new Float32Array(length * count)
+  for (let i = 0; i < length; i++) {
+    const center = offset + (i + 0.5) * scale
+    const lo = Math.floor(center - support)
+    const start = Math.min(last, Math.max(first, lo))
+    starts[i] = start
+    let sum = 0
+    for (let j = lo; j <= Math.ceil(center + support); j++) {
+      const w = kernel.weight((j + 0.5 - center) / stretch)
+      if (!w) continue
+      const k = Math.min(last, Math.max(first, j)) - start
+      weights[i * count + k] += w
+      sum += w
+    }
+    if (sum) for (let k = 0; k < count; k++) weights[i * count + k] /= sum
+    else weights[i * count + Math.min(last, Math.max(first, Math.floor(center))) - start] = 1
+  }
+  return { starts, weights, count }
+}
+
+const clamp16 = (v: number) => (v <= 0 ? 0 : v >= MAX ? MAX : Math.round(v))
+
+// Horizontal pass over rows y0..y0 + rows of either the 8-bit straight-alpha source or a plane
+function horizontal(src: PixelData | Plane, rect: CropRect, width: number, kernel: Kernel): Plane {
+  const straight = !(src.data instanceof Uint16Array)
+  const { data } = src
+  const first = Math.max(0, Math.floor(rect.sx))
+  const last = Math.min(src.width, Math.ceil(rect.sx + rect.sw)) - 1
+  const { starts, weights, count } = taps(rect.sx, rect.sw, first, last, width, kernel)
+  const y0 = Math.max(0, Math.floor(rect.sy))
+  const rows = Math.min(src.height, Math.ceil(rect.sy + rect.sh)) - y0
+  const out = new Uint16Array(width * rows * 4)
+  for (let y = 0; y < rows; y++) {
+    const row = (y0 + y) * src.width
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < count; k++) {
+        const w = weights[x * count + k]
+        if (!w) continue
+        const p = (row + starts[x] + k) * 4
+        const alpha = data[p + 3]
+        const m = straight ? alpha : 1
+        r += w * data[p] * m
+        g += w * data[p + 1] * m
+        b += w * data[p + 2] * m
+        a += w * (straight ? alpha * 255 : alpha)
+      }
+      const o = (y * width + x) * 4
+      out[o] = clamp16(r)
+      out[o + 1] = clamp16(g)
+      out[o + 2] = clamp16(b)
+      out[o + 3] = clamp16(a)
+    }
+  }
+  return { width, height: rows, data: out }
+}
+
+// Vertical pass; `offset` / `span` place the output rows on the plane's rows
+function vertical(src: Plane, offset: number, span: number, height: number, kernel: Kernel): Plane {
+  const { starts, weights, count } = taps(offset, span, 0, src.height - 1, height, kernel)
+  const { width, data } = src
+  const out = new Uint16Array(width * height * 4)
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0
+      let g = 0
+      let b = 0
+      let a = 0
+      for (let k = 0; k < count; k++) {
+        const w = weights[y * count + k]
+        if (!w) continue
+        const p = ((starts[y] + k) * width + x) * 4
+        r += w * data[p]
+        g += w * data[p + 1]
+        b += w * data[p + 2]
+        a += w * data[p + 3]
+      }
+      const o = (y * width + x) * 4
+      out[o] = clamp16(r)
+      out[o + 1] = clamp16(g)
+      out[o + 2] = clamp16(b)
+      out[o + 3] = clamp16(a)
+    }
+  }
+  return { width, height, data: out }
+}
+
+function unpremultiply({ width, height, data }: Plane): PixelData {
+  const out = new Uint8ClampedArray(width * height * 4)
+  for (let i = 0; i < out.length; i += 4) {
+    const a = data[i + 3]
+    if (!a) continue
+    out[i] = Math.min(255, (data[i] * 255) / a)
+    out[i + 1] = Math.min(255, (data[i + 1] * 255) / a)
+    out[i + 2] = Math.min(255, (data[i + 2] * 255) / a)
+    out[i + 3] = a / 255
+  }
+  return { width, height, data: out }
+}
+
+// Pixel art stays blocky: each output pixel copies the source pixel under its centre
+function nearest(src: PixelData, width: number, height: number, rect: CropRect): PixelData {
+  const out = new Uint8ClampedArray(width * height * 4)
+  const xs = Array.from({ length: width }, (_, x) =>
+    Math.min(src.width - 1, Math.max(0, Math.floor(rect.sx + ((x + 0.5) * rect.sw) / width))),
+  )
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(src.height - 1, Math.max(0, Math.floor(rect.sy + ((y + 0.5) * rect.sh) / height)))
+    for (let x = 0; x < width; x++) {
+      const p = (sy * src.width + xs[x]) * 4
+      out.set(src.data.subarray(p, p + 4), (y * width + x) * 4)
+    }
+  }
+  return { width, height, data: out }
+}
+
+// Scale (the `rect` crop of) src to width × height. Reductions beyond 2:1 first halve with an area average, which
+// is alias-free and cheap, so the chosen filter never works on more than 2:1 and its kernel stays short.
+export function resample(
+  src: PixelData,
+  width: number,
+  height: number,
+  filter: ResampleFilter = DEFAULT_FILTER,
+  rect: CropRect = { sx: 0, sy: 0, sw: src.width, sh: src.height },
+): PixelData {
+  const aligned = Number.isInteger(rect.sx) && Number.isInteger(rect.sy)
+  if (filter === "nearest" || (aligned && rect.sw === width && rect.sh === height)) {
+    return nearest(src, width, height, rect)
+  }
+
+  let input: PixelData | Plane = src
+  let region = rect
+  let w = rect.sw
+  let h = rect.sh
+  for (;;) {
+    const last = w <= 2 * width && h <= 2 * height
+    const nw = last ? width : w > 2 * width ? Math.ceil(w / 2) : w
+    const nh = last ? height : h > 2 * height ? Math.ceil(h / 2) : h
+    const kernel = last ? KERNELS[filter] : BOX
+    const rows = horizontal(input, region, nw, kernel)
+    input = vertical(rows, region.sy - Math.max(0, Math.floor(region.sy)), region.sh, nh, kernel)
+    if (last) return unpremultiply(input)
+    region = { sx: 0, sy: 0, sw: nw, sh: nh }
+    w = nw
+    h = nh
+  }
+}
+
+// Unsharp mask against a 3×3 blur, for the softness resampling leaves. amount is 0-100: 100 adds the whole
+// difference from the blur back once. Alpha is left alone.
+export function sharpen(src: PixelData, amount: number): PixelData {
+  const k = Math.max(0, amount) / 100
+  const { width, height, data } = src
+  const out = new Uint8ClampedArray(data)
+  if (!k) return { width, height, data: out }
+  const at = (x: number, y: number) =>
+    (Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))) * 4
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4
+      for (let c = 0; c < 3; c++) {
+        const blur =
+          (data[at(x - 1, y - 1) + c] +
+            2 * data[at(x, y - 1) + c] +
+            data[at(x + 1, y - 1) + c] +
+            2 * data[at(x - 1, y) + c] +
+            4 * data[o + c] +
+            2 * data[at(x + 1, y) + c] +
+            data[at(x - 1, y + 1) + c] +
+            2 * data[at(x, y + 1) + c] +
+            data[at(x + 1, y + 1) + c]) /
+          16
+        out[o + c] = data[o + c] + k * (data[o + c] - blur)
+      }
+    }
+  }
+  return { width, height, data: out }
+}
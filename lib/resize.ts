@@ -0,0 +1,76 @@
+export type ResizeMode = "none" | "max-edge" | "exact"
+export type FitMode = "contain" | "cover" | "stretch"
+
+export type ResizeOptions = {
+  resize: ResizeMode
+  resizeMaxEdge: number
+  // 0 means "derive from the other side, keeping the aspect ratio"
+  resizeWidth: number
+  resizeHeight: number
+  resizeFit: FitMode
+  noUpscale: boolean
+}
+
+export type ResizePlan = {
+  // source rectangle to sample (cover mode crops it to the target aspect ratio)
+  sx: number
+  sy: number
+  sw: number
+  sh: number
+  // output size
+  width: number
+  height: number
+  // how far the output may still be enlarged by the size search; 1 means never
+  maxUpscale: number
+}
+
+const SEARCH_MAX_UPSCALE = 6
+
+// browsers refuse canvases much larger than this on a side
+export const MAX_DIMENSION = 16384
+
+// Work out the crop and output size for a source image. Pure so it can be reasoned about (and tested) without a canvas.
+export function planResize(srcW: number, srcH: number, opts: ResizeOptions): ResizePlan {
+  const full = { sx: 0, sy: 0, sw: srcW, sh: srcH }
+  const clampUp = (s: number) => (opts.noUpscale ? Math.min(1, s) : s)
+  const px = (n: number) => Math.max(1, Math.round(n))
+
+  if (opts.resize === "max-edge" && opts.resizeMaxEdge > 0) {
+    const s = clampUp(opts.resizeMaxEdge / Math.max(srcW, srcH))
+    const width = px(srcW * s)
+    const height = px(srcH * s)
+    // the size search may enlarge up to the edge cap, but never past it
+    const maxUpscale = Math.max(1, opts.resizeMaxEdge / Math.max(width, height))
+    return { ...full, width, height, maxUpscale: opts.noUpscale ? Math.min(maxUpscale, srcW / width) : maxUpscale }
+  }
+
+  if (opts.resize === "exact" && (opts.resizeWidth > 0 || opts.resizeHeight > 0)) {
+    // exact dimensions are a promise: the size search may shrink the result, but never enlarge it
+    let tw = opts.resizeWidth
+    let th = opts.resizeHeight
+    if (!tw) tw = (th * srcW) / srcH
+    if (!th) th = (tw * srcH) / srcW
+
+    if (opts.resizeFit === "stretch") {
+      return { ...full, width: px(clampUp(tw / srcW) * srcW), height: px(clampUp(th / srcH) * srcH), maxUpscale: 1 }
+    }
+
+    if (opts.resizeFit === "cover") {
+      const s = Math.max(tw / srcW, th / srcH)
+      // crop the source to the target aspect ratio, centred
+      const sw = Math.min(srcW, tw / s)
+      const sh = Math.min(srcH, th / s)
+      const sx = (srcW - sw) / 2
+      const sy = (srcH - sh) / 2
+      const out = clampUp(s)
+      return { sx, sy, sw, sh, width: px(sw * out), height: px(sh * out), maxUpscale: 1 }
+    }
+
+    // contain
+    const s = clampUp(Math.min(tw / srcW, th / srcH))
+    return { ...full, width: px(srcW * s), height: px(srcH * s), maxUpscale: 1 }
+  }
+
+  // "never upscale" guards an explicit resize; without one, the size searches' own upscale setting decides
+  return { ...full, width: srcW, height: srcH, maxUpscale: SEARCH_MAX_UPSCALE }
+}
@@ -0,0 +1,82 @@
+import { OUTPUT_FORMATS, type OutputFormat } from "@/lib/output-formats"
+
+export type ResponsiveSettings = {
+  enabled: boolean
+  widths: number[]
+  formats: OutputFormat[]
+  // value for the sizes attribute
+  sizes: string
+  // prepended to every file name in the snippet, e.g. "/images/"
+  pathPrefix: string
+}
+
+export type Variant = {
+  width: number
+  height: number
+  format: OutputFormat
+  name: string
+  blob: Blob
+  url: string
+}
+
+export const DEFAULT_RESPONSIVE: ResponsiveSettings = {
+  enabled: false,
+  widths: [480, 960, 1440, 1920],
+  formats: ["avif", "webp"],
+  sizes: "100vw",
+  pathPrefix: "",
+}
+
+// Smallest files first in <picture>, most compatible format last as the <img> fallback
+const SOURCE_ORDER: OutputFormat[] = ["avif", "webp", "png", "jpeg"]
+const FALLBACK_ORDER: OutputFormat[] = ["jpeg", "png", "webp", "avif"]
+
+export function parseWidths(raw: string) {
+  const widths = raw
+    .split(/[\s,;]+/)
+    .map((w) => Number.parseInt(w, 10))
+    .filter((w) => Number.isFinite(w) && w > 0 && w <= 16384)
+  return Array.from(new Set(widths)).sort((a, b) => a - b)
+}
+
+export function variantName(base: string, width: number, format: OutputFormat) {
+  return `${base}-${width}w.${OUTPUT_FORMATS[format].extension}`
+}
+
+function escapeAttr(value: string) {
+  return value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;")
+}
+
+function srcset(variants: Variant[], prefix: string) {
+  return variants.map((v) => `${prefix}${v.name} ${v.width}w`).join(", ")
+}
+
+// Ready-to-paste markup: a <picture> when there are several formats, a plain <img srcset> otherwise
+export function buildSnippet(variants: Variant[], opts: { sizes: string; pathPrefix: string; alt: string }) {
+  if (!variants.length) return ""
+  const byFormat = new Map<OutputFormat, Variant[]>()
+  for (const v of [...variants].sort((a, b) => a.width - b.width)) {
+    byFormat.set(v.format, [...(byFormat.get(v.format) ?? []), v])
+  }
+
+  const fallbackFormat = FALLBACK_ORDER.find((f) => byFormat.has(f))!
+  const fallback = byFormat.get(fallbackFormat)!
+  const largest = fallback[fallback.length - 1]
+  const sizes = escapeAttr(opts.sizes || "100vw")
+  const prefix = escapeAttr(opts.pathPrefix)
+
+  const img = [
+    `<img src="${prefix}${largest.name}"`,
+    `srcset="${srcset(fallback, prefix)}"`,
+    `sizes="${sizes}"`,
+    `width="${largest.width}" height="${largest.height}"`,
+    `alt="${escapeAttr(opts.alt)}" loading="lazy" decoding="async">`,
+  ]
+
+  if (byFormat.size === 1) return img.join("\n     ")
+
+  const sources = SOURCE_ORDER.filter((f) => f !== fallbackFormat && byFormat.has(f)).map(
+    (f) => `  <source type="${OUTPUT_FORMATS[f].mime}" srcset="${srcset(byFormat.get(f)!, prefix)}" sizes="${sizes}">`,
+  )
+  return ["<picture>", ...sources, `  ${img.join("\n       ")}`, "</picture>"].join("\n")
+}
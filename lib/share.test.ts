@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest"
+import { base64, dataUri } from "@/lib/share"
+
+describe("dataUri", () => {
+  it("encodes the blob with its MIME type", async () => {
+    const blob = new Blob([new Uint8Array([0x89, 0x50, 0x4e, 0x47])], { type: "image/png" })
+    expect(await dataUri(blob)).toBe("data:image/png;base64,iVBORw==")
+  })
+
+  it("matches Buffer's base64 for inputs larger than one conversion slice", () => {
+    const bytes = new Uint8Array(100_000).map((_, i) => (i * 31) & 0xff)
+    expect(base64(bytes)).toBe(Buffer.from(bytes).toString("base64"))
+  })
+})
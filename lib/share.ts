@@ -0,0 +1,71 @@
+// Getting a converted image out without downloading it: clipboard, Web Share and inline data URIs
+
+// Browsers differ in which image types the async clipboard takes: PNG everywhere, WEBP/AVIF/JPEG rarely
+function clipboardAccepts(type: string) {
+  if (type === "image/png") return true
+  return typeof ClipboardItem.supports === "function" && ClipboardItem.supports(type)
+}
+
+async function toPng(blob: Blob): Promise<Blob> {
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const canvas = document.createElement("canvas")
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    const ctx = canvas.getContext("2d")
+    if (!ctx) throw new Error("Unable to get canvas context")
+    ctx.drawImage(bitmap, 0, 0)
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("PNG encoding failed"))), "image/png"),
+    )
+  } finally {
+    bitmap.close()
+  }
+}
+
+// Put the image on the clipboard as itself when the browser accepts its type, otherwise as a PNG.
+// Resolves to the type that was written. The PNG is handed over as a promise so Safari still
+// treats the write as part of the click that started it.
+export async function copyImage(blob: Blob): Promise<string> {
+  if (typeof ClipboardItem === "undefined" || !navigator.clipboard?.write) {
+    throw new Error("This browser can't copy images")
+  }
+  const type = clipboardAccepts(blob.type) ? blob.type : "image/png"
+  await navigator.clipboard.write([new ClipboardItem({ [type]: type === blob.type ? blob : toPng(blob) })])
+  return type
+}
+
+export function canShareFile(file: File) {
+  return (
+    typeof navigator !== "undefined" &&
+    typeof navigator.canShare === "function" &&
+    navigator.canShare({ files: [file] })
+  )
+}
+
+// Open the OS share sheet. Returns false when the user dismissed it.
+export async function shareFile(file: File) {
+  try {
+    await navigator.share({ files: [file], title: file.name })
+    return true
+  } catch (err: any) {
+    if (err?.name === "AbortError") return false
+    throw err
+  }
+}
+
+export function base64(bytes: Uint8Array) {
+  let binary = ""
+  // String.fromCharCode takes its arguments on the stack, so convert in slices
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export async function dataUri(blob: Blob) {
+  return `data:${blob.type || "application/octet-stream"};base64,${base64(new Uint8Array(await blob.arrayBuffer()))}`
+}
+
+// Above this a data URI bloats the CSS/HTML more than the extra request costs
+export const DATA_URI_WARN_BYTES = 8 * 1024
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest"
+import { predictCrossing } from "@/lib/size-model"
+
+describe("predictCrossing", () => {
+  it("interpolates log size between samples either side of the target", () => {
+    const x = predictCrossing(
+      [
+        { x: 10, bytes: 1000 },
+        { x: 30, bytes: 4000 },
+      ],
+      2000,
+      0.05,
+    )
+    expect(x).toBeCloseTo(20)
+  })
+
+  it("extrapolates with the slope when every sample is on one side", () => {
+    expect(predictCrossing([{ x: 50, bytes: 1000 }], 1000 * Math.exp(0.5), 0.05)).toBeCloseTo(60)
+    expect(predictCrossing([{ x: 50, bytes: 1000 }], 1000 * Math.exp(-1), 0.05)).toBeCloseTo(30)
+  })
+
+  it("follows the shape of a reference curve from the nearest sample", () => {
+    // the reference doubles from 40 to 60; the image is twice as big throughout
+    const reference = [
+      { x: 40, bytes: 100 },
+      { x: 60, bytes: 200 },
+    ]
+    expect(predictCrossing([{ x: 40, bytes: 200 }], 400, 0.01, reference)).toBeCloseTo(60)
+    // with no samples the reference is taken as is
+    expect(predictCrossing([], 150, 0.01, reference)).toBeCloseTo(40 + (20 * Math.log(1.5)) / Math.log(2))
+    expect(predictCrossing([], 150, 0.01)).toBeNaN()
+  })
+})
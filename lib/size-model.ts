@@ -0,0 +1,67 @@
+// Size model for the size-targeting searches. Encoded size grows smoothly with quality and with scale, and
+// log(size) is close to linear in both (quality steps, and log of the scale), so a couple of samples are enough to
+// aim the next encode close to the cap instead of bisecting blindly.
+
+// One encode's size at position x on a curve that rises with x
+export type SizeSample = { x: number; bytes: number }
+
+function sorted(samples: SizeSample[]) {
+  return [...samples].sort((a, b) => a.x - b.x)
+}
+
+// log(size) at x, linear between samples and continuing the end segments (or `slope` for a single sample)
+function logSizeAt(curve: SizeSample[], x: number, slope: number) {
+  const c = sorted(curve)
+  if (c.length === 1) return Math.log(c[0].bytes) + (x - c[0].x) * slope
+  let i = 0
+  while (i < c.length - 2 && x > c[i + 1].x) i++
+  const a = c[i]
+  const b = c[i + 1]
+  const la = Math.log(a.bytes)
+  const lb = Math.log(b.bytes)
+  return b.x === a.x ? la : la + ((x - a.x) * (lb - la)) / (b.x - a.x)
+}
+
+// x at which the curve reaches log size `logSize`; flat or falling stretches fall back to `slope`
+function xAt(curve: SizeSample[], logSize: number, slope: number) {
+  const c = sorted(curve)
+  for (let i = 0; i < c.length - 1; i++) {
+    const la = Math.log(c[i].bytes)
+    const lb = Math.log(c[i + 1].bytes)
+    const last = i === c.length - 2
+    if (lb > la && (logSize <= lb || last) && (logSize >= la || i === 0)) {
+      return c[i].x + ((logSize - la) * (c[i + 1].x - c[i].x)) / (lb - la)
+    }
+  }
+  const near = logSize < Math.log(c[0].bytes) ? c[0] : c[c.length - 1]
+  return near.x + (logSize - Math.log(near.bytes)) / slope
+}
+
+// Guess the x whose encode comes out at targetBytes. Between the nearest samples either side of the target the
+// guess interpolates log(size); beyond the samples it follows the shape of `reference` (the curve of a similar
+// image, e.g. a downscaled proxy) from the nearest sample, or `slope` (d log(size) / dx) without one.
+// With no samples at all the reference is used as is. NaN when there is nothing to go on.
+export function predictCrossing(
+  samples: SizeSample[],
+  targetBytes: number,
+  slope: number,
+  reference?: SizeSample[],
+): number {
+  const target = Math.log(targetBytes)
+  const ref = reference?.length ? reference : null
+  if (!samples.length) return ref ? xAt(ref, target, slope) : Number.NaN
+
+  const s = sorted(samples)
+  const above = s.findIndex((p) => p.bytes > targetBytes)
+  const below = above === -1 ? s[s.length - 1] : above > 0 ? s[above - 1] : null
+  if (below && above !== -1) {
+    const lb = Math.log(below.bytes)
+    const la = Math.log(s[above].bytes)
+    return below.x + ((target - lb) * (s[above].x - below.x)) / (la - lb)
+  }
+
+  const near = below ?? s[0]
+  const gap = target - Math.log(near.bytes)
+  if (ref) return xAt(ref, logSizeAt(ref, near.x, slope) + gap, slope)
+  return near.x + gap / slope
+}
@@ -0,0 +1,62 @@
+// Structural similarity (SSIM) between two images of the same size, computed on luma.
+// Uses 8×8 windows on a 4px grid, the usual fast approximation of the Gaussian-window original;
+// scores are 0-1 where 1 means identical.
+
+const WINDOW = 8
+const STRIDE = 4
+const C1 = (0.01 * 255) ** 2
+const C2 = (0.03 * 255) ** 2
+
+export type LumaPlane = { width: number; height: number; data: Float32Array }
+
+// Rec. 601 luma, composited over white so transparent areas compare the way they are usually displayed
+export function lumaOf(image: { width: number; height: number; data: Uint8ClampedArray }): LumaPlane {
+  const { width, height, data } = image
+  const out = new Float32Array(width * height)
+  for (let i = 0, p = 0; p < out.length; i += 4, p++) {
+    const a = data[i + 3] / 255
+    const y = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+    out[p] = y * a + 255 * (1 - a)
+  }
+  return { width, height, data: out }
+}
+
+export function ssim(a: LumaPlane, b: LumaPlane) {
+  if (a.width !== b.width || a.height !== b.height) throw new Error("SSIM needs images of the same size")
+  const { width, height } = a
+  // images smaller than one window are compared as a single window
+  const win = Math.min(WINDOW, width, height)
+  const n = win * win
+  let total = 0
+  let count = 0
+
+  for (let y = 0; y + win <= height; y += STRIDE) {
+    for (let x = 0; x + win <= width; x += STRIDE) {
+      let sa = 0
+      let sb = 0
+      let saa = 0
+      let sbb = 0
+      let sab = 0
+      for (let wy = 0; wy < win; wy++) {
+        let p = (y + wy) * width + x
+        for (let wx = 0; wx < win; wx++, p++) {
+          const va = a.data[p]
+          const vb = b.data[p]
+          sa += va
+          sb += vb
+          saa += va * va
+          sbb += vb * vb
+          sab += va * vb
+        }
+      }
+      const ma = sa / n
+      const mb = sb / n
+      const va = saa / n - ma * ma
+      const vb = sbb / n - mb * mb
+      const cov = sab / n - ma * mb
+      total += ((2 * ma * mb + C1) * (2 * cov + C2)) / ((ma * ma + mb * mb + C1) * (va + vb + C2))
+      count++
+    }
+  }
+  return count ? total / count : 1
+}
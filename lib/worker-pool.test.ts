@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { DEFAULT_SETTINGS, type ConvertResult } from "@/lib/engine"
+import { ConverterPool, type ConvertRequest, type WorkerRequest, type WorkerResponse } from "@/lib/worker-pool"
+
+// Stands in for the module worker: records what it was sent, and the test answers for it
+class FakeWorker {
+  static all: FakeWorker[] = []
+  posted: WorkerRequest[] = []
+  onmessage: ((e: { data: WorkerResponse }) => void) | null = null
+  onerror: ((e: { message: string; preventDefault(): void }) => void) | null = null
+  terminated = false
+
+  constructor() {
+    FakeWorker.all.push(this)
+  }
+
+  postMessage(msg: WorkerRequest) {
+    this.posted.push(msg)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  reply(data: WorkerResponse) {
+    this.onmessage?.({ data })
+  }
+}
+
+const request = (id: string): Omit<ConvertRequest, "type"> => ({
+  id,
+  source: new Blob(),
+  typeLabel: "PNG",
+  settings: DEFAULT_SETTINGS,
+})
+
+const result = { q: 0.9 } as ConvertResult
+
+const busyIds = () => FakeWorker.all.flatMap((w) => w.posted.filter((m) => m.type === "convert").map((m) => m.id))
+
+beforeEach(() => {
+  FakeWorker.all = []
+  vi.stubGlobal("Worker", FakeWorker)
+  vi.stubGlobal("OffscreenCanvas", class {})
+  vi.stubGlobal("ImageBitmap", class {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe("ConverterPool", () => {
+  it("runs at most `size` jobs at once and hands the next one to the first free worker", async () => {
+    const pool = new ConverterPool(2)
+    const runs = ["a", "b", "c"].map((id) => pool.run(request(id)))
+    expect(FakeWorker.all).toHaveLength(2)
+    expect(busyIds()).toEqual(["a", "b"])
+
+    FakeWorker.all[0].reply({ type: "done", id: "a", result })
+    expect(await runs[0]).toBe(result)
+    expect(FakeWorker.all).toHaveLength(2)
+    expect(FakeWorker.all[0].posted.at(-1)).toMatchObject({ type: "convert", id: "c" })
+    pool.terminate()
+    await expect(runs[1]).rejects.toThrow("Converter stopped")
+    await expect(runs[2]).rejects.toThrow("Converter stopped")
+  })
+
+  it("drops queued jobs on abort and asks a busy worker to stop", async () => {
+    const pool = new ConverterPool(1)
+    const running = new AbortController()
+    const queued = new AbortController()
+    const first = pool.run(request("a"), undefined, running.signal)
+    const second = pool.run(request("b"), undefined, queued.signal)
+
+    queued.abort()
+    await expect(second).rejects.toMatchObject({ name: "AbortError" })
+    running.abort()
+    await expect(first).rejects.toMatchObject({ name: "AbortError" })
+    expect(FakeWorker.all[0].posted.at(-1)).toEqual({ type: "cancel", id: "a" })
+
+    // the slot stays taken until the worker acknowledges, and its late answer is ignored
+    const third = pool.run(request("c"))
+    expect(busyIds()).toEqual(["a"])
+    FakeWorker.all[0].reply({ type: "error", id: "a", message: "Conversion cancelled" })
+    expect(busyIds()).toEqual(["a", "c"])
+    FakeWorker.all[0].reply({ type: "done", id: "c", result })
+    expect(await third).toBe(result)
+  })
+
+  it("detaches from the abort signal once the job settles", async () => {
+    const pool = new ConverterPool(1)
+    const controller = new AbortController()
+    const remove = vi.spyOn(controller.signal, "removeEventListener")
+    const run = pool.run(request("a"), undefined, controller.signal)
+    FakeWorker.all[0].reply({ type: "done", id: "a", result })
+    await run
+    expect(remove).toHaveBeenCalledWith("abort", expect.any(Function))
+  })
+
+  it("fails the job of a crashed worker and replaces the worker", async () => {
+    const pool = new ConverterPool(1)
+    const first = pool.run(request("a"))
+    const second = pool.run(request("b"))
+    FakeWorker.all[0].onerror?.({ message: "out of memory", preventDefault() {} })
+    await expect(first).rejects.toThrow("out of memory")
+    expect(FakeWorker.all[0].terminated).toBe(true)
+    expect(FakeWorker.all).toHaveLength(2)
+    FakeWorker.all[1].reply({ type: "done", id: "b", result })
+    expect(await second).toBe(result)
+  })
+})
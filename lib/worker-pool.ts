@@ -0,0 +1,161 @@
+import { runConversion } from "@/lib/convert-pipeline"
+import type { ConvertProgress, ConvertResult, ConvertSettings } from "@/lib/engine"
+import { abortError } from "@/lib/conversion-queue"
+import type { ImageEdits } from "@/lib/edits"
+
+export type ConvertRequest = {
+  type: "convert"
+  id: string
+  source: Blob | ImageBitmap
+  typeLabel: string
+  settings: ConvertSettings
+  edits?: ImageEdits
+}
+
+export type WorkerRequest = ConvertRequest | { type: "cancel"; id: string }
+
+export type WorkerResponse =
+  | { type: "progress"; id: string; progress: ConvertProgress }
+  | { type: "done"; id: string; result: ConvertResult }
+  | { type: "error"; id: string; message: string }
+
+type Job = {
+  request: ConvertRequest
+  onProgress?: (p: ConvertProgress) => void
+  resolve: (r: ConvertResult) => void
+  reject: (e: Error) => void
+  // set once the caller aborted; the worker keeps the slot until it acknowledges
+  cancelled?: boolean
+}
+
+type Slot = {
+  worker: Worker
+  job: Job | null
+}
+
+export function defaultPoolSize() {
+  const cores = typeof navigator !== "undefined" ? navigator.hardwareConcurrency || 4 : 4
+  // every worker holds decoded canvases in memory, so don't go wild on many-core machines
+  return Math.max(1, Math.min(cores, 8))
+}
+
+export function supportsWorkerPool() {
+  return typeof Worker !== "undefined" && typeof OffscreenCanvas !== "undefined"
+}
+
+// A fixed-size pool of conversion workers. Jobs queue up and are handed to the first idle worker;
+// each worker decodes with createImageBitmap and runs the encode/search pipeline on OffscreenCanvas.
+export class ConverterPool {
+  private slots: Slot[] = []
+  private queue: Job[] = []
+
+  constructor(private size = defaultPoolSize()) {}
+
+  run(
+    request: Omit<ConvertRequest, "type">,
+    onProgress?: (p: ConvertProgress) => void,
+    signal?: AbortSignal,
+  ): Promise<ConvertResult> {
+    if (signal?.aborted) return Promise.reject(abortError())
+    if (!supportsWorkerPool()) return this.runInline(request, onProgress, signal)
+    return new Promise<ConvertResult>((resolve, reject) => {
+      const onAbort = () => this.cancel(job)
+      // a settled job lets go of the signal, so long-lived signals don't keep finished jobs alive
+      const settle =
+        <T>(fn: (value: T) => void) =>
+        (value: T) => {
+          signal?.removeEventListener("abort", onAbort)
+          fn(value)
+        }
+      const job: Job = {
+        request: { type: "convert", ...request },
+        onProgress,
+        resolve: settle(resolve),
+        reject: settle(reject),
+      }
+      signal?.addEventListener("abort", onAbort, { once: true })
+      this.queue.push(job)
+      this.pump()
+    })
+  }
+
+  terminate() {
+    this.slots.forEach((s) => {
+      s.worker.terminate()
+      s.job?.reject(new Error("Converter stopped"))
+    })
+    this.queue.forEach((j) => j.reject(new Error("Converter stopped")))
+    this.slots = []
+    this.queue = []
+  }
+
+  // Fallback for browsers without module workers: same pipeline, on the main thread.
+  private async runInline(
+    request: Omit<ConvertRequest, "type">,
+    onProgress?: (p: ConvertProgress) => void,
+    signal?: AbortSignal,
+  ) {
+    if (typeof OffscreenCanvas === "undefined") throw new Error("This browser doesn't support OffscreenCanvas")
+    return runConversion(request.source, request.settings, request.typeLabel, onProgress, signal, request.edits)
+  }
+
+  private cancel(job: Job) {
+    const idx = this.queue.indexOf(job)
+    if (idx >= 0) {
+      this.queue.splice(idx, 1)
+    } else {
+      const slot = this.slots.find((s) => s.job === job)
+      if (!slot || job.cancelled) return
+      job.cancelled = true
+      slot.worker.postMessage({ type: "cancel", id: job.request.id } satisfies WorkerRequest)
+    }
+    if (job.request.source instanceof ImageBitmap && idx >= 0) job.request.source.close()
+    job.reject(abortError())
+  }
+
+  private pump() {
+    while (this.queue.length) {
+      let slot = this.slots.find((s) => !s.job)
+      if (!slot && this.slots.length < this.size) slot = this.spawn()
+      if (!slot) return
+
+      const job = this.queue.shift()!
+      slot.job = job
+      const transfer = job.request.source instanceof ImageBitmap ? [job.request.source] : []
+      slot.worker.postMessage(job.request, transfer)
+    }
+  }
+
+  private spawn(): Slot {
+    const worker = new Worker(new URL("./convert.worker.ts", import.meta.url), { type: "module" })
+    const slot: Slot = { worker, job: null }
+
+    worker.onmessage = (e: MessageEvent<WorkerResponse>) => {
+      const job = slot.job
+      if (!job || job.request.id !== e.data.id) return
+      const msg = e.data
+      if (msg.type === "progress") {
+        if (!job.cancelled) job.onProgress?.(msg.progress)
+        return
+      }
+      slot.job = null
+      if (!job.cancelled) {
+        if (msg.type === "done") job.resolve(msg.result)
+        else job.reject(new Error(msg.message))
+      }
+      this.pump()
+    }
+
+    // a crashed worker (e.g. out of memory) fails its job and is replaced on the next pump
+    worker.onerror = (e) => {
+      e.preventDefault()
+      slot.job?.reject(new Error(e.message || "Conversion worker crashed"))
+      worker.terminate()
+      this.slots = this.slots.filter((s) => s !== slot)
+      this.pump()
+    }
+
+    this.slots.push(slot)
+    return slot
+  }
+}
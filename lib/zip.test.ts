@@ -0,0 +1,14 @@
+import { describe, expect, it } from "vitest"
+import { uniqueNames } from "@/lib/zip"
+
+describe("uniqueNames", () => {
+  it("numbers repeats case-insensitively", () => {
+    expect(uniqueNames(["a.webp", "A.webp", "a.webp", "b"])).toEqual(["a.webp", "A (1).webp", "a (2).webp", "b"])
+    expect(uniqueNames(["b", "b"])).toEqual(["b", "b (1)"])
+  })
+
+  it("never reuses a name that is already taken", () => {
+    expect(uniqueNames(["a (1).webp", "a.webp", "a.webp"])).toEqual(["a (1).webp", "a.webp", "a (2).webp"])
+    expect(uniqueNames(["a.webp", "a.webp", "a (1).webp"])).toEqual(["a.webp", "a (1).webp", "a (1) (1).webp"])
+  })
+})
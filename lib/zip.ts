@@ -0,0 +1,129 @@
+export type ZipEntry = {
+  name: string
+  data: Blob | Uint8Array<ArrayBuffer> | string
+  lastModified?: number
+}
+
+// Converted images are already compressed, so entries are written with the STORE method (no deflate).
+// That keeps this writer tiny and the ZIP is built almost instantly, even for large batches.
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+export function crc32(bytes: Uint8Array) {
+  let crc = 0xffffffff
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function dosDateTime(ms: number) {
+  const d = new Date(ms)
+  const year = Math.max(1980, d.getFullYear())
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  }
+}
+
+async function toBytes(data: ZipEntry["data"]): Promise<Uint8Array<ArrayBuffer>> {
+  if (typeof data === "string") return new TextEncoder().encode(data)
+  if (data instanceof Uint8Array) return data
+  return new Uint8Array(await data.arrayBuffer())
+}
+
+// Make entry names unique inside the archive: "a.webp", "a (1).webp", ...
+export function uniqueNames(names: string[]) {
+  const seen = new Map<string, number>()
+  return names.map((name) => {
+    const key = name.toLowerCase()
+    let count = seen.get(key) ?? 0
+    if (count === 0) {
+      seen.set(key, 1)
+      return name
+    }
+    // skip numbers already taken, by an input name or an earlier rename
+    const dot = name.lastIndexOf(".")
+    let candidate: string
+    do {
+      candidate = dot > 0 ? `${name.slice(0, dot)} (${count})${name.slice(dot)}` : `${name} (${count})`
+      count++
+    } while (seen.has(candidate.toLowerCase()))
+    seen.set(key, count)
+    seen.set(candidate.toLowerCase(), 1)
+    return candidate
+  })
+}
+
+export async function createZip(entries: ZipEntry[]): Promise<Blob> {
+  const encoder = new TextEncoder()
+  const parts: BlobPart[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const bytes = await toBytes(entry.data)
+    const crc = crc32(bytes)
+    const { time, date } = dosDateTime(entry.lastModified ?? Date.now())
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true) // local file header signature
+    local.setUint16(4, 20, true) // version needed
+    local.setUint16(6, 0x0800, true) // flags: UTF-8 names
+    local.setUint16(8, 0, true) // method: store
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, bytes.length, true)
+    local.setUint32(22, bytes.length, true)
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true)
+
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true) // central directory header signature
+    header.setUint16(4, 20, true) // version made by
+    header.setUint16(6, 20, true)
+    header.setUint16(8, 0x0800, true)
+    header.setUint16(10, 0, true)
+    header.setUint16(12, time, true)
+    header.setUint16(14, date, true)
+    header.setUint32(16, crc, true)
+    header.setUint32(20, bytes.length, true)
+    header.setUint32(24, bytes.length, true)
+    header.setUint16(28, name.length, true)
+    header.setUint32(42, offset, true) // local header offset
+
+    parts.push(local.buffer, name, bytes)
+    central.push(new Uint8Array(header.buffer), name)
+    offset += 30 + name.length + bytes.length
+  }
+
+  const centralSize = central.reduce((n, b) => n + b.length, 0)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true) // end of central directory signature
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...central, end.buffer], { type: "application/zip" })
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement("a")
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  // give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}